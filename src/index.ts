@@ -13,6 +13,8 @@ import databaseManagerRoutes from './routes/databaseManager';
 import authRoutes from './routes/auth';
 import chatSessionsRoutes from './routes/chat-sessions';
 import organizationRoutes from './routes/organizations';
+import { attachChatWebSocket, CHAT_WEBSOCKET_PATH } from './services/chatWebSocket';
+import { startSessionRetentionJob } from './services/sessionRetention';
 
 // Load environment variables (optional in production)
 const result = dotenv.config();
@@ -62,7 +64,8 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Last-Event-ID'],
+  exposedHeaders: ['X-Cache', 'X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'Retry-After']
 }));
 
 app.use(morgan('combined'));
@@ -85,9 +88,10 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   res.status(500).json({ error: 'Something went wrong!' });
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📚 Chat API available at http://localhost:${PORT}/api/chat`);
+  console.log(`🔌 Chat WebSocket available at ws://localhost:${PORT}${CHAT_WEBSOCKET_PATH}`);
   console.log(`🔐 Auth API available at http://localhost:${PORT}/api/auth`);
   console.log(`🧠 GroundX API available at http://localhost:${PORT}/api/groundx`);
   console.log(`🧬 Kernel Memory API available at http://localhost:${PORT}/api/kernel-memory`);
@@ -95,4 +99,7 @@ app.listen(PORT, () => {
   console.log(`🏢 Organization API available at http://localhost:${PORT}/api/organizations`);
 });
 
+attachChatWebSocket(server);
+startSessionRetentionJob();
+
 export default app;
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { RateLimitWindow, checkClientLimits } from '../services/rateLimit';
+
+// Health checks are polled by monitors and never count against a client's limits
+const HEALTH_CHECK_PATH = /(^|\/)health\/?$/;
+
+export function setRateLimitHeaders(res: Response, window: RateLimitWindow | null) {
+  if (!window) {
+    return;
+  }
+  res.setHeader('X-RateLimit-Limit', String(window.limit));
+  res.setHeader('X-RateLimit-Remaining', String(window.remaining));
+  res.setHeader('X-RateLimit-Reset', String(Math.ceil(window.resetAt / 1000)));
+}
+
+/**
+ * Enforce the caller's organization limits (see checkClientLimits), answering 413 or 429
+ * with Retry-After when one is exceeded. Mount after the authentication middleware so the
+ * organization and user are known.
+ */
+export async function enforceClientLimits(req: Request, res: Response, next: NextFunction) {
+  if (HEALTH_CHECK_PATH.test(req.path)) {
+    return next();
+  }
+
+  const check = await checkClientLimits(
+    {
+      organizationId: req.organizationContext?.activeOrganizationId || null,
+      userId: req.user?.id || null,
+      ip: req.ip
+    },
+    { contentLength: Number(req.headers['content-length']) || 0 }
+  );
+  setRateLimitHeaders(res, check.window);
+
+  if (!check.allowed) {
+    if (check.retryAfterSeconds) {
+      res.setHeader('Retry-After', String(check.retryAfterSeconds));
+    }
+    return res.status(check.status).json({
+      success: false,
+      error: check.error,
+      details: check.details
+    });
+  }
+
+  res.once('close', check.release);
+  next();
+}
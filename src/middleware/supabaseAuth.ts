@@ -70,6 +70,149 @@ export interface AuthenticatedUser {
   isQIG: boolean;
 }
 
+/**
+ * Resolve a user's own and active organization (QIG admins may have switched organizations)
+ */
+export async function resolveOrganizationContext(user: { id: string; email?: string; [key: string]: any }): Promise<{
+  isQIG: boolean;
+  activeOrganization: any;
+  organizationContext: OrganizationContext;
+}> {
+  // Check if user is QIG admin first
+  const isQIG: boolean = !!(user.email && (
+    user.email.includes('@qig.') || 
+    user.email.includes('@qualityimprovementgroup.')
+  ));
+
+  let userOrganizationInfo = null;
+
+  if (isQIG) {
+    // If user is QIG, always set QIG organization
+    userOrganizationInfo = { 
+      name: 'QIG', 
+      id: 'qig-org',
+      type: 'enterprise' 
+    };
+  } else {
+    // Only check client configurations for non-QIG users
+    const { data: clientConfigs, error: configError } = await getSupabaseClient()
+      .from('client_configurations')
+      .select('*')
+      .eq('created_by', user.id)
+      .eq('is_active', true)
+      .limit(1);
+
+    if (configError) {
+      console.warn('Could not fetch client configurations:', configError);
+    } else if (clientConfigs && clientConfigs.length > 0) {
+      // Use the first active client configuration
+      const config = clientConfigs[0];
+      userOrganizationInfo = {
+        id: config.organization_id,
+        name: config.client_name,
+        type: config.client_type
+      };
+    }
+  }
+
+  // Determine active organization (what the user is "acting as")
+  let activeOrganization = userOrganizationInfo;
+
+  // Check for organization switching session (QIG admins only)
+  if (isQIG && userOrganizationInfo) {
+    const sessionKey = `${user.id}`;
+    const orgSession = organizationSessions.get(sessionKey);
+    
+    if (orgSession) {
+      // Check if session is still valid (24 hours)
+      const sessionAge = Date.now() - orgSession.timestamp;
+      if (sessionAge < 24 * 60 * 60 * 1000) {
+        // Get the switched organization details from client_configurations
+        const { data: switchedOrg, error: switchedOrgError } = await getSupabaseClient()
+          .from('client_configurations')
+          .select('organization_id, client_name, client_type')
+          .eq('organization_id', orgSession.activeOrganizationId)
+          .eq('is_active', true)
+          .limit(1)
+          .single();
+        
+        if (switchedOrg && !switchedOrgError) {
+          activeOrganization = {
+            id: switchedOrg.organization_id,
+            name: switchedOrg.client_name,
+            type: switchedOrg.client_type
+          };
+          console.log(`QIG admin ${user.email} acting as organization: ${switchedOrg.client_name}`);
+        }
+      } else {
+        // Session expired, remove it
+        organizationSessions.delete(sessionKey);
+      }
+    }
+  }
+
+  // Create organization context
+  const organizationContext: OrganizationContext = {
+    userOrganizationId: userOrganizationInfo?.id || '',
+    userOrganizationName: userOrganizationInfo?.name || '',
+    activeOrganizationId: activeOrganization?.id || '',
+    activeOrganizationName: activeOrganization?.name || '',
+    isQIGAdmin: isQIG,
+    canAccessOrganization: (orgId: string) => {
+      return isQIG || orgId === userOrganizationInfo?.id;
+    }
+  };
+
+  return { isQIG, activeOrganization, organizationContext };
+}
+
+// Why a bearer token was rejected, or the user it carries
+type DecodedToken = { user: { id: string; email?: string; user_metadata: any } } | { error: string };
+
+function decodeSupabaseToken(authHeader: string): DecodedToken {
+  // Extract the JWT token and clean it
+  const token = authHeader.substring(7).trim().replace(/\s+/g, '');
+
+  // Basic JWT format validation (just check it's a valid JWT structure)
+  const jwtParts = token.split('.');
+  if (jwtParts.length !== 3) {
+    return { error: 'Invalid JWT format' };
+  }
+
+  // Decode the payload to get user info (without verifying signature for now)
+  try {
+    const payload = JSON.parse(Buffer.from(jwtParts[1], 'base64').toString());
+    return {
+      user: {
+        id: payload.sub,
+        email: payload.email,
+        user_metadata: payload.user_metadata || {}
+      }
+    };
+  } catch (decodeError) {
+    return { error: 'Invalid JWT payload' };
+  }
+}
+
+// Add user data and organization context to the request
+async function attachSupabaseUser(req: Request, user: { id: string; email?: string; [key: string]: any }) {
+  const { isQIG, activeOrganization, organizationContext } = await resolveOrganizationContext(user);
+
+  req.user = {
+    id: user.id,
+    email: user.email || '',
+    profile: {
+      client_config: null  // Only set for non-QIG users
+    },
+    organization: activeOrganization, // Keep for backward compatibility
+    isQIG: isQIG
+  };
+
+  req.organizationContext = organizationContext;
+
+  console.log(`Authenticated user: ${user.email} (${activeOrganization?.name || 'No organization'}) [${isQIG ? 'QIG Admin' : 'Regular User'}]`);
+}
+
 export async function authenticateSupabaseUser(
   req: Request, 
   res: Response, 
@@ -86,143 +229,15 @@ export async function authenticateSupabaseUser(
       });
     }
 
-    // Extract the JWT token and clean it
-    const token = authHeader.substring(7).trim().replace(/\s+/g, '');
-
-    // Basic JWT format validation (just check it's a valid JWT structure)
-    const jwtParts = token.split('.');
-    if (jwtParts.length !== 3) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid JWT format'
-      });
-    }
-
-    // Decode the payload to get user info (without verifying signature for now)
-    let user;
-    try {
-      const payload = JSON.parse(Buffer.from(jwtParts[1], 'base64').toString());
-      user = {
-        id: payload.sub,
-        email: payload.email,
-        user_metadata: payload.user_metadata || {}
-      };
-    } catch (decodeError) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid JWT payload'
-      });
-    }
-
-    const error = null;
-
-    if (error || !user) {
+    const decoded = decodeSupabaseToken(authHeader);
+    if ('error' in decoded) {
       return res.status(401).json({
         success: false,
-        error: 'Invalid or expired token'
+        error: decoded.error
       });
     }
 
-    // Check if user is QIG admin first
-    const isQIG: boolean = !!(user.email && (
-      user.email.includes('@qig.') || 
-      user.email.includes('@qualityimprovementgroup.')
-    ));
-
-    let userOrganizationInfo = null;
-
-    if (isQIG) {
-      // If user is QIG, always set QIG organization
-      userOrganizationInfo = { 
-        name: 'QIG', 
-        id: 'qig-org',
-        type: 'enterprise' 
-      };
-    } else {
-      // Only check client configurations for non-QIG users
-      const { data: clientConfigs, error: configError } = await getSupabaseClient()
-        .from('client_configurations')
-        .select('*')
-        .eq('created_by', user.id)
-        .eq('is_active', true)
-        .limit(1);
-
-      if (configError) {
-        console.warn('Could not fetch client configurations:', configError);
-      } else if (clientConfigs && clientConfigs.length > 0) {
-        // Use the first active client configuration
-        const config = clientConfigs[0];
-        userOrganizationInfo = {
-          id: config.organization_id,
-          name: config.client_name,
-          type: config.client_type
-        };
-      }
-    }
-
-    // Determine active organization (what the user is "acting as")
-    let activeOrganization = userOrganizationInfo;
-
-    // Check for organization switching session (QIG admins only)
-    if (isQIG && userOrganizationInfo) {
-      const sessionKey = `${user.id}`;
-      const orgSession = organizationSessions.get(sessionKey);
-      
-      if (orgSession) {
-        // Check if session is still valid (24 hours)
-        const sessionAge = Date.now() - orgSession.timestamp;
-        if (sessionAge < 24 * 60 * 60 * 1000) {
-          // Get the switched organization details from client_configurations
-          const { data: switchedOrg, error: switchedOrgError } = await getSupabaseClient()
-            .from('client_configurations')
-            .select('organization_id, client_name, client_type')
-            .eq('organization_id', orgSession.activeOrganizationId)
-            .eq('is_active', true)
-            .limit(1)
-            .single();
-          
-          if (switchedOrg && !switchedOrgError) {
-            activeOrganization = {
-              id: switchedOrg.organization_id,
-              name: switchedOrg.client_name,
-              type: switchedOrg.client_type
-            };
-            console.log(`QIG admin ${user.email} acting as organization: ${switchedOrg.client_name}`);
-          }
-        } else {
-          // Session expired, remove it
-          organizationSessions.delete(sessionKey);
-        }
-      }
-    }
-
-    // Create organization context
-    const organizationContext: OrganizationContext = {
-      userOrganizationId: userOrganizationInfo?.id || '',
-      userOrganizationName: userOrganizationInfo?.name || '',
-      activeOrganizationId: activeOrganization?.id || '',
-      activeOrganizationName: activeOrganization?.name || '',
-      isQIGAdmin: isQIG,
-      canAccessOrganization: (orgId: string) => {
-        return isQIG || orgId === userOrganizationInfo?.id;
-      }
-    };
-
-    // Add user data and organization context to request object
-    req.user = {
-      id: user.id,
-      email: user.email || '',
-      profile: {
-        client_config: null  // Only set for non-QIG users
-      },
-      organization: activeOrganization, // Keep for backward compatibility
-      isQIG: isQIG
-    };
-
-    // Add organization context to request
-    req.organizationContext = organizationContext;
-
-    console.log(`Authenticated user: ${user.email} (${activeOrganization?.name || 'No organization'}) [${isQIG ? 'QIG Admin' : 'Regular User'}]`);
+    await attachSupabaseUser(req, decoded.user);
     next();
 
   } catch (error) {
@@ -234,27 +249,32 @@ export async function authenticateSupabaseUser(
   }
 }
 
-// Optional authentication (doesn't fail if no auth provided)
+// Optional authentication: a missing, malformed or undecodable token leaves the caller anonymous
 export async function optionalSupabaseAuth(
   req: Request, 
   res: Response, 
   next: NextFunction
 ) {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      // No auth provided, continue without user context
-      return next();
-    }
+  const authHeader = req.headers.authorization;
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    // No auth provided, continue without user context
+    return next();
+  }
 
-    // Try to authenticate, but don't fail if it doesn't work
-    await authenticateSupabaseUser(req, res, next);
+  const decoded = decodeSupabaseToken(authHeader);
+  if ('error' in decoded) {
+    console.warn(`Optional auth ignored a bad token: ${decoded.error}`);
+    return next();
+  }
+
+  try {
+    await attachSupabaseUser(req, decoded.user);
   } catch (error) {
     // Log the error but continue
     console.warn('Optional auth failed:', error);
-    next();
   }
+  next();
 }
 
 // QIG-only middleware
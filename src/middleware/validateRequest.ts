@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { ValidationResult } from '../utils/requestValidation';
+
+/**
+ * Reject requests whose body fails the given validator with a 400 listing every issue,
+ * and replace req.body with the validated (whitelisted) fields otherwise
+ */
+export function validateBody(validator: (body: unknown) => ValidationResult) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { issues, value } = validator(req.body);
+
+    if (issues.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request body',
+        details: issues
+      });
+      return;
+    }
+
+    req.body = value;
+    next();
+  };
+}
+
+/**
+ * Reject requests whose query string fails the given validator with a 400 listing every
+ * issue, and replace req.query with the validated (whitelisted) parameters otherwise
+ */
+export function validateQuery(validator: (query: unknown) => ValidationResult) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { issues, value } = validator(req.query);
+
+    if (issues.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: issues
+      });
+      return;
+    }
+
+    // Express 5 exposes req.query through a getter, so the validated copy is defined over it
+    Object.defineProperty(req, 'query', { value, writable: true, configurable: true, enumerable: true });
+    next();
+  };
+}
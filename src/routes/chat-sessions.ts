@@ -1,5 +1,58 @@
 import { Router } from 'express';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_SESSION_TITLE } from '../services/sessionTitles';
+import { resolveOrganizationContext, optionalSupabaseAuth } from '../middleware/supabaseAuth';
+import { enforceClientLimits } from '../middleware/rateLimit';
+import { validateBody, validateQuery } from '../middleware/validateRequest';
+import {
+  validateMessageFeedbackRequest,
+  validateRegenerateRequest,
+  validateForkSessionRequest,
+  validateShareSessionRequest,
+  validateUpdateSessionRequest,
+  validateFolderRequest,
+  validateTagRequest,
+  validateBulkMoveRequest,
+  validateBulkTagRequest,
+  validateChatSearchQuery,
+  validateSessionListQuery,
+  validateFeedbackSummaryQuery
+} from '../utils/requestValidation';
+import {
+  FeedbackError,
+  saveMessageFeedback,
+  deleteMessageFeedback,
+  getFeedbackSummary
+} from '../services/messageFeedback';
+import { ChatTurnError } from '../services/chatTurn';
+import { ChatProviderError } from '../services/chatProviders';
+import { regenerateAssistantMessage, forkSession } from '../services/sessionBranching';
+import { EXPORT_FORMATS, ExportFormat, buildSessionExport, renderSessionExport } from '../services/sessionExport';
+import { searchChatHistory } from '../services/chatSearch';
+import { parsePageParams, applyPageParams, buildPage } from '../utils/pagination';
+import {
+  SessionAccessError,
+  requireSessionAccess,
+  listSharedSessionRoles,
+  listRemovedSessionIds,
+  recordSessionRemovals,
+  shareSession
+} from '../services/sessionAccess';
+import { RetentionPolicy, getRetentionPolicy, getPurgeDate } from '../services/sessionRetention';
+import {
+  SessionOrganizationError,
+  listFolders,
+  createFolder,
+  updateFolder,
+  deleteFolder,
+  listTags,
+  createTag,
+  updateTag,
+  deleteTag,
+  moveSessionsToFolder,
+  tagSessions,
+  findSessionIdsWithTags
+} from '../services/sessionOrganization';
 
 const router = Router();
 
@@ -43,8 +96,28 @@ async function verifyUser(req: any): Promise<{ user: any; supabaseClient: Supaba
   }
 }
 
+// Errors that carry their own status (missing access, bad provider, etc.) instead of a 500
+function sendKnownError(res: any, error: unknown): boolean {
+  if (
+    error instanceof SessionAccessError ||
+    error instanceof SessionOrganizationError ||
+    error instanceof FeedbackError ||
+    error instanceof ChatTurnError ||
+    error instanceof ChatProviderError
+  ) {
+    const details = (error as ChatTurnError | ChatProviderError).details;
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+      ...(details && { details })
+    });
+    return true;
+  }
+  return false;
+}
+
 // GET /chat-sessions - List user's chat sessions
-router.get('/sessions', async (req: any, res: any) => {
+router.get('/sessions', validateQuery(validateSessionListQuery), async (req: any, res: any) => {
   try {
     const auth = await verifyUser(req);
     if (!auth) {
@@ -56,11 +129,64 @@ router.get('/sessions', async (req: any, res: any) => {
 
     const { user, supabaseClient } = auth;
 
-    const { data: sessions, error } = await supabaseClient
+    // Most recently updated first; ?limit/&cursor pages, ?since returns only sessions updated after it
+    const { params, error: paramsError } = parsePageParams(req.query, false);
+    if (!params) {
+      return res.status(400).json({
+        success: false,
+        error: paramsError
+      });
+    }
+
+    // Taken before the query so changes made while it runs are picked up by the next sync
+    const syncedAt = new Date().toISOString();
+
+    // Sessions shared with the user are listed with their own sessions unless ?shared=false
+    const sharedRoles = req.query.shared === 'false'
+      ? new Map<string, string>()
+      : await listSharedSessionRoles(supabaseClient, user);
+    const sharedIds = [...sharedRoles.keys()];
+
+    let sessionsQuery = supabaseClient
       .from('chat_sessions')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('updated_at', { ascending: false });
+      .select('*, chat_session_tags(chat_tags(id, name, color))');
+    sessionsQuery = sharedIds.length > 0
+      ? sessionsQuery.or(`user_id.eq.${user.id},id.in.(${sharedIds.join(',')})`)
+      : sessionsQuery.eq('user_id', user.id);
+
+    // Syncs (?since) also return archived and trashed sessions so clients can update their copies;
+    // plain listings leave out the trash and archived sessions unless ?archived=true or ?archived=all
+    if (!params.since) {
+      sessionsQuery = sessionsQuery.is('deleted_at', null);
+      if (req.query.archived !== 'all') {
+        sessionsQuery = sessionsQuery.eq('archived', req.query.archived === 'true');
+      }
+    }
+    if (req.query.pinned === 'true') {
+      sessionsQuery = sessionsQuery.eq('pinned', true);
+    }
+
+    // ?folderId=<id> (or none for sessions outside any folder) and ?tagId=<id>[,<id>] (sessions with every tag)
+    if (req.query.folderId) {
+      sessionsQuery = req.query.folderId === 'none'
+        ? sessionsQuery.is('folder_id', null)
+        : sessionsQuery.eq('folder_id', req.query.folderId);
+    }
+    if (req.query.tagId?.length > 0) {
+      const taggedIds = await findSessionIdsWithTags(supabaseClient, req.query.tagId);
+      if (taggedIds.length === 0) {
+        return res.json({
+          success: true,
+          sessions: [],
+          nextCursor: null,
+          hasMore: false,
+          syncedAt
+        });
+      }
+      sessionsQuery = sessionsQuery.in('id', taggedIds);
+    }
+
+    const { data: sessions, error } = await applyPageParams(sessionsQuery, 'updated_at', params);
 
     if (error) {
       console.error('Error fetching chat sessions:', error);
@@ -70,9 +196,24 @@ router.get('/sessions', async (req: any, res: any) => {
       });
     }
 
+    const page = buildPage(sessions || [], 'updated_at', params);
+
+    // Syncs also list sessions the user lost access to (revoked shares, permanent deletes) since then
+    const removedSessionIds = params.since
+      ? (await listRemovedSessionIds(supabaseClient, user, params.since)).filter(id => !sharedRoles.has(id))
+      : undefined;
+
     res.json({
       success: true,
-      sessions: sessions || []
+      sessions: page.items.map(({ chat_session_tags: sessionTags, ...session }: any) => ({
+        ...session,
+        tags: (sessionTags || []).map((sessionTag: any) => sessionTag.chat_tags).filter(Boolean),
+        access_role: session.user_id === user.id ? 'owner' : sharedRoles.get(session.id)
+      })),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+      ...(removedSessionIds && { removedSessionIds }),
+      syncedAt
     });
 
   } catch (error: any) {
@@ -84,6 +225,66 @@ router.get('/sessions', async (req: any, res: any) => {
   }
 });
 
+// GET /chat-sessions/search?q= - Full-text search over message content and session titles
+router.get('/search', validateQuery(validateChatSearchQuery), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { scope = 'user', limit = 20, offset = 0, role: roles = [], from, to } = req.query;
+    const query = req.query.q.trim();
+
+    let organizationId: string | null = null;
+    if (scope === 'organization') {
+      // Searching other users' conversations is limited to QIG administrators
+      const { organizationContext } = await resolveOrganizationContext(user);
+      if (!organizationContext.isQIGAdmin) {
+        return res.status(403).json({
+          success: false,
+          error: 'Only QIG administrators can search an organization'
+        });
+      }
+      organizationId = req.query.organizationId || organizationContext.activeOrganizationId;
+      if (!organizationId) {
+        return res.status(400).json({
+          success: false,
+          error: 'organizationId is required'
+        });
+      }
+    }
+
+    const results = await searchChatHistory(supabaseClient, {
+      query,
+      scope,
+      userId: user.id,
+      organizationId,
+      roles,
+      from,
+      to,
+      limit,
+      offset
+    });
+
+    res.json({
+      success: true,
+      ...results
+    });
+
+  } catch (error: any) {
+    console.error('Error in chat search endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
 // POST /chat-sessions - Create new chat session
 router.post('/sessions', async (req: any, res: any) => {
   try {
@@ -98,11 +299,15 @@ router.post('/sessions', async (req: any, res: any) => {
     const { user, supabaseClient } = auth;
     const { title } = req.body;
 
+    // Sessions belong to the organization the user is acting as, for organization-wide search
+    const { organizationContext } = await resolveOrganizationContext(user);
+
     const { data: session, error } = await supabaseClient
       .from('chat_sessions')
       .insert([{
         user_id: user.id,
-        title: title || 'New Chat'
+        organization_id: organizationContext.activeOrganizationId || null,
+        title: title || DEFAULT_SESSION_TITLE
       }])
       .select()
       .single();
@@ -143,27 +348,29 @@ router.get('/sessions/:sessionId/messages', async (req: any, res: any) => {
     const { user, supabaseClient } = auth;
     const { sessionId } = req.params;
 
-    // First verify the session belongs to the user
-    const { data: session, error: sessionError } = await supabaseClient
-      .from('chat_sessions')
-      .select('id')
-      .eq('id', sessionId)
-      .eq('user_id', user.id)
-      .single();
+    // Owners and anyone the session is shared with may read it
+    await requireSessionAccess(supabaseClient, sessionId, user, 'viewer');
 
-    if (sessionError || !session) {
-      return res.status(404).json({
+    // Oldest first (?order=desc pages back from the newest); ?since returns only messages added after it
+    const { params, error: paramsError } = parsePageParams(req.query, true);
+    if (!params) {
+      return res.status(400).json({
         success: false,
-        error: 'Chat session not found'
+        error: paramsError
       });
     }
 
+    const syncedAt = new Date().toISOString();
+
     // Get messages for the session
-    const { data: messages, error } = await supabaseClient
-      .from('chat_messages')
-      .select('*')
-      .eq('session_id', sessionId)
-      .order('timestamp', { ascending: true });
+    const { data: messages, error } = await applyPageParams(
+      supabaseClient
+        .from('chat_messages')
+        .select('*')
+        .eq('session_id', sessionId),
+      'timestamp',
+      params
+    );
 
     if (error) {
       console.error('Error fetching chat messages:', error);
@@ -173,12 +380,18 @@ router.get('/sessions/:sessionId/messages', async (req: any, res: any) => {
       });
     }
 
+    const page = buildPage(messages || [], 'timestamp', params);
+
     res.json({
       success: true,
-      messages: messages || []
+      messages: page.items,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+      syncedAt
     });
 
   } catch (error: any) {
+    if (sendKnownError(res, error)) return;
     console.error('Error in chat messages endpoint:', error);
     res.status(500).json({
       success: false,
@@ -187,6 +400,58 @@ router.get('/sessions/:sessionId/messages', async (req: any, res: any) => {
   }
 });
 
+// GET /chat-sessions/:sessionId/export?format=md|json|pdf - Download a transcript
+router.get('/sessions/:sessionId/export', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionId } = req.params;
+    const format = (req.query.format || 'md') as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+
+    // ?omit=thoughts,raw_response leaves internal reasoning out of transcripts meant for clients
+    const omitted = typeof req.query.omit === 'string' ? req.query.omit.split(',').map((field: string) => field.trim()) : [];
+
+    const exported = await buildSessionExport(supabaseClient, sessionId, user, {
+      includeThoughts: !omitted.includes('thoughts'),
+      includeRawResponse: !omitted.includes('raw_response')
+    });
+
+    if (!exported) {
+      return res.status(404).json({
+        success: false,
+        error: 'Chat session not found'
+      });
+    }
+
+    const { body, contentType, fileName } = await renderSessionExport(exported, format);
+
+    res.set('Content-Type', contentType);
+    res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(body);
+
+  } catch (error: any) {
+    console.error('Error in export chat session endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
 // POST /chat-sessions/:sessionId/messages - Add message to session
 router.post('/sessions/:sessionId/messages', async (req: any, res: any) => {
   try {
@@ -212,20 +477,8 @@ router.post('/sessions/:sessionId/messages', async (req: any, res: any) => {
       raw_response 
     } = req.body;
 
-    // Verify the session belongs to the user
-    const { data: session, error: sessionError } = await supabaseClient
-      .from('chat_sessions')
-      .select('id')
-      .eq('id', sessionId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (sessionError || !session) {
-      return res.status(404).json({
-        success: false,
-        error: 'Chat session not found'
-      });
-    }
+    // Viewers of a shared session can't add messages
+    await requireSessionAccess(supabaseClient, sessionId, user, 'contributor');
 
     // Add the message
     const { data: message, error } = await supabaseClient
@@ -265,6 +518,7 @@ router.post('/sessions/:sessionId/messages', async (req: any, res: any) => {
     });
 
   } catch (error: any) {
+    if (sendKnownError(res, error)) return;
     console.error('Error in add chat message endpoint:', error);
     res.status(500).json({
       success: false,
@@ -273,8 +527,8 @@ router.post('/sessions/:sessionId/messages', async (req: any, res: any) => {
   }
 });
 
-// PUT /chat-sessions/:sessionId - Update session (rename, etc.)
-router.put('/sessions/:sessionId', async (req: any, res: any) => {
+// PUT /chat-sessions/:sessionId - Update session (rename, archive, pin, default chat settings)
+router.put('/sessions/:sessionId', validateBody(validateUpdateSessionRequest), async (req: any, res: any) => {
   try {
     const auth = await verifyUser(req);
     if (!auth) {
@@ -286,12 +540,18 @@ router.put('/sessions/:sessionId', async (req: any, res: any) => {
 
     const { user, supabaseClient } = auth;
     const { sessionId } = req.params;
-    const { title } = req.body;
+    const { title, archived, pinned, settings } = req.body;
+
+    // Only the owner may rename, archive, pin or change the defaults of a shared session
+    await requireSessionAccess(supabaseClient, sessionId, user, 'owner');
 
     const { data: session, error } = await supabaseClient
       .from('chat_sessions')
       .update({ 
         title,
+        archived,
+        pinned,
+        default_settings: settings,
         updated_at: new Date().toISOString()
       })
       .eq('id', sessionId)
@@ -320,6 +580,7 @@ router.put('/sessions/:sessionId', async (req: any, res: any) => {
     });
 
   } catch (error: any) {
+    if (sendKnownError(res, error)) return;
     console.error('Error in update chat session endpoint:', error);
     res.status(500).json({
       success: false,
@@ -328,7 +589,7 @@ router.put('/sessions/:sessionId', async (req: any, res: any) => {
   }
 });
 
-// DELETE /chat-sessions/:sessionId - Delete session
+// DELETE /chat-sessions/:sessionId - Move session to the trash (?permanent=true deletes a trashed session)
 router.delete('/sessions/:sessionId', async (req: any, res: any) => {
   try {
     const auth = await verifyUser(req);
@@ -341,13 +602,69 @@ router.delete('/sessions/:sessionId', async (req: any, res: any) => {
 
     const { user, supabaseClient } = auth;
     const { sessionId } = req.params;
+    const permanent = req.query.permanent === 'true';
+
+    const { session: existing } = await requireSessionAccess(supabaseClient, sessionId, user, 'owner', {
+      includeDeleted: permanent
+    });
 
-    // Delete the session (messages will be deleted automatically due to foreign key cascade)
-    const { error } = await supabaseClient
+    if (permanent) {
+      // Only sessions already in the trash can be deleted for good
+      if (!existing.deleted_at) {
+        return res.status(409).json({
+          success: false,
+          error: 'Move the chat session to the trash before deleting it permanently'
+        });
+      }
+
+      // The shares go with the session, so read who it was shared with first
+      const { data: shares } = await supabaseClient
+        .from('chat_session_shares')
+        .select('shared_with_user_id, organization_id')
+        .eq('session_id', sessionId);
+
+      // Messages and shares are deleted automatically due to foreign key cascade
+      const { error } = await supabaseClient
+        .from('chat_sessions')
+        .delete()
+        .eq('id', sessionId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting chat session:', error);
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to delete chat session'
+        });
+      }
+
+      await recordSessionRemovals(supabaseClient, [
+        { session_id: sessionId, user_id: user.id, organization_id: null },
+        ...(shares || []).map((share: any) => ({
+          session_id: sessionId,
+          user_id: share.shared_with_user_id,
+          organization_id: share.organization_id
+        }))
+      ]);
+
+      return res.json({
+        success: true,
+        message: 'Chat session deleted permanently'
+      });
+    }
+
+    const now = new Date().toISOString();
+    const { data: session, error } = await supabaseClient
       .from('chat_sessions')
-      .delete()
+      .update({
+        deleted_at: now,
+        deleted_by: user.id,
+        updated_at: now
+      })
       .eq('id', sessionId)
-      .eq('user_id', user.id);
+      .eq('user_id', user.id)
+      .select()
+      .single();
 
     if (error) {
       console.error('Error deleting chat session:', error);
@@ -357,12 +674,19 @@ router.delete('/sessions/:sessionId', async (req: any, res: any) => {
       });
     }
 
+    const policy = await getRetentionPolicy(session.organization_id);
+
     res.json({
       success: true,
-      message: 'Chat session deleted successfully'
+      message: 'Chat session moved to the trash',
+      session: {
+        ...session,
+        purge_at: getPurgeDate(session.deleted_at, policy)
+      }
     });
 
   } catch (error: any) {
+    if (sendKnownError(res, error)) return;
     console.error('Error in delete chat session endpoint:', error);
     res.status(500).json({
       success: false,
@@ -371,4 +695,740 @@ router.delete('/sessions/:sessionId', async (req: any, res: any) => {
   }
 });
 
+// POST /chat-sessions/:sessionId/restore - Take a session out of the trash
+router.post('/sessions/:sessionId/restore', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionId } = req.params;
+
+    const { session: existing } = await requireSessionAccess(supabaseClient, sessionId, user, 'owner', {
+      includeDeleted: true
+    });
+
+    // Restoring a session that isn't in the trash is a no-op
+    if (!existing.deleted_at) {
+      return res.json({
+        success: true,
+        session: existing
+      });
+    }
+
+    const { data: session, error } = await supabaseClient
+      .from('chat_sessions')
+      .update({
+        deleted_at: null,
+        deleted_by: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error restoring chat session:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to restore chat session'
+      });
+    }
+
+    res.json({
+      success: true,
+      session
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in restore chat session endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// GET /chat-sessions/trash - The user's deleted sessions with the date each will be purged
+router.get('/trash', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+
+    const { data: sessions, error } = await supabaseClient
+      .from('chat_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching deleted chat sessions:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch deleted chat sessions'
+      });
+    }
+
+    // Each organization can keep the trash for a different period
+    const policies = new Map<string | null, RetentionPolicy>();
+    for (const organizationId of new Set((sessions || []).map((session: any) => session.organization_id ?? null))) {
+      policies.set(organizationId, await getRetentionPolicy(organizationId));
+    }
+
+    res.json({
+      success: true,
+      sessions: (sessions || []).map((session: any) => ({
+        ...session,
+        purge_at: getPurgeDate(session.deleted_at, policies.get(session.organization_id ?? null)!)
+      }))
+    });
+
+  } catch (error: any) {
+    console.error('Error in chat session trash endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/:sessionId/messages/:messageId/feedback - Rate an assistant message
+router.post('/sessions/:sessionId/messages/:messageId/feedback', validateBody(validateMessageFeedbackRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionId, messageId } = req.params;
+    const { rating, reason, comment } = req.body;
+
+    // Feedback is attributed to the organization the user is acting as
+    const { organizationContext } = await resolveOrganizationContext(user);
+
+    const feedback = await saveMessageFeedback(supabaseClient, {
+      sessionId,
+      messageId,
+      user,
+      organizationId: organizationContext.activeOrganizationId || null,
+      rating,
+      reason,
+      comment
+    });
+
+    res.json({
+      success: true,
+      feedback
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in message feedback endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// DELETE /chat-sessions/:sessionId/messages/:messageId/feedback - Remove the user's rating
+router.delete('/sessions/:sessionId/messages/:messageId/feedback', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionId, messageId } = req.params;
+
+    await deleteMessageFeedback(supabaseClient, { sessionId, messageId, user });
+
+    res.json({
+      success: true,
+      message: 'Message feedback deleted successfully'
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in delete message feedback endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/:sessionId/messages/:messageId/regenerate - Store a new answer as an alternative
+// Regenerating calls the chat provider, so it counts against the same client limits as /api/chat
+router.post('/sessions/:sessionId/messages/:messageId/regenerate', optionalSupabaseAuth as any, enforceClientLimits as any, validateBody(validateRegenerateRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { sessionId, messageId } = req.params;
+    const { organizationContext } = await resolveOrganizationContext(auth.user);
+
+    const { message, data } = await regenerateAssistantMessage(auth, {
+      sessionId,
+      messageId,
+      organizationId: organizationContext.activeOrganizationId || null,
+      params: req.body
+    });
+
+    res.json({
+      success: true,
+      message,
+      response: data
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in regenerate message endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/:sessionId/messages/:messageId/fork - Continue the conversation in a new session
+router.post('/sessions/:sessionId/messages/:messageId/fork', validateBody(validateForkSessionRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { sessionId, messageId } = req.params;
+    const { session, messages } = await forkSession(auth, { sessionId, messageId, title: req.body.title });
+
+    res.json({
+      success: true,
+      session,
+      messages
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in fork session endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// GET /chat-sessions/:sessionId/shares - List who a session is shared with
+router.get('/sessions/:sessionId/shares', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionId } = req.params;
+
+    await requireSessionAccess(supabaseClient, sessionId, user, 'owner');
+
+    const { data: shares, error } = await supabaseClient
+      .from('chat_session_shares')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching chat session shares:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch chat session shares'
+      });
+    }
+
+    res.json({
+      success: true,
+      shares: shares || []
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in chat session shares endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/:sessionId/shares - Share with a user or the owner's active organization
+router.post('/sessions/:sessionId/shares', validateBody(validateShareSessionRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionId } = req.params;
+    const { role, userId, organization } = req.body;
+
+    await requireSessionAccess(supabaseClient, sessionId, user, 'owner');
+
+    const share = await shareSession(supabaseClient, {
+      sessionId,
+      sharedBy: user,
+      role,
+      userId,
+      organization
+    });
+
+    res.json({
+      success: true,
+      share
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in share chat session endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// DELETE /chat-sessions/:sessionId/shares/:shareId - Stop sharing
+router.delete('/sessions/:sessionId/shares/:shareId', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionId, shareId } = req.params;
+
+    await requireSessionAccess(supabaseClient, sessionId, user, 'owner');
+
+    const { data: revoked, error } = await supabaseClient
+      .from('chat_session_shares')
+      .delete()
+      .eq('id', shareId)
+      .eq('session_id', sessionId)
+      .select('shared_with_user_id, organization_id');
+
+    if (error) {
+      console.error('Error deleting chat session share:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete chat session share'
+      });
+    }
+
+    // Former recipients drop the session on their next sync
+    await recordSessionRemovals(supabaseClient, (revoked || []).map((share: any) => ({
+      session_id: sessionId,
+      user_id: share.shared_with_user_id,
+      organization_id: share.organization_id
+    })));
+
+    res.json({
+      success: true,
+      message: 'Chat session share deleted successfully'
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in delete chat session share endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// GET /chat-sessions/folders - List the user's folders
+router.get('/folders', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const folders = await listFolders(supabaseClient, user.id);
+
+    res.json({
+      success: true,
+      folders
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in list folders endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/folders - Create a folder
+router.post('/folders', validateBody(validateFolderRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const folder = await createFolder(supabaseClient, user.id, { name: req.body.name });
+
+    res.json({
+      success: true,
+      folder
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in create folder endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// PUT /chat-sessions/folders/:folderId - Rename a folder
+router.put('/folders/:folderId', validateBody(validateFolderRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const folder = await updateFolder(supabaseClient, user.id, req.params.folderId, { name: req.body.name });
+
+    res.json({
+      success: true,
+      folder
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in update folder endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// DELETE /chat-sessions/folders/:folderId - Delete a folder; its sessions are kept without a folder
+router.delete('/folders/:folderId', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    await deleteFolder(supabaseClient, user.id, req.params.folderId);
+
+    res.json({
+      success: true,
+      message: 'Folder deleted successfully'
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in delete folder endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// GET /chat-sessions/tags - List the user's tags
+router.get('/tags', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const tags = await listTags(supabaseClient, user.id);
+
+    res.json({
+      success: true,
+      tags
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in list tags endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/tags - Create a tag
+router.post('/tags', validateBody(validateTagRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { name, color } = req.body;
+    const tag = await createTag(supabaseClient, user.id, { name, color });
+
+    res.json({
+      success: true,
+      tag
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in create tag endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// PUT /chat-sessions/tags/:tagId - Rename or recolor a tag
+router.put('/tags/:tagId', validateBody(validateTagRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { name, color } = req.body;
+    const tag = await updateTag(supabaseClient, user.id, req.params.tagId, { name, color });
+
+    res.json({
+      success: true,
+      tag
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in update tag endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// DELETE /chat-sessions/tags/:tagId - Delete a tag and remove it from every session
+router.delete('/tags/:tagId', async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    await deleteTag(supabaseClient, user.id, req.params.tagId);
+
+    res.json({
+      success: true,
+      message: 'Tag deleted successfully'
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in delete tag endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/sessions/bulk/move - Move sessions into a folder (folderId null removes them from it)
+router.post('/sessions/bulk/move', validateBody(validateBulkMoveRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionIds, folderId } = req.body;
+
+    const updated = await moveSessionsToFolder(supabaseClient, user.id, sessionIds, folderId);
+
+    res.json({
+      success: true,
+      updatedSessionIds: updated
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in bulk move chat sessions endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// POST /chat-sessions/sessions/bulk/tags - Add and remove tags on several sessions
+router.post('/sessions/bulk/tags', validateBody(validateBulkTagRequest), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { sessionIds, add, remove } = req.body;
+
+    const updated = await tagSessions(supabaseClient, user.id, sessionIds, { add, remove });
+
+    res.json({
+      success: true,
+      updatedSessionIds: updated
+    });
+
+  } catch (error: any) {
+    if (sendKnownError(res, error)) return;
+    console.error('Error in bulk tag chat sessions endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
+// GET /chat-sessions/feedback/summary - Organization-wide feedback per provider and bucket
+router.get('/feedback/summary', validateQuery(validateFeedbackSummaryQuery), async (req: any, res: any) => {
+  try {
+    const auth = await verifyUser(req);
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    const { user, supabaseClient } = auth;
+    const { organizationId: requestedOrganizationId, from, to, provider, bucketId } = req.query;
+
+    const { organizationContext } = await resolveOrganizationContext(user);
+    const organizationId = requestedOrganizationId || organizationContext.activeOrganizationId;
+
+    if (!organizationId) {
+      return res.status(403).json({
+        success: false,
+        error: 'No organization associated with this user'
+      });
+    }
+
+    // QIG admins may look at any organization; other users only at their own
+    if (!organizationContext.canAccessOrganization(organizationId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied to this organization'
+      });
+    }
+
+    const summary = await getFeedbackSummary(supabaseClient, organizationId, { from, to, provider, bucketId });
+
+    res.json({
+      success: true,
+      summary
+    });
+
+  } catch (error: any) {
+    console.error('Error in feedback summary endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Unknown error'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
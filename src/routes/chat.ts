@@ -1,215 +1,183 @@
 import { Router } from 'express';
-import { createAzureAuthService, AzureAuthService } from '../services/azureAuth';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { optionalSupabaseAuth } from '../middleware/supabaseAuth';
+import { enforceClientLimits } from '../middleware/rateLimit';
+import { resolveChatBackend } from '../services/chatBackend';
+import { getChatStreamBuffer, parseLastEventId, formatSSEEvent } from '../services/chatStreamBuffer';
+import { runContractAnalysis } from '../services/contractAnalysis';
+import { ChatProviderError } from '../services/chatProviders';
+import { addFollowUpQuestions } from '../services/followUpQuestions';
+import { addCitations } from '../services/citations';
+import { withResponseCache, setCacheHeader } from '../services/responseCache';
+import { withAnswerUsage, recordLlmUsage } from '../services/llmUsage';
+import {
+  ChatAuth,
+  ChatTurnError,
+  verifyAccessToken,
+  saveChatMessage,
+  generateTitleForSession,
+  buildAssistantMessageData,
+  prepareChatTurn,
+  streamChatTurn
+} from '../services/chatTurn';
+import { validateBody } from '../middleware/validateRequest';
+import { validateChatRequest } from '../utils/requestValidation';
+import { ResponseData } from '../types/chat';
 
 const router = Router();
 
-// Chat routes use Azure authentication only (not Supabase)
-// Supabase auth is used for multitenant frontend organization access
-// Azure auth is specifically for chat API access
+// Chat API access uses Azure authentication against the organization's backend
+// Supabase auth is optional and only resolves the caller's organization and session ownership.
+// It is attached per route: this router is mounted at /api ahead of the other API routers.
 
-// Lazy-initialize Azure auth service
-let azureAuth: AzureAuthService | null = null;
-let supabase: SupabaseClient | null = null;
+// Helper function to verify authentication and get user
+async function verifyUser(req: any): Promise<ChatAuth | null> {
+  const authHeader = req.headers.authorization;
 
-function getAzureAuthService(): AzureAuthService {
-  if (!azureAuth) {
-    azureAuth = createAzureAuthService();
-    const configCheck = azureAuth.validateConfig();
-    if (!configCheck.valid) {
-      throw new Error(`Azure configuration error: ${configCheck.error}`);
-    }
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
   }
-  return azureAuth;
-}
 
-function getSupabaseClient(): SupabaseClient {
-  if (!supabase) {
-    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_ANON_KEY) {
-      throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY environment variables are required');
-    }
-    
-    supabase = createClient(
-      process.env.SUPABASE_URL,
-      process.env.SUPABASE_ANON_KEY
-    );
-  }
-  return supabase;
+  return verifyAccessToken(authHeader.substring(7));
 }
 
-// Helper function to verify authentication and get user
-async function verifyUser(req: any): Promise<{ user: any; supabaseClient: SupabaseClient } | null> {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
-
-    const token = authHeader.substring(7);
-    const supabaseClient = getSupabaseClient();
-    const { data: { user }, error } = await supabaseClient.auth.getUser(token);
-
-    if (error || !user) {
-      return null;
-    }
-
-    return { user, supabaseClient };
-  } catch (error) {
-    return null;
+// Tell the client when an unavailable backend is worth retrying
+function setRetryAfter(res: any, retryAfterMs?: number) {
+  if (retryAfterMs) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
   }
 }
 
-// Helper function to save chat message to session
-async function saveChatMessage(
-  supabaseClient: SupabaseClient,
-  sessionId: string,
-  userId: string,
-  role: string,
-  content: string,
-  additionalData?: any
-) {
-  try {
-    // Verify the session belongs to the user
-    const { data: session, error: sessionError } = await supabaseClient
-      .from('chat_sessions')
-      .select('id')
-      .eq('id', sessionId)
-      .eq('user_id', userId)
-      .single();
-
-    if (sessionError || !session) {
-      throw new Error('Chat session not found or access denied');
-    }
-
-    // Save the message
-    const messageData: any = {
-      session_id: sessionId,
-      role,
-      content
-    };
-
-    // Add additional data fields if provided
-    if (additionalData) {
-      Object.assign(messageData, additionalData);
+// Errors caused by the request itself, answered with their own status instead of a 500
+function sendChatError(res: any, error: unknown): boolean {
+  if (error instanceof ChatProviderError || error instanceof ChatTurnError) {
+    if (error instanceof ChatProviderError) {
+      setRetryAfter(res, error.retryAfterMs);
     }
-
-    const { data: message, error } = await supabaseClient
-      .from('chat_messages')
-      .insert([messageData])
-      .select()
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to save chat message: ${error.message}`);
-    }
-
-    // Update session's updated_at timestamp
-    await supabaseClient
-      .from('chat_sessions')
-      .update({ updated_at: new Date().toISOString() })
-      .eq('id', sessionId);
-
-    return message;
-  } catch (error) {
-    console.error('Error saving chat message:', error);
-    throw error;
+    res.status(error.status).json({
+      error: error.message,
+      message: error.details
+    });
+    return true;
   }
+  return false;
 }
 
 // Regular chat endpoint
-router.post('/chat', async (req: any, res: any) => {
+router.post('/chat', optionalSupabaseAuth as any, enforceClientLimits as any, validateBody(validateChatRequest), async (req: any, res: any) => {
   try {
-    const { sessionId, messages, ...otherParams } = req.body;
-    
-    // Verify user authentication if sessionId is provided
-    if (sessionId) {
-      const auth = await verifyUser(req);
-      if (!auth) {
-        return res.status(401).json({
-          error: 'Authentication required for session storage'
+    const organizationId = req.organizationContext?.activeOrganizationId || null;
+    const auth = req.body.sessionId ? await verifyUser(req) : null;
+    const { provider, sessionId, conversation, params: otherParams, userId } = await prepareChatTurn(req.body, {
+      organizationId,
+      auth,
+      userId: req.user?.id
+    });
+
+    let data: ResponseData;
+    const startedAt = Date.now();
+
+    if (otherParams.contractAnalysis === true) {
+      // Resolve the organization's backend and get its Azure token
+      const backend = await resolveChatBackend(organizationId);
+      const token = await backend.authService.getAccessToken();
+
+      // Contract analysis mode: dedicated pipeline returning a validated ContractAnalysis
+      const { contractAnalysis, contractName, analysisPrompt, ...analysisParams } = otherParams;
+      const analysisResult = await runContractAnalysis({
+        backend,
+        token,
+        messages: conversation,
+        contractName,
+        analysisPrompt,
+        params: analysisParams
+      });
+
+      if (!analysisResult.success) {
+        setRetryAfter(res, analysisResult.retryAfterMs);
+        return res.status(analysisResult.status).json({
+          error: analysisResult.error,
+          details: analysisResult.details
         });
       }
 
-      const { user, supabaseClient } = auth;
-      
-      // Save user message if it's the latest message and from user
-      const latestMessage = messages[messages.length - 1];
-      if (latestMessage && latestMessage.role === 'user') {
-        try {
-          await saveChatMessage(
-            supabaseClient,
-            sessionId,
-            user.id,
-            'user',
-            latestMessage.content
+      data = withAnswerUsage(analysisResult.data, { providerName: provider.name, conversation, startedAt });
+
+      // Provide suggested prompts even when the provider doesn't
+      if (otherParams.suggestFollowUpQuestions === true) {
+        data = await addFollowUpQuestions(data, conversation);
+      }
+    } else {
+      // Identical requests within an organization can be answered from the response cache
+      const { value, cacheStatus } = await withResponseCache(
+        {
+          endpoint: 'chat',
+          organizationId,
+          params: { provider: provider.name, messages: conversation, ...otherParams },
+          cacheControl: req.headers['cache-control']
+        },
+        async () => {
+          const answer = withAnswerUsage(
+            await provider.chat({ messages: conversation, params: otherParams }, { organizationId, sessionId }),
+            { providerName: provider.name, conversation, startedAt }
           );
-        } catch (error) {
-          console.error('Error saving user message:', error);
-          // Continue with the request even if saving fails
+          // Follow-up questions are cached with the answer so a hit doesn't generate them again
+          return otherParams.suggestFollowUpQuestions === true
+            ? addFollowUpQuestions(answer, conversation)
+            : answer;
         }
-      }
+      );
+      // A cached answer didn't call the model, so its stored usage isn't counted again
+      data = cacheStatus === 'HIT' ? { ...value, usage: undefined } : value;
+      setCacheHeader(res, cacheStatus);
     }
 
-    // Get Azure token
-    const authService = getAzureAuthService();
-    const token = await authService.getAccessToken();
-    
-    // Forward to Azure backend
-    const backendUrl = process.env.BACKEND_API_URL || 'https://capps-backend-vakcnm7wmon74.salmonbush-fc2963f0.eastus.azurecontainerapps.io';
-    const targetUrl = `${backendUrl}/chat`;
+    // Link citation markers in the final answer to the supporting content
+    data = addCitations(data);
     
-    const response = await fetch(targetUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        'User-Agent': 'Express-Backend/1.0'
-      },
-      body: JSON.stringify({ messages, ...otherParams })
-    });
-
-    if (!response.ok) {
-      return res.status(response.status).json({
-        error: `Backend API error: ${response.status}`,
-        message: response.statusText
-      });
-    }
+    const usage = [...(data.usage || [])];
+    let messageId: string | null = null;
 
-    const data = await response.json() as any;
-    
     // Save assistant response if sessionId is provided
     if (sessionId && data.message?.content) {
-      const auth = await verifyUser(req);
       if (auth) {
         const { user, supabaseClient } = auth;
         try {
-          await saveChatMessage(
+          const message = await saveChatMessage(
             supabaseClient,
             sessionId,
-            user.id,
+            user,
             'assistant',
             data.message.content,
-            {
-              search_results: data.context?.search_results,
-              thoughts: data.context?.thoughts,
-              supporting_content: data.context?.supporting_content,
-              enhanced_results: data.context?.enhanced_results,
-              document_excerpts: data.context?.document_excerpts,
-              result: data.context?.result,
-              raw_response: data
-            }
+            buildAssistantMessageData(data, provider.name, otherParams)
+          );
+          messageId = message?.id ?? null;
+
+          // Title untitled sessions from their first exchange
+          const sessionTitle = await generateTitleForSession(
+            auth,
+            sessionId,
+            conversation,
+            data.message.content,
+            titleUsage => usage.push(titleUsage)
           );
+          if (sessionTitle) {
+            data = { ...data, sessionTitle };
+          }
         } catch (error) {
           console.error('Error saving assistant message:', error);
           // Continue with the response even if saving fails
         }
       }
     }
-    
+
+    void recordLlmUsage(usage, { organizationId, userId, sessionId, messageId, provider: provider.name });
     res.json(data);
 
   } catch (error) {
+    if (sendChatError(res, error)) {
+      return;
+    }
+
     console.error('Chat endpoint error:', error);
     res.status(500).json({
       error: 'Internal server error',
@@ -218,157 +186,164 @@ router.post('/chat', async (req: any, res: any) => {
   }
 });
 
+// SSE response headers shared by new and resumed streams
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Cache-Control, Last-Event-ID',
+  'X-Accel-Buffering': 'no'
+};
+
+// Attach a response to a buffered stream, replaying everything after afterSeq
+function attachToStream(res: any, streamId: string, afterSeq: number): boolean {
+  const unsubscribe = getChatStreamBuffer().subscribe(streamId, afterSeq, {
+    onEvent: (event) => res.write(formatSSEEvent(event)),
+    onEnd: () => res.end()
+  });
+
+  if (!unsubscribe) {
+    return false;
+  }
+
+  res.on('close', unsubscribe);
+  return true;
+}
+
+// Resume a dropped stream from the client's Last-Event-ID without re-invoking the backend
+async function resumeChatStream(req: any, res: any, lastEventId: string) {
+  const parsed = parseLastEventId(lastEventId);
+  const stream = parsed ? getChatStreamBuffer().get(parsed.streamId) : null;
+
+  if (!parsed || !stream) {
+    return res.status(404).json({
+      error: 'Stream not found or expired',
+      message: 'Send the request again without Last-Event-ID to start a new stream'
+    });
+  }
+
+  if (stream.userId) {
+    const auth = await verifyUser(req);
+    if (!auth || auth.user.id !== stream.userId) {
+      return res.status(403).json({
+        error: 'Access denied to this stream'
+      });
+    }
+  }
+
+  // Events after the client's last one were dropped from the buffer; replaying the rest would leave a gap
+  if (!getChatStreamBuffer().canResume(parsed.streamId, parsed.seq)) {
+    return res.status(409).json({
+      error: 'Stream buffer truncated',
+      message: 'Events after the Last-Event-ID are no longer buffered; send the request again without Last-Event-ID to restart the stream'
+    });
+  }
+
+  console.log(`Resuming chat stream ${parsed.streamId} after event ${parsed.seq}`);
+  res.writeHead(200, SSE_HEADERS);
+  attachToStream(res, parsed.streamId, parsed.seq);
+}
+
+// Resumption requests only carry Last-Event-ID, so they are handled before body validation
+function resumeIfRequested(req: any, res: any, next: any) {
+  const lastEventId = req.headers['last-event-id'];
+  if (lastEventId) {
+    return resumeChatStream(req, res, lastEventId);
+  }
+  next();
+}
+
 // Streaming chat endpoint
-router.post('/chat-stream', async (req: any, res: any) => {
+router.post('/chat-stream', resumeIfRequested, optionalSupabaseAuth as any, enforceClientLimits as any, validateBody(validateChatRequest), async (req: any, res: any) => {
   console.log('Chat stream API request received');
+
+  const streamBuffer = getChatStreamBuffer();
+  const abortController = new AbortController();
+  let streamId: string | null = null;
   
   try {
-    const { sessionId, messages, ...otherParams } = req.body;
-    let authData: { user: any; supabaseClient: SupabaseClient } | null = null;
-    
-    // Verify user authentication if sessionId is provided
-    if (sessionId) {
-      authData = await verifyUser(req);
-      if (!authData) {
-        return res.status(401).json({
-          error: 'Authentication required for session storage'
-        });
-      }
-
-      const { user, supabaseClient } = authData;
-      
-      // Save user message if it's the latest message and from user
-      const latestMessage = messages[messages.length - 1];
-      if (latestMessage && latestMessage.role === 'user') {
-        try {
-          await saveChatMessage(
-            supabaseClient,
-            sessionId,
-            user.id,
-            'user',
-            latestMessage.content
-          );
-        } catch (error) {
-          console.error('Error saving user message:', error);
-          // Continue with the request even if saving fails
-        }
-      }
-    }
+    const organizationId = req.organizationContext?.activeOrganizationId || null;
+    const auth = req.body.sessionId ? await verifyUser(req) : null;
+    const turn = await prepareChatTurn(req.body, { organizationId, auth, userId: req.user?.id });
     
     // Set up SSE headers immediately
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache, no-transform',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control',
-      'X-Accel-Buffering': 'no'
+    res.writeHead(200, SSE_HEADERS);
+
+    // Buffer the relayed events so a dropped client can resume with Last-Event-ID;
+    // the upstream request is aborted when the stream is stopped or abandoned
+    const bufferedStreamId = streamBuffer.create(req.user?.id || null, () => abortController.abort());
+    streamId = bufferedStreamId;
+    attachToStream(res, bufferedStreamId, 0);
+
+    const { interrupted } = await streamChatTurn(turn, {
+      signal: abortController.signal,
+      emit: (data, event) => streamBuffer.append(bufferedStreamId, data, event)
     });
 
-    // Get Azure token
-    const authService = getAzureAuthService();
-    const token = await authService.getAccessToken();
-    
-    const includeThoughtProcess = otherParams.include_thought_process === true;
+    if (interrupted) {
+      console.log(`Chat stream ${bufferedStreamId} cancelled by client`);
+    }
+
+    streamBuffer.complete(bufferedStreamId);
     
-    // Forward to Azure backend
-    const backendUrl = process.env.BACKEND_API_URL || 'https://capps-backend-vakcnm7wmon74.salmonbush-fc2963f0.eastus.azurecontainerapps.io';
-    const targetUrl = `${backendUrl}/chat/stream`;
-    console.log(`Forwarding request to: ${targetUrl}`);
-
-    const response = await fetch(targetUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        'User-Agent': 'Express-MSAL-Chat-Stream',
-        'Accept': 'text/event-stream',
-        'X-Include-Thought-Process': includeThoughtProcess ? 'true' : 'false'
-      },
-      body: JSON.stringify({ messages, ...otherParams })
-    });
+  } catch (error) {
+    if (!res.headersSent && sendChatError(res, error)) {
+      return;
+    }
 
-    if (!response.ok) {
-      throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
+    console.error('Chat stream error:', error);
+    if (streamId) {
+      streamBuffer.append(streamId, JSON.stringify({
+        error: 'Stream failed',
+        ...(error instanceof ChatProviderError && {
+          message: error.message,
+          status: error.status,
+          ...(error.retryAfterMs && { retryAfterMs: error.retryAfterMs })
+        })
+      }));
+      streamBuffer.complete(streamId);
+    } else {
+      res.write(`data: ${JSON.stringify({ error: 'Stream failed' })}\n\n`);
+      res.end();
     }
+  }
+});
 
-    // Collect the full response for saving
-    let fullResponse = '';
-    let responseData: any = null;
-
-    // Stream the response back to client
-    if (response.body) {
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          
-          if (done) break;
-          
-          const chunk = decoder.decode(value);
-          res.write(chunk);
-          
-          // Collect response data for saving
-          if (sessionId && authData) {
-            // Parse SSE chunks to extract the final response
-            const lines = chunk.split('\n');
-            for (const line of lines) {
-              if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-                try {
-                  const jsonStr = line.substring(6);
-                  const parsed = JSON.parse(jsonStr);
-                  if (parsed.choices?.[0]?.delta?.content) {
-                    fullResponse += parsed.choices[0].delta.content;
-                  }
-                  // Capture final response data
-                  if (parsed.context) {
-                    responseData = parsed;
-                  }
-                } catch (e) {
-                  // Ignore parsing errors for chunks
-                }
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
-      }
+// Stop an in-flight stream, aborting the backend request and saving the partial answer
+router.post('/chat-stream/:streamId/cancel', async (req: any, res: any) => {
+  try {
+    const { streamId } = req.params;
+    const stream = getChatStreamBuffer().get(streamId);
+
+    if (!stream) {
+      return res.status(404).json({
+        error: 'Stream not found or expired'
+      });
     }
 
-    // Save assistant response if we have sessionId and collected response
-    if (sessionId && authData && fullResponse) {
-      const { user, supabaseClient } = authData;
-      try {
-        await saveChatMessage(
-          supabaseClient,
-          sessionId,
-          user.id,
-          'assistant',
-          fullResponse,
-          {
-            search_results: responseData?.context?.search_results,
-            thoughts: responseData?.context?.thoughts,
-            supporting_content: responseData?.context?.supporting_content,
-            enhanced_results: responseData?.context?.enhanced_results,
-            document_excerpts: responseData?.context?.document_excerpts,
-            result: responseData?.context?.result,
-            raw_response: responseData
-          }
-        );
-      } catch (error) {
-        console.error('Error saving streamed assistant message:', error);
+    if (stream.userId) {
+      const auth = await verifyUser(req);
+      if (!auth || auth.user.id !== stream.userId) {
+        return res.status(403).json({
+          error: 'Access denied to this stream'
+        });
       }
     }
 
-    res.end();
-    
+    const cancelled = getChatStreamBuffer().cancel(streamId);
+
+    res.json({
+      success: true,
+      cancelled
+    });
+
   } catch (error) {
-    console.error('Chat stream error:', error);
-    res.write(`data: ${JSON.stringify({ error: 'Stream failed' })}\n\n`);
-    res.end();
+    console.error('Chat stream cancel error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: (error as Error).message
+    });
   }
 });
 
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { authenticateSupabaseUser, handleOrganizationOverride, optionalSupabaseAuth } from '../middleware/supabaseAuth';
+import { enforceClientLimits } from '../middleware/rateLimit';
+import { getDatabaseManagerUrl, sendDatabaseManagerChat } from '../services/databaseManager';
 
 const router = Router();
 
@@ -7,18 +9,13 @@ const router = Router();
 // Using optional Supabase auth for user tracking when available
 router.use(optionalSupabaseAuth as any);
 router.use(handleOrganizationOverride);
-
-// Database Manager configuration
-const DATABASE_MANAGER_BASE_URL = process.env.DATABASE_MANAGER_BASE_URL || 'https://databasemanager2.azurewebsites.net';
-const DATABASE_MANAGER_API_KEY = process.env.DATABASE_MANAGER_API_KEY; // May be required
+router.use(enforceClientLimits as any);
 
 // Database Manager health check endpoint
 router.get('/health', async (req: any, res: any) => {
   try {
     // Use query parameter authentication with the new API key format
-    const url = DATABASE_MANAGER_API_KEY 
-      ? `${DATABASE_MANAGER_BASE_URL}/api/health?code=${DATABASE_MANAGER_API_KEY}`
-      : `${DATABASE_MANAGER_BASE_URL}/api/health`;
+    const url = getDatabaseManagerUrl('/api/health');
 
     const response = await fetch(url, {
       method: 'GET',
@@ -66,25 +63,7 @@ router.post('/chat', async (req: any, res: any) => {
       });
     }
 
-    const chatPayload = {
-      message: input,
-      ...(session_id && { session_id }),
-      ...(context && { context })
-    };
-
-    // Use query parameter authentication with the new API key format
-    const url = DATABASE_MANAGER_API_KEY 
-      ? `${DATABASE_MANAGER_BASE_URL}/api/chat?code=${DATABASE_MANAGER_API_KEY}`
-      : `${DATABASE_MANAGER_BASE_URL}/api/chat`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(chatPayload)
-    });
+    const response = await sendDatabaseManagerChat({ message: input, session_id, context });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -134,25 +113,7 @@ router.post('/query', async (req: any, res: any) => {
       });
     }
 
-    const queryPayload = {
-      message: input,
-      ...(session_id && { session_id }),
-      ...(context && { context })
-    };
-
-    // Use query parameter authentication with the new API key format
-    const url = DATABASE_MANAGER_API_KEY 
-      ? `${DATABASE_MANAGER_BASE_URL}/api/chat?code=${DATABASE_MANAGER_API_KEY}`
-      : `${DATABASE_MANAGER_BASE_URL}/api/chat`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(queryPayload)
-    });
+    const response = await sendDatabaseManagerChat({ message: input, session_id, context });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -195,9 +156,7 @@ router.get('/test', async (req: any, res: any) => {
     };
 
     // Use query parameter authentication with the new API key format
-    const url = DATABASE_MANAGER_API_KEY 
-      ? `${DATABASE_MANAGER_BASE_URL}/api/chat?code=${DATABASE_MANAGER_API_KEY}`
-      : `${DATABASE_MANAGER_BASE_URL}/api/chat`;
+    const url = getDatabaseManagerUrl('/api/chat');
 
     const response = await fetch(url, {
       method: 'POST',
@@ -1,129 +1,17 @@
 import { Router } from 'express';
-import { GroundXClient } from "groundx";
-import OpenAI from "openai";
 import { authenticateSupabaseUser, handleOrganizationOverride } from '../middleware/supabaseAuth';
+import { enforceClientLimits } from '../middleware/rateLimit';
+import { validateBody } from '../middleware/validateRequest';
+import { validateGroundXRagRequest } from '../utils/requestValidation';
+import { withResponseCache, setCacheHeader } from '../services/responseCache';
+import { getGroundXClient, extractBestScore, runGroundXRag } from '../services/groundxRag';
+import { recordLlmUsage } from '../services/llmUsage';
 
 const router = Router();
 
 router.use(authenticateSupabaseUser as any);
 router.use(handleOrganizationOverride);
-
-// Lazy-initialize GroundX client
-let groundxClient: GroundXClient | null = null;
-
-function getGroundXClient(): GroundXClient {
-  if (!groundxClient) {
-    if (!process.env.GROUNDX_API_KEY) {
-      throw new Error('GROUNDX_API_KEY environment variable is required');
-    }
-    console.log('Initializing GroundX client with API key:', process.env.GROUNDX_API_KEY ? 'present' : 'missing');
-    groundxClient = new GroundXClient({
-      apiKey: process.env.GROUNDX_API_KEY,
-    });
-  }
-  return groundxClient;
-}
-
-// Lazy-initialize OpenAI client
-let openai: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openai) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openai;
-}
-
-// Types
-interface SearchResultItem {
-  documentId?: string;
-  fileName?: string;
-  score?: number;
-  relevanceScore?: number;
-  rankingScore?: number;
-  text?: string;
-  metadata?: Record<string, any>;
-  highlight?: {
-    text?: string[];
-  };
-  searchData?: Record<string, any>;
-  sourceUrl?: string;
-  suggestedText?: string;
-}
-
-interface RagResponse {
-  success: boolean;
-  timestamp: string;
-  query?: string;
-  response: string;
-  thoughts?: string;
-  searchResults: {
-    count: number;
-    sources: Array<{
-      id?: string;
-      fileName?: string;
-      text?: string;
-      metadata?: Record<string, any>;
-      sourceUrl?: string;
-      score?: number;
-      rawScore?: number;
-      scoreSource?: string;
-      highlights?: string[];
-      hasXray?: boolean;
-      pageImages?: string[];
-      narrative?: string[];
-      searchData?: {
-        date_uploaded?: string;
-        document_type?: string;
-        key?: string;
-        [key: string]: any;
-      };
-      boundingBoxes?: Array<{
-        bottomRightX: number;
-        bottomRightY: number;
-        pageNumber: number;
-        topLeftX: number;
-        topLeftY: number;
-        corrected: boolean;
-      }>;
-      json?: any[];
-      fileKeywords?: string;
-      bucketId?: number;
-      multimodalUrl?: string;
-    }>;
-  };
-  executionTime?: {
-    totalMs: number;
-    searchMs: number;
-    llmMs: number;
-  };
-  error?: string;
-}
-
-// Utility functions
-function extractBestScore(result: SearchResultItem): { score: number, source: string } {
-  const scoreFields = {
-    primaryScore: result.score,
-    relevanceScore: result.relevanceScore,
-    rankingScore: result.rankingScore,
-    metadataScore: result.metadata?.score,
-    searchDataScore: result.searchData?.score
-  };
-
-  // Try to find the best score
-  for (const [source, score] of Object.entries(scoreFields)) {
-    if (typeof score === 'number' && !isNaN(score)) {
-      return { score, source };
-    }
-  }
-
-  return { score: 0, source: 'default' };
-}
+router.use(enforceClientLimits as any);
 
 // GET /groundx/buckets
 router.get('/buckets', async (req: any, res: any) => {
@@ -205,9 +93,8 @@ router.get('/buckets', async (req: any, res: any) => {
 });
 
 // POST /groundx/rag
-router.post('/rag', async (req: any, res: any) => {
+router.post('/rag', validateBody(validateGroundXRagRequest), async (req: any, res: any) => {
   try {
-    const startTime = Date.now();
     console.log('Processing Ground-X RAG request...');
     console.log('Auth header:', req.headers.authorization ? 'Present' : 'Missing');
     console.log('User object:', {
@@ -229,14 +116,6 @@ router.post('/rag', async (req: any, res: any) => {
       ...req.headers,
       authorization: req.headers.authorization ? 'Bearer [redacted]' : undefined
     });
-    
-    if (!req.body) {
-      return res.status(400).json({
-        success: false,
-        error: 'Request body is missing or empty',
-        timestamp: new Date().toISOString()
-      });
-    }
 
     const { 
       query, 
@@ -257,147 +136,22 @@ router.post('/rag', async (req: any, res: any) => {
       conversationContext 
     });
 
-    if (!query || !bucketId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Query and bucketId are required',
-        received: { query, bucketId },
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    // Step 1: Search GroundX using the current query
-    const searchStartTime = Date.now();
-    console.log(`Searching bucket ${bucketId} for: "${query}"`);
-
-    const client = getGroundXClient();
-    const searchResponse = await client.search.content(parseInt(bucketId), {
-      query: query,
-      n: limit
+    const ragResponse = await runGroundXRag({
+      query,
+      bucketId,
+      messages,
+      limit,
+      includeThoughts,
+      temperature,
+      conversationContext
     });
 
-    const searchEndTime = Date.now();
-    const searchMs = searchEndTime - searchStartTime;
-
-    console.log('GroundX search response structure:', JSON.stringify(searchResponse, null, 2));
-
-    if (!searchResponse?.search?.results) {
-      console.log('No search results found. Response:', searchResponse);
-      throw new Error('No search results from GroundX');
-    }
-
-    // Process search results  
-    console.log('Processing search results...');
-    const results = searchResponse.search?.results || (searchResponse as any).results || [];
-    console.log(`Found ${results.length} results to process`);
-    
-    const sources = results.map((result: any) => {
-      const scoreData = extractBestScore(result);
-      
-      return {
-        id: result.documentId,
-        fileName: result.fileName,
-        text: result.text || result.suggestedText,
-        metadata: result.metadata,
-        sourceUrl: result.sourceUrl,
-        score: scoreData.score,
-        rawScore: scoreData.score,
-        scoreSource: scoreData.source,
-        highlights: result.highlight?.text || [],
-        hasXray: true,
-        pageImages: result.pageImages,
-        narrative: result.narrative,
-        searchData: result.searchData,
-        boundingBoxes: result.boundingBoxes,
-        json: result.json,
-        fileKeywords: result.fileKeywords,
-        bucketId: result.bucketId,
-        multimodalUrl: result.multimodalUrl
-      };
-    });
-
-    // Step 2: Generate AI response with conversation context
-    const llmStartTime = Date.now();
-    
-    // Prepare context from search results
-    const context = sources
-      .map((source: any, index: number) => `[${index + 1}] ${source.fileName}: ${source.text}`)
-      .join('\n\n');
-
-    // Build messages for OpenAI including conversation history
-    const systemPrompt = `You are an AI assistant that answers questions based on the provided document context.
-Use the numbered references [1], [2], etc. to cite specific documents when making claims.
-Be precise and factual. If the context doesn't contain enough information to answer the question, say so.
-
-Context:
-${context}`;
-
-    // Create the messages array for OpenAI
-    const openaiMessages: Array<{role: 'system' | 'user' | 'assistant', content: string}> = [
-      { role: 'system', content: systemPrompt }
-    ];
-
-    // If we have conversation context, add previous messages
-    if (conversationContext && messages.length > 1) {
-      console.log('📝 Adding conversation context...');
-      
-      // Add previous messages (excluding the last one since it's the current query)
-      const previousMessages = messages.slice(0, -1);
-      for (const msg of previousMessages) {
-        if (msg.role === 'user' || msg.role === 'assistant') {
-          openaiMessages.push({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content
-          });
-        }
-      }
-    }
-
-    // Add the current user query
-    openaiMessages.push({ 
-      role: 'user', 
-      content: query 
+    void recordLlmUsage(ragResponse.usage, {
+      organizationId: req.organizationContext?.activeOrganizationId || null,
+      userId: req.user.id,
+      provider: 'groundx'
     });
 
-    console.log(`🤖 OpenAI request with ${openaiMessages.length} messages`);
-
-    const openaiClient = getOpenAIClient();
-    const completion = await openaiClient.chat.completions.create({
-      model: 'gpt-4-turbo',
-      messages: openaiMessages,
-      temperature: temperature,
-      max_tokens: 1500
-    });
-
-    const llmEndTime = Date.now();
-    const llmMs = llmEndTime - llmStartTime;
-    const totalMs = llmEndTime - startTime;
-
-    const aiResponse = completion.choices[0]?.message?.content || 'No response generated';
-
-    // Prepare response
-    const ragResponse: RagResponse = {
-      success: true,
-      timestamp: new Date().toISOString(),
-      query: query,
-      response: aiResponse,
-      searchResults: {
-        count: sources.length,
-        sources: sources
-      },
-      executionTime: {
-        totalMs,
-        searchMs,
-        llmMs
-      }
-    };
-
-    if (includeThoughts) {
-      ragResponse.thoughts = `I searched through ${sources.length} documents and found relevant information to answer your question about "${query}". ${conversationContext ? 'I considered our previous conversation context.' : ''}`;
-    }
-
-    console.log(`RAG completed in ${totalMs}ms (search: ${searchMs}ms, LLM: ${llmMs}ms)`);
-
     res.json(ragResponse);
 
   } catch (error: any) {
@@ -510,35 +264,42 @@ router.post('/search', async (req: any, res: any) => {
       });
     }
 
-    console.log(`Searching bucket ${bucketId} for: "${query}"`);
+    const { value: results, cacheStatus } = await withResponseCache(
+      {
+        endpoint: 'groundx-search',
+        organizationId: req.user?.organization?.override_id || req.organizationContext?.activeOrganizationId,
+        params: { query, bucketId: String(bucketId), limit },
+        cacheControl: req.headers['cache-control']
+      },
+      async () => {
+        console.log(`Searching bucket ${bucketId} for: "${query}"`);
 
-    const client = getGroundXClient();
-    const searchResponse = await client.search.content(parseInt(bucketId), {
-      query: query,
-      n: limit
-    });
+        const client = getGroundXClient();
+        const searchResponse = await client.search.content(parseInt(bucketId), {
+          query: query,
+          n: limit
+        });
 
-    if (!searchResponse?.search?.results) {
-      return res.json({
-        success: true,
-        results: [],
-        count: 0
-      });
-    }
+        if (!searchResponse?.search?.results) {
+          return [];
+        }
 
-    const results = searchResponse.search.results.map((result: any) => {
-      const scoreData = extractBestScore(result);
-      
-      return {
-        documentId: result.documentId,
-        fileName: result.fileName,
-        text: result.text || result.suggestedText,
-        score: scoreData.score,
-        metadata: result.metadata,
-        highlights: result.highlight?.text || []
-      };
-    });
+        return searchResponse.search.results.map((result: any) => {
+          const scoreData = extractBestScore(result);
+          
+          return {
+            documentId: result.documentId,
+            fileName: result.fileName,
+            text: result.text || result.suggestedText,
+            score: scoreData.score,
+            metadata: result.metadata,
+            highlights: result.highlight?.text || []
+          };
+        });
+      }
+    );
 
+    setCacheHeader(res, cacheStatus);
     res.json({
       success: true,
       results: results,
@@ -1,19 +1,24 @@
 import express from 'express';
+import { getCircuitBreakerStatuses } from '../services/resilientFetch';
 
 const router = express.Router();
 
 // Convert from your Next.js /api/env-check route
 router.get('/health', (req, res) => {
   try {
+    const circuitBreakers = getCircuitBreakerStatuses();
+
     const healthData = {
-      status: 'ok',
+      // Degraded while any chat backend is failing fast
+      status: circuitBreakers.some(breaker => breaker.state === 'open') ? 'degraded' : 'ok',
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV,
       version: '1.0.0',
       services: {
         database: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
         openai: !!process.env.OPENAI_API_KEY,
-      }
+      },
+      circuitBreakers
     };
 
     res.json(healthData);
@@ -1,15 +1,18 @@
 import { Router } from 'express';
 import { authenticateSupabaseUser, handleOrganizationOverride } from '../middleware/supabaseAuth';
+import { enforceClientLimits } from '../middleware/rateLimit';
+import { validateBody } from '../middleware/validateRequest';
+import { validateKernelMemoryAskRequest } from '../utils/requestValidation';
+import { withResponseCache, setCacheHeader } from '../services/responseCache';
+import { KERNEL_MEMORY_API_KEY, KERNEL_MEMORY_BASE_URL, askKernelMemory } from '../services/kernelMemory';
+import { estimateUsage, recordLlmUsage } from '../services/llmUsage';
 
 const router = Router();
 
 // Apply authentication middleware
 router.use(authenticateSupabaseUser as any);
 router.use(handleOrganizationOverride);
-
-// Kernel Memory configuration
-const KERNEL_MEMORY_API_KEY = process.env.KERNEL_MEMORY_API_KEY || '59b1f6a4-a168-47ca-8e6b-f9c9bd066228';
-const KERNEL_MEMORY_BASE_URL = process.env.KERNEL_MEMORY_BASE_URL || 'http://20.246.75.167';
+router.use(enforceClientLimits as any);
 
 // Kernel Memory health check endpoint
 router.get('/health', async (req: any, res: any) => {
@@ -66,27 +69,43 @@ router.post('/search', async (req: any, res: any) => {
       ...(args && { args })
     };
 
-    const response = await fetch(`${KERNEL_MEMORY_BASE_URL}/search`, {
-      method: 'POST',
-      headers: {
-        'Authorization': KERNEL_MEMORY_API_KEY,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
+    // Only successful searches are cached; upstream errors are passed through every time
+    const { value: result, cacheStatus } = await withResponseCache(
+      {
+        endpoint: 'kernel-memory-search',
+        organizationId: req.user?.organization?.override_id || req.organizationContext?.activeOrganizationId,
+        params: searchPayload,
+        cacheControl: req.headers['cache-control'],
+        shouldCache: (searchResult: { ok: boolean }) => searchResult.ok
       },
-      body: JSON.stringify(searchPayload)
-    });
+      async () => {
+        const response = await fetch(`${KERNEL_MEMORY_BASE_URL}/search`, {
+          method: 'POST',
+          headers: {
+            'Authorization': KERNEL_MEMORY_API_KEY,
+            'Content-Type': 'application/json',
+            'Accept': 'application/json'
+          },
+          body: JSON.stringify(searchPayload)
+        });
+
+        return response.ok
+          ? { ok: true, status: response.status, data: await response.json() as any }
+          : { ok: false, status: response.status, errorText: await response.text() };
+      }
+    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      return res.status(response.status).json({
+    if (!result.ok) {
+      return res.status(result.status).json({
         success: false,
-        error: `Kernel Memory API error: ${response.status}`,
-        details: errorText
+        error: `Kernel Memory API error: ${result.status}`,
+        details: result.errorText
       });
     }
 
-    const data = await response.json();
+    const data = result.data;
     
+    setCacheHeader(res, cacheStatus);
     res.set({
       'Cache-Control': 'no-cache, no-store, must-revalidate',
       'Pragma': 'no-cache',
@@ -110,35 +129,12 @@ router.post('/search', async (req: any, res: any) => {
 });
 
 // Kernel Memory ask endpoint (RAG with question answering)
-router.post('/ask', async (req: any, res: any) => {
+router.post('/ask', validateBody(validateKernelMemoryAskRequest), async (req: any, res: any) => {
   try {
     const { question, index, filters, minRelevance = 0.0, stream = false, args } = req.body;
 
-    if (!question) {
-      return res.status(400).json({
-        success: false,
-        error: 'Question parameter is required'
-      });
-    }
-
-    const askPayload = {
-      question,
-      ...(index && { index }),
-      ...(filters && { filters }),
-      minRelevance,
-      stream,
-      ...(args && { args })
-    };
-
-    const response = await fetch(`${KERNEL_MEMORY_BASE_URL}/ask`, {
-      method: 'POST',
-      headers: {
-        'Authorization': KERNEL_MEMORY_API_KEY,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(askPayload)
-    });
+    const startedAt = Date.now();
+    const response = await askKernelMemory({ question, index, filters, minRelevance, stream, args });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -149,7 +145,18 @@ router.post('/ask', async (req: any, res: any) => {
       });
     }
 
-    const data = await response.json();
+    const data = await response.json() as any;
+
+    // Kernel Memory doesn't report tokens, so answers are estimated; noResult means no model call was made
+    if (!data?.noResult) {
+      void recordLlmUsage([
+        estimateUsage('answer', 'kernel-memory', [{ content: question }], typeof data?.text === 'string' ? data.text : '', Date.now() - startedAt)
+      ], {
+        organizationId: req.organizationContext?.activeOrganizationId || null,
+        userId: req.user?.id,
+        provider: 'kernel-memory'
+      });
+    }
     
     res.set({
       'Cache-Control': 'no-cache, no-store, must-revalidate',
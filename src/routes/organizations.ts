@@ -5,6 +5,9 @@ import {
   setOrganizationSession, 
   clearOrganizationSession 
 } from '../middleware/supabaseAuth';
+import { validateQuery } from '../middleware/validateRequest';
+import { getUsageSummary, resolveUsagePeriod } from '../services/llmUsage';
+import { validateUsageQuery } from '../utils/requestValidation';
 
 const router = Router();
 
@@ -226,4 +229,39 @@ router.get('/current', async (req: any, res: any) => {
   }
 });
 
+// GET /organizations/usage - LLM token usage and estimated cost by organization, user, day and model
+router.get('/usage', authenticateSupabaseUser as any, validateQuery(validateUsageQuery), async (req: any, res: any) => {
+  try {
+    const { organizationContext } = req;
+
+    if (!organizationContext?.isQIGAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only QIG administrators can view usage'
+      });
+    }
+
+    const { organizationId, userId, from, to } = resolveUsagePeriod(req.query);
+    const summary = await getUsageSummary({ organizationId, userId, from, to });
+    if (!summary) {
+      return res.status(503).json({
+        success: false,
+        error: 'Usage accounting is not configured'
+      });
+    }
+
+    res.json({
+      success: true,
+      filters: { organizationId, userId, from, to },
+      summary
+    });
+  } catch (error) {
+    console.error('Error fetching LLM usage:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -5,6 +5,7 @@ interface ClientConfig {
   clientId: string;
   clientSecret: string;
   apiUrl: string;
+  scope?: string;
 }
 
 export class AzureAuthService {
@@ -37,7 +38,7 @@ export class AzureAuthService {
       console.log('Requesting Azure token...');
       
       const clientCredentialRequest: ClientCredentialRequest = {
-        scopes: [`${this.config.clientId}/.default`]
+        scopes: [this.config.scope || `${this.config.clientId}/.default`]
       };
 
       const response = await this.msalInstance.acquireTokenByClientCredential(clientCredentialRequest);
@@ -80,4 +81,20 @@ export function createAzureAuthService(): AzureAuthService {
   };
 
   return new AzureAuthService(config);
-}
\ No newline at end of file
+}
+
+// Factory function to create auth service from an organization's client configuration
+export function createAzureAuthServiceForClient(
+  azureConfig: { tenant_id: string; client_id: string; client_secret?: string; scope?: string },
+  apiUrl: string
+): AzureAuthService {
+  const config: ClientConfig = {
+    tenantId: azureConfig.tenant_id || '',
+    clientId: azureConfig.client_id || '',
+    clientSecret: azureConfig.client_secret || '',
+    apiUrl,
+    scope: azureConfig.scope
+  };
+
+  return new AzureAuthService(config);
+}
@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import {
+  AzureAuthService,
+  createAzureAuthService,
+  createAzureAuthServiceForClient
+} from './azureAuth';
+import { getClientConfigService, ClientConfiguration } from './clientConfigService';
+
+export const DEFAULT_BACKEND_URL = 'https://capps-backend-vakcnm7wmon74.salmonbush-fc2963f0.eastus.azurecontainerapps.io';
+
+const DEFAULT_CHAT_ENDPOINT = '/chat';
+
+// Resolved backend target for a single chat request
+export interface ChatBackend {
+  organizationId: string | null;
+  apiUrl: string;
+  // Circuit breaker name for apiUrl; opaque because circuit names are listed by the public /api/health
+  circuit: string;
+  chatEndpoint: string;
+  streamEndpoint: string;
+  // Only set when the organization configures one; contract analysis falls back to chatEndpoint
+  analyzeEndpoint?: string;
+  authService: AzureAuthService;
+}
+
+// Shared auth service for requests without a tenant-specific Azure configuration
+let defaultAzureAuth: AzureAuthService | null = null;
+
+// Per-organization auth services with a fingerprint of the credentials they were built from
+const tenantAzureAuth = new Map<string, { fingerprint: string; authService: AzureAuthService }>();
+
+function getDefaultAzureAuthService(): AzureAuthService {
+  if (!defaultAzureAuth) {
+    defaultAzureAuth = createAzureAuthService();
+    const configCheck = defaultAzureAuth.validateConfig();
+    if (!configCheck.valid) {
+      defaultAzureAuth = null;
+      throw new Error(`Azure configuration error: ${configCheck.error}`);
+    }
+  }
+  return defaultAzureAuth;
+}
+
+function getTenantAzureAuthService(config: ClientConfiguration): AzureAuthService {
+  const { azure_config, backend_config } = config;
+
+  // Fall back to the gateway's own credentials when the tenant has none
+  if (!azure_config?.tenant_id || !azure_config?.client_id || !azure_config?.client_secret) {
+    return getDefaultAzureAuthService();
+  }
+
+  // A rotated secret or changed client gives a new fingerprint, replacing the cached service
+  const fingerprint = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([azure_config.tenant_id, azure_config.client_id, azure_config.client_secret, backend_config.api_url]))
+    .digest('hex');
+  const cached = tenantAzureAuth.get(config.organization_id);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.authService;
+  }
+
+  const authService = createAzureAuthServiceForClient(azure_config, backend_config.api_url);
+  const configCheck = authService.validateConfig();
+  if (!configCheck.valid) {
+    throw new Error(`Azure configuration error for organization ${config.organization_id}: ${configCheck.error}`);
+  }
+  tenantAzureAuth.set(config.organization_id, { fingerprint, authService });
+
+  return authService;
+}
+
+function normalizeEndpoint(endpoint: string | undefined, fallback: string): string {
+  if (!endpoint) {
+    return fallback;
+  }
+  return endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Circuit breaker name shared by every organization using the same backend URL,
+ * without revealing the URL
+ */
+export function backendCircuitName(apiUrl: string): string {
+  return `chat-backend:${crypto.createHash('sha256').update(apiUrl).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Resolve the chat backend for an organization, falling back to BACKEND_API_URL
+ * and the gateway's Azure credentials when no active client configuration exists
+ */
+export async function resolveChatBackend(organizationId?: string | null): Promise<ChatBackend> {
+  if (organizationId) {
+    const config = await getClientConfigService().getClientConfig(organizationId);
+
+    if (config?.backend_config?.api_url) {
+      const chatEndpoint = normalizeEndpoint(config.backend_config.chat_endpoint, DEFAULT_CHAT_ENDPOINT);
+
+      return {
+        organizationId,
+        apiUrl: trimTrailingSlash(config.backend_config.api_url),
+        circuit: backendCircuitName(trimTrailingSlash(config.backend_config.api_url)),
+        chatEndpoint,
+        streamEndpoint: `${chatEndpoint}/stream`,
+        analyzeEndpoint: config.backend_config.analyze_endpoint
+          ? normalizeEndpoint(config.backend_config.analyze_endpoint, chatEndpoint)
+          : undefined,
+        authService: getTenantAzureAuthService(config)
+      };
+    }
+
+    console.log(`No backend configuration for organization ${organizationId}, using default backend`);
+  }
+
+  const apiUrl = trimTrailingSlash(process.env.BACKEND_API_URL || DEFAULT_BACKEND_URL);
+
+  return {
+    organizationId: organizationId || null,
+    apiUrl,
+    circuit: backendCircuitName(apiUrl),
+    chatEndpoint: DEFAULT_CHAT_ENDPOINT,
+    streamEndpoint: `${DEFAULT_CHAT_ENDPOINT}/stream`,
+    authService: getDefaultAzureAuthService()
+  };
+}
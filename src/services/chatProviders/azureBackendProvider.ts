@@ -0,0 +1,116 @@
+import { resolveChatBackend } from '../chatBackend';
+import { resilientFetch, UpstreamUnavailableError } from '../resilientFetch';
+import { usageFromCompletion } from '../llmUsage';
+import { SSEEvent, SSEParser } from '../../utils/sseParser';
+import { ChatProvider, ChatProviderContext, ChatProviderError, ChatProviderRequest } from './types';
+
+// Call the backend with timeout, retries and circuit breaking, reporting an unavailable backend as a provider error
+async function fetchBackend(circuit: string, targetUrl: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+  try {
+    return await resilientFetch(targetUrl, init, { circuit, signal });
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) {
+      throw new ChatProviderError(
+        error.status === 504 ? 'Chat backend timed out' : 'Chat backend unavailable',
+        error.status,
+        error.message,
+        error.retryAfterMs
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Proxies chat to the organization's Azure RAG backend
+ */
+export const azureBackendProvider: ChatProvider = {
+  name: 'azure',
+
+  async chat(request: ChatProviderRequest, context: ChatProviderContext) {
+    // Resolve the organization's backend and get its Azure token
+    const backend = await resolveChatBackend(context.organizationId);
+    const token = await backend.authService.getAccessToken();
+
+    // Forward to the organization's backend
+    const targetUrl = `${backend.apiUrl}${backend.chatEndpoint}`;
+
+    const startedAt = Date.now();
+    const response = await fetchBackend(backend.circuit, targetUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        'User-Agent': 'Express-Backend/1.0'
+      },
+      body: JSON.stringify({ messages: request.messages, ...request.params })
+    }, context.signal);
+
+    if (!response.ok) {
+      throw new ChatProviderError(`Backend API error: ${response.status}`, response.status, response.statusText);
+    }
+
+    const data = await response.json() as any;
+
+    // Backends that report OpenAI-style token usage get it converted; otherwise the chat flow estimates it
+    if (data.usage && !Array.isArray(data.usage)) {
+      data.usage = typeof data.usage.prompt_tokens === 'number'
+        ? [usageFromCompletion('answer', { model: data.context?.model, usage: data.usage }, { model: 'azure', messages: request.messages }, startedAt)]
+        : undefined;
+    }
+
+    return data;
+  },
+
+  async *stream(request: ChatProviderRequest, context: ChatProviderContext): AsyncGenerator<SSEEvent> {
+    // Resolve the organization's backend and get its Azure token
+    const backend = await resolveChatBackend(context.organizationId);
+    const token = await backend.authService.getAccessToken();
+
+    const includeThoughtProcess = request.params.include_thought_process === true;
+
+    // Forward to the organization's backend
+    const targetUrl = `${backend.apiUrl}${backend.streamEndpoint}`;
+    console.log(`Forwarding request to: ${targetUrl}`);
+
+    const response = await fetchBackend(backend.circuit, targetUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        'User-Agent': 'Express-MSAL-Chat-Stream',
+        'Accept': 'text/event-stream',
+        'X-Include-Thought-Process': includeThoughtProcess ? 'true' : 'false'
+      },
+      body: JSON.stringify({ messages: request.messages, ...request.params })
+    }, context.signal);
+
+    if (!response.ok) {
+      throw new ChatProviderError(`Backend API error: ${response.status}`, response.status, response.statusText);
+    }
+
+    if (!response.body) {
+      return;
+    }
+
+    // Re-emit the upstream stream one complete event at a time
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        yield* parser.push(decoder.decode(value, { stream: true }));
+      }
+
+      yield* parser.push(decoder.decode());
+      yield* parser.flush();
+    } finally {
+      reader.releaseLock();
+    }
+  }
+};
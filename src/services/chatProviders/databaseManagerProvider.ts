@@ -0,0 +1,63 @@
+import { sendDatabaseManagerChat } from '../databaseManager';
+import { SSEEvent } from '../../utils/sseParser';
+import {
+  ChatProvider,
+  ChatProviderContext,
+  ChatProviderError,
+  ChatProviderRequest,
+  getLatestUserContent,
+  streamFromResponse
+} from './types';
+
+// The Database Manager has returned its answer under several field names over time
+function extractAnswer(data: any): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  const answer = data?.response ?? data?.message ?? data?.answer ?? data?.result;
+  return typeof answer === 'string' ? answer : JSON.stringify(answer ?? data);
+}
+
+/**
+ * Natural-language database queries via the Database Manager service
+ */
+export const databaseManagerProvider: ChatProvider = {
+  name: 'database-manager',
+
+  async chat(request: ChatProviderRequest, context: ChatProviderContext) {
+    const message = getLatestUserContent(request.messages);
+
+    if (!message) {
+      throw new ChatProviderError('A user message is required for the database-manager provider', 400);
+    }
+
+    const response = await sendDatabaseManagerChat(
+      {
+        message,
+        session_id: request.params.databaseSessionId || context.sessionId,
+        context: request.params.context
+      },
+      context.signal
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ChatProviderError(`Database Manager API error: ${response.status}`, response.status, errorText);
+    }
+
+    const data = await response.json() as any;
+
+    return {
+      message: {
+        content: extractAnswer(data)
+      },
+      context: {
+        result: data
+      }
+    };
+  },
+
+  async *stream(request: ChatProviderRequest, context: ChatProviderContext): AsyncGenerator<SSEEvent> {
+    yield* streamFromResponse(await databaseManagerProvider.chat(request, context));
+  }
+};
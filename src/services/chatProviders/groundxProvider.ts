@@ -0,0 +1,56 @@
+import { runGroundXRag } from '../groundxRag';
+import { SSEEvent } from '../../utils/sseParser';
+import {
+  ChatProvider,
+  ChatProviderContext,
+  ChatProviderError,
+  ChatProviderRequest,
+  getLatestUserContent,
+  streamFromResponse
+} from './types';
+
+/**
+ * GroundX search over a bucket followed by an OpenAI answer with numbered citations
+ */
+export const groundxProvider: ChatProvider = {
+  name: 'groundx',
+
+  async chat(request: ChatProviderRequest, context: ChatProviderContext) {
+    const { bucketId, limit, temperature, includeThoughts } = request.params;
+    const query = getLatestUserContent(request.messages);
+
+    if (!bucketId) {
+      throw new ChatProviderError('bucketId is required for the groundx provider', 400);
+    }
+    if (!query) {
+      throw new ChatProviderError('A user message is required for the groundx provider', 400);
+    }
+
+    const ragResponse = await runGroundXRag({
+      query,
+      bucketId,
+      messages: request.messages,
+      limit,
+      temperature,
+      includeThoughts,
+      conversationContext: true
+    });
+
+    return {
+      message: {
+        content: ragResponse.response
+      },
+      context: {
+        thoughts: ragResponse.thoughts,
+        supporting_content: ragResponse.searchResults.sources,
+        search_results: ragResponse.searchResults,
+        execution_time: ragResponse.executionTime
+      },
+      usage: ragResponse.usage
+    };
+  },
+
+  async *stream(request: ChatProviderRequest, context: ChatProviderContext): AsyncGenerator<SSEEvent> {
+    yield* streamFromResponse(await groundxProvider.chat(request, context));
+  }
+};
@@ -0,0 +1,55 @@
+import { getClientConfigService } from '../clientConfigService';
+import { azureBackendProvider } from './azureBackendProvider';
+import { openaiProvider } from './openaiProvider';
+import { groundxProvider } from './groundxProvider';
+import { kernelMemoryProvider } from './kernelMemoryProvider';
+import { databaseManagerProvider } from './databaseManagerProvider';
+import { ChatProvider, ChatProviderError, ChatProviderName } from './types';
+
+export * from './types';
+
+const DEFAULT_CHAT_PROVIDER: ChatProviderName = 'azure';
+
+const chatProviders: Record<ChatProviderName, ChatProvider> = {
+  'azure': azureBackendProvider,
+  'openai': openaiProvider,
+  'groundx': groundxProvider,
+  'kernel-memory': kernelMemoryProvider,
+  'database-manager': databaseManagerProvider
+};
+
+export const CHAT_PROVIDER_NAMES = Object.keys(chatProviders) as ChatProviderName[];
+
+export function isChatProviderName(name: unknown): name is ChatProviderName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(chatProviders, name);
+}
+
+/**
+ * Select the provider for a request: the explicit `provider` field, then the
+ * organization's configured default, then the Azure backend
+ */
+export async function resolveChatProvider(
+  requestedProvider: unknown,
+  organizationId?: string | null
+): Promise<ChatProvider> {
+  if (requestedProvider !== undefined && requestedProvider !== null) {
+    if (!isChatProviderName(requestedProvider)) {
+      throw new ChatProviderError(
+        `Unknown chat provider: ${requestedProvider}`,
+        400,
+        `Supported providers: ${CHAT_PROVIDER_NAMES.join(', ')}`
+      );
+    }
+    return chatProviders[requestedProvider];
+  }
+
+  if (organizationId) {
+    const config = await getClientConfigService().getClientConfig(organizationId);
+    const organizationDefault = config?.backend_config?.default_provider;
+    if (isChatProviderName(organizationDefault)) {
+      return chatProviders[organizationDefault];
+    }
+  }
+
+  return chatProviders[DEFAULT_CHAT_PROVIDER];
+}
@@ -0,0 +1,49 @@
+import { askKernelMemory } from '../kernelMemory';
+import { SSEEvent } from '../../utils/sseParser';
+import {
+  ChatProvider,
+  ChatProviderContext,
+  ChatProviderError,
+  ChatProviderRequest,
+  getLatestUserContent,
+  streamFromResponse
+} from './types';
+
+/**
+ * Kernel Memory /ask over an index
+ */
+export const kernelMemoryProvider: ChatProvider = {
+  name: 'kernel-memory',
+
+  async chat(request: ChatProviderRequest, context: ChatProviderContext) {
+    const { index, filters, minRelevance, args } = request.params;
+    const question = getLatestUserContent(request.messages);
+
+    if (!question) {
+      throw new ChatProviderError('A user message is required for the kernel-memory provider', 400);
+    }
+
+    const response = await askKernelMemory({ question, index, filters, minRelevance, args }, context.signal);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ChatProviderError(`Kernel Memory API error: ${response.status}`, response.status, errorText);
+    }
+
+    const data = await response.json() as any;
+
+    return {
+      message: {
+        content: data.noResult ? (data.noResultReason || data.text || 'No answer found') : (data.text || '')
+      },
+      context: {
+        supporting_content: data.relevantSources || [],
+        result: data
+      }
+    };
+  },
+
+  async *stream(request: ChatProviderRequest, context: ChatProviderContext): AsyncGenerator<SSEEvent> {
+    yield* streamFromResponse(await kernelMemoryProvider.chat(request, context));
+  }
+};
@@ -0,0 +1,86 @@
+import { getOpenAIClient } from '../openaiClient';
+import { usageFromCompletion } from '../llmUsage';
+import { SSEEvent } from '../../utils/sseParser';
+import { ChatProvider, ChatProviderContext, ChatProviderRequest, USAGE_EVENT } from './types';
+
+const DEFAULT_OPENAI_CHAT_MODEL = 'gpt-4-turbo';
+
+// User messages keep their multimodal content parts (text and image_url); the other roles only take text
+function messageContent(message: { role: string; content?: any }): any {
+  if (Array.isArray(message.content)) {
+    return message.role === 'user'
+      ? message.content
+      : message.content.filter((part: any) => part?.type === 'text').map((part: any) => part.text).join('\n');
+  }
+  return String(message.content ?? '');
+}
+
+function buildCompletionParams(request: ChatProviderRequest) {
+  const { temperature = 0.3, model, promptTemplate } = request.params;
+
+  const messages = request.messages
+    .filter(message => ['system', 'user', 'assistant'].includes(message.role))
+    .map(message => ({
+      role: message.role as 'system' | 'user' | 'assistant',
+      content: messageContent(message)
+    }));
+
+  if (promptTemplate && !messages.some(message => message.role === 'system')) {
+    messages.unshift({ role: 'system', content: promptTemplate });
+  }
+
+  return {
+    model: model || process.env.OPENAI_CHAT_MODEL || DEFAULT_OPENAI_CHAT_MODEL,
+    messages,
+    temperature,
+    max_tokens: 1500
+  };
+}
+
+/**
+ * Plain OpenAI chat completion without retrieval
+ */
+export const openaiProvider: ChatProvider = {
+  name: 'openai',
+
+  async chat(request: ChatProviderRequest, context: ChatProviderContext) {
+    const params = buildCompletionParams(request);
+    const startedAt = Date.now();
+    const completion = await getOpenAIClient().chat.completions.create(
+      params,
+      context.signal ? { signal: context.signal } : undefined
+    );
+
+    return {
+      message: {
+        content: completion.choices[0]?.message?.content || 'No response generated'
+      },
+      context: {
+        model: completion.model
+      },
+      usage: [usageFromCompletion('answer', completion, params, startedAt)]
+    };
+  },
+
+  async *stream(request: ChatProviderRequest, context: ChatProviderContext): AsyncGenerator<SSEEvent> {
+    const params = buildCompletionParams(request);
+    const startedAt = Date.now();
+    const completionStream = await getOpenAIClient().chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      context.signal ? { signal: context.signal } : undefined
+    );
+
+    yield { event: 'message', data: JSON.stringify({ context: { model: params.model } }) };
+
+    for await (const chunk of completionStream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield { event: 'message', data: JSON.stringify({ delta: { role: 'assistant', content } }) };
+      }
+      // The last chunk reports the tokens of the whole completion
+      if (chunk.usage) {
+        yield { event: USAGE_EVENT, data: JSON.stringify([usageFromCompletion('answer', chunk, params, startedAt)]) };
+      }
+    }
+  }
+};
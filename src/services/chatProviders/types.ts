@@ -0,0 +1,76 @@
+import { ResponseData } from '../../types/chat';
+import { SSEEvent } from '../../utils/sseParser';
+
+export type ChatProviderName = 'azure' | 'openai' | 'groundx' | 'kernel-memory' | 'database-manager';
+
+// Normalized input handed to every provider
+export interface ChatProviderRequest {
+  messages: Array<{ role: string; content: string; [key: string]: any }>;
+  params: Record<string, any>;
+}
+
+export interface ChatProviderContext {
+  organizationId: string | null;
+  sessionId?: string;
+  signal?: AbortSignal;
+}
+
+// Stream event carrying the LlmUsage[] of the answer; recorded by the chat flow, never sent to clients
+export const USAGE_EVENT = 'usage';
+
+/**
+ * A chat backend behind /api/chat and /api/chat-stream.
+ *
+ * chat() returns a ResponseData; stream() yields SSE events whose data is JSON in the
+ * Azure sample shape ({ delta: { content } } chunks and a { context } event), plus an
+ * optional USAGE_EVENT when the provider knows the tokens it used
+ */
+export interface ChatProvider {
+  name: ChatProviderName;
+  chat(request: ChatProviderRequest, context: ChatProviderContext): Promise<ResponseData>;
+  stream(request: ChatProviderRequest, context: ChatProviderContext): AsyncGenerator<SSEEvent>;
+}
+
+// Error carrying the HTTP status to report to the client
+export class ChatProviderError extends Error {
+  status: number;
+  details?: string;
+  // How long the client should wait before retrying, when the provider knows
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, details?: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ChatProviderError';
+    this.status = status;
+    this.details = details;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Text of the most recent user message, used by providers that take a single question
+ */
+export function getLatestUserContent(messages: ChatProviderRequest['messages']): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && typeof messages[i].content === 'string') {
+      return messages[i].content;
+    }
+  }
+  return '';
+}
+
+/**
+ * Emit a complete ResponseData as stream events for providers without native streaming
+ */
+export async function* streamFromResponse(response: ResponseData): AsyncGenerator<SSEEvent> {
+  if (response.context) {
+    yield { event: 'message', data: JSON.stringify({ context: response.context }) };
+  }
+  yield {
+    event: 'message',
+    data: JSON.stringify({ delta: { role: 'assistant', content: response.message?.content || '' } })
+  };
+  if (response.usage) {
+    yield { event: USAGE_EVENT, data: JSON.stringify(response.usage) };
+  }
+}
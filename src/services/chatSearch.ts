@@ -0,0 +1,197 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type ChatSearchScope = 'user' | 'organization';
+
+export interface ChatSearchOptions {
+  query: string;
+  scope: ChatSearchScope;
+  userId: string;
+  // Required for the organization scope
+  organizationId?: string | null;
+  roles?: string[];
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+// Character range of a matched term inside a snippet
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  sessionId: string;
+  sessionTitle: string;
+  role: string;
+  timestamp: string;
+  snippet: string;
+  highlights: Highlight[];
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  title: string;
+  updatedAt: string;
+  highlights: Highlight[];
+}
+
+export interface ChatSearchResults {
+  query: string;
+  messages: MessageSearchResult[];
+  // Title matches are only returned with the first page of message results
+  sessions: SessionSearchResult[];
+  pagination: {
+    limit: number;
+    offset: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+const SNIPPET_RADIUS = 80;
+const MAX_TITLE_MATCHES = 10;
+
+/**
+ * Words and quoted phrases to highlight for a websearch-style query; negated terms (-word) and OR are skipped
+ */
+export function extractSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4]).replace(/^["']+|["']+$/g, '').trim();
+    if (!negated && term && term.toLowerCase() !== 'or') {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Ranges of every term occurrence (prefix matches, so "retain" also marks "retainage")
+function findHighlights(text: string, terms: string[]): Highlight[] {
+  if (terms.length === 0) {
+    return [];
+  }
+  const pattern = new RegExp(terms.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|'), 'gi');
+  return [...text.matchAll(pattern)].map(match => ({ start: match.index!, end: match.index! + match[0].length }));
+}
+
+/**
+ * A window of the content around the first matched term, with highlight ranges relative to the snippet
+ */
+export function buildSnippet(content: string, terms: string[], radius: number = SNIPPET_RADIUS): { snippet: string; highlights: Highlight[] } {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const matches = findHighlights(text, terms);
+  const first = matches[0];
+
+  let start = first ? Math.max(first.start - radius, 0) : 0;
+  let end = first ? Math.min(first.end + radius, text.length) : Math.min(radius * 2, text.length);
+
+  // Don't cut words in half
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < (first?.start ?? end) ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > (first?.end ?? start) ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const highlights = matches
+    .filter(match => match.start >= start && match.end <= end)
+    .map(match => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length }));
+
+  return { snippet: `${prefix}${text.slice(start, end)}${suffix}`, highlights };
+}
+
+/**
+ * Full-text search over message content (Postgres websearch syntax) and session titles,
+ * limited to the user's sessions or, for the organization scope, the organization's sessions.
+ * Sessions in the trash are left out.
+ */
+export async function searchChatHistory(
+  supabaseClient: SupabaseClient,
+  options: ChatSearchOptions
+): Promise<ChatSearchResults> {
+  const terms = extractSearchTerms(options.query);
+  const scopeColumn = options.scope === 'organization' ? 'organization_id' : 'user_id';
+  const scopeValue = options.scope === 'organization' ? options.organizationId : options.userId;
+
+  // The inner join keeps only messages whose session is in scope
+  let messageQuery = supabaseClient
+    .from('chat_messages')
+    .select('id, session_id, role, content, timestamp, chat_sessions!inner(id, title, user_id, organization_id, deleted_at)', { count: 'exact' })
+    .eq(`chat_sessions.${scopeColumn}`, scopeValue)
+    .is('chat_sessions.deleted_at', null)
+    .textSearch('content', options.query, { type: 'websearch', config: 'english' });
+
+  if (options.roles && options.roles.length > 0) messageQuery = messageQuery.in('role', options.roles);
+  if (options.from) messageQuery = messageQuery.gte('timestamp', options.from);
+  if (options.to) messageQuery = messageQuery.lte('timestamp', options.to);
+
+  const { data: messages, error, count } = await messageQuery
+    .order('timestamp', { ascending: false })
+    .range(options.offset, options.offset + options.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to search chat messages: ${error.message}`);
+  }
+
+  let sessions: SessionSearchResult[] = [];
+  if (options.offset === 0 && terms.length > 0) {
+    // Titles are short, so a substring match on any term is enough
+    let titleQuery = supabaseClient
+      .from('chat_sessions')
+      .select('id, title, updated_at')
+      .eq(scopeColumn, scopeValue)
+      .is('deleted_at', null)
+      .or(terms.map(term => `title.ilike.%${term.replace(/[,()%_*\\]/g, ' ')}%`).join(','));
+
+    if (options.from) titleQuery = titleQuery.gte('updated_at', options.from);
+    if (options.to) titleQuery = titleQuery.lte('updated_at', options.to);
+
+    const { data: titleMatches, error: titleError } = await titleQuery
+      .order('updated_at', { ascending: false })
+      .limit(MAX_TITLE_MATCHES);
+
+    if (titleError) {
+      throw new Error(`Failed to search chat sessions: ${titleError.message}`);
+    }
+
+    sessions = (titleMatches || []).map((session: any) => ({
+      sessionId: session.id,
+      title: session.title,
+      updatedAt: session.updated_at,
+      highlights: findHighlights(session.title || '', terms)
+    }));
+  }
+
+  const total = count ?? 0;
+
+  return {
+    query: options.query,
+    messages: (messages || []).map((message: any) => ({
+      messageId: message.id,
+      sessionId: message.session_id,
+      sessionTitle: message.chat_sessions?.title,
+      role: message.role,
+      timestamp: message.timestamp,
+      ...buildSnippet(message.content || '', terms)
+    })),
+    sessions,
+    pagination: {
+      limit: options.limit,
+      offset: options.offset,
+      total,
+      hasMore: options.offset + (messages?.length || 0) < total
+    }
+  };
+}
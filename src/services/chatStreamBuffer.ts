@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+
+// A single relayed SSE event, replayable by its id
+export interface BufferedStreamEvent {
+  id: string;
+  seq: number;
+  data: string;
+  event?: string;
+}
+
+export interface StreamListener {
+  onEvent: (event: BufferedStreamEvent) => void;
+  onEnd: () => void;
+}
+
+interface BufferedStream {
+  id: string;
+  userId: string | null;
+  events: BufferedStreamEvent[];
+  // Seq of the last event dropped to stay under maxEvents; 0 while nothing was dropped
+  evictedThroughSeq: number;
+  done: boolean;
+  listeners: Set<StreamListener>;
+  expiryTimer: NodeJS.Timeout | null;
+  onCancel: (() => void) | null;
+  cancelTimer: NodeJS.Timeout | null;
+}
+
+const DEFAULT_BUFFER_TTL_MS = 60 * 1000; // 1 minute after the stream completes
+const DEFAULT_DISCONNECT_GRACE_MS = 10 * 1000; // Time a client has to reconnect before the upstream is aborted
+const DEFAULT_MAX_BUFFERED_EVENTS = 5000;
+
+/**
+ * Keeps in-flight chat streams in memory for a short window so a client that
+ * drops its connection can resume with Last-Event-ID instead of re-asking
+ */
+class ChatStreamBuffer {
+  private streams: Map<string, BufferedStream> = new Map();
+  private readonly ttlMs = parseInt(process.env.CHAT_STREAM_BUFFER_TTL_MS || '', 10) || DEFAULT_BUFFER_TTL_MS;
+  private readonly maxEvents = parseInt(process.env.CHAT_STREAM_BUFFER_MAX_EVENTS || '', 10) || DEFAULT_MAX_BUFFERED_EVENTS;
+  private readonly disconnectGraceMs = process.env.CHAT_STREAM_DISCONNECT_GRACE_MS !== undefined
+    ? parseInt(process.env.CHAT_STREAM_DISCONNECT_GRACE_MS, 10) || 0
+    : DEFAULT_DISCONNECT_GRACE_MS;
+
+  /**
+   * Start buffering a new stream owned by the given user (null for anonymous streams).
+   * onCancel is invoked when the stream is cancelled or abandoned by every client.
+   */
+  create(userId: string | null, onCancel?: () => void): string {
+    const id = randomUUID();
+    this.streams.set(id, {
+      id,
+      userId,
+      events: [],
+      evictedThroughSeq: 0,
+      done: false,
+      listeners: new Set(),
+      expiryTimer: null,
+      onCancel: onCancel || null,
+      cancelTimer: null
+    });
+    return id;
+  }
+
+  get(streamId: string): { id: string; userId: string | null; done: boolean; evictedThroughSeq: number } | null {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return null;
+    }
+    return { id: stream.id, userId: stream.userId, done: stream.done, evictedThroughSeq: stream.evictedThroughSeq };
+  }
+
+  /**
+   * Whether every event after afterSeq is still buffered, i.e. a resume from there replays
+   * the stream without a gap
+   */
+  canResume(streamId: string, afterSeq: number): boolean {
+    const stream = this.streams.get(streamId);
+    return !!stream && afterSeq >= stream.evictedThroughSeq;
+  }
+
+  /**
+   * Append an event to the stream and deliver it to every attached listener
+   */
+  append(streamId: string, data: string, event?: string): BufferedStreamEvent | null {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.done) {
+      return null;
+    }
+
+    const seq = stream.events.length > 0 ? stream.events[stream.events.length - 1].seq + 1 : 1;
+    const bufferedEvent: BufferedStreamEvent = {
+      id: `${streamId}:${seq}`,
+      seq,
+      data,
+      ...(event && { event })
+    };
+
+    stream.events.push(bufferedEvent);
+    if (stream.events.length > this.maxEvents) {
+      stream.evictedThroughSeq = stream.events.shift()!.seq;
+    }
+
+    for (const listener of stream.listeners) {
+      listener.onEvent(bufferedEvent);
+    }
+
+    return bufferedEvent;
+  }
+
+  /**
+   * Mark the stream finished, end all listeners and schedule the buffer for removal
+   */
+  complete(streamId: string): void {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.done) {
+      return;
+    }
+
+    stream.done = true;
+    this.clearCancelTimer(stream);
+    for (const listener of stream.listeners) {
+      listener.onEnd();
+    }
+    stream.listeners.clear();
+
+    stream.expiryTimer = setTimeout(() => this.streams.delete(streamId), this.ttlMs);
+    stream.expiryTimer.unref();
+  }
+
+  /**
+   * Replay events after the given sequence number, then follow the live stream.
+   * Returns an unsubscribe function, or null if the stream is unknown or expired.
+   */
+  subscribe(streamId: string, afterSeq: number, listener: StreamListener): (() => void) | null {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return null;
+    }
+
+    for (const bufferedEvent of stream.events) {
+      if (bufferedEvent.seq > afterSeq) {
+        listener.onEvent(bufferedEvent);
+      }
+    }
+
+    if (stream.done) {
+      listener.onEnd();
+      return () => {};
+    }
+
+    this.clearCancelTimer(stream);
+    stream.listeners.add(listener);
+    return () => {
+      stream.listeners.delete(listener);
+      if (stream.listeners.size === 0 && !stream.done) {
+        this.scheduleCancel(stream);
+      }
+    };
+  }
+
+  /**
+   * Cancel an in-flight stream immediately (e.g. the user clicked "stop")
+   */
+  cancel(streamId: string): boolean {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.done) {
+      return false;
+    }
+
+    this.clearCancelTimer(stream);
+    stream.onCancel?.();
+    return true;
+  }
+
+  // Abort the upstream once no client has reattached within the grace period
+  private scheduleCancel(stream: BufferedStream): void {
+    this.clearCancelTimer(stream);
+    console.log(`All clients disconnected from chat stream ${stream.id}, cancelling in ${this.disconnectGraceMs}ms`);
+    stream.cancelTimer = setTimeout(() => {
+      stream.cancelTimer = null;
+      if (stream.listeners.size === 0 && !stream.done) {
+        stream.onCancel?.();
+      }
+    }, this.disconnectGraceMs);
+    stream.cancelTimer.unref();
+  }
+
+  private clearCancelTimer(stream: BufferedStream): void {
+    if (stream.cancelTimer) {
+      clearTimeout(stream.cancelTimer);
+      stream.cancelTimer = null;
+    }
+  }
+}
+
+/**
+ * Parse a Last-Event-ID header of the form `<streamId>:<seq>`
+ */
+export function parseLastEventId(header: string | undefined): { streamId: string; seq: number } | null {
+  if (!header) {
+    return null;
+  }
+
+  const separator = header.lastIndexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const seq = parseInt(header.substring(separator + 1), 10);
+  if (isNaN(seq) || seq < 0) {
+    return null;
+  }
+
+  return { streamId: header.substring(0, separator), seq };
+}
+
+/**
+ * Serialize a buffered event in SSE wire format
+ */
+export function formatSSEEvent(bufferedEvent: BufferedStreamEvent): string {
+  let frame = `id: ${bufferedEvent.id}\n`;
+  if (bufferedEvent.event) {
+    frame += `event: ${bufferedEvent.event}\n`;
+  }
+  for (const line of bufferedEvent.data.split('\n')) {
+    frame += `data: ${line}\n`;
+  }
+  return `${frame}\n`;
+}
+
+// Export singleton instance (lazy initialization)
+let chatStreamBufferInstance: ChatStreamBuffer | null = null;
+
+export function getChatStreamBuffer(): ChatStreamBuffer {
+  if (!chatStreamBufferInstance) {
+    chatStreamBufferInstance = new ChatStreamBuffer();
+  }
+  return chatStreamBufferInstance;
+}
+
+export default getChatStreamBuffer;
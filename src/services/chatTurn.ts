@@ -0,0 +1,404 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { assembleConversation } from './conversationHistory';
+import { resolveChatProvider, ChatProvider, USAGE_EVENT } from './chatProviders';
+import { resolveFollowUpQuestions } from './followUpQuestions';
+import { updateSessionTitleIfDefault } from './sessionTitles';
+import { addCitations } from './citations';
+import { estimateUsage, recordLlmUsage } from './llmUsage';
+import { SessionUser, SessionAccessError, requireSessionAccess } from './sessionAccess';
+import { parseEventData, extractDeltaContent } from '../utils/sseParser';
+import { LlmUsage, ResponseData } from '../types/chat';
+
+// Verified Supabase user plus the client used for their session storage
+export interface ChatAuth {
+  user: any;
+  supabaseClient: SupabaseClient;
+  // When the access token expires (ms since epoch), from its exp claim
+  expiresAt?: number | null;
+}
+
+// Request problem detected before the provider is called; status is the HTTP status to answer with
+export class ChatTurnError extends Error {
+  constructor(message: string, public status: number, public details?: any) {
+    super(message);
+    this.name = 'ChatTurnError';
+  }
+}
+
+// A chat turn that passed provider selection, session checks and history assembly
+export interface PreparedChatTurn {
+  provider: ChatProvider;
+  organizationId: string | null;
+  sessionId?: string;
+  conversation: any[];
+  params: Record<string, any>;
+  auth: ChatAuth | null;
+  // Caller the turn's LLM usage is attributed to, also when the turn isn't stored in a session
+  userId: string | null;
+}
+
+// Receives each outgoing stream event; event is omitted for plain message deltas
+export type ChatStreamEmitter = (data: string, event?: string) => void;
+
+// Lazy-initialize Supabase client
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_ANON_KEY) {
+      throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY environment variables are required');
+    }
+
+    supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_ANON_KEY
+    );
+  }
+  return supabase;
+}
+
+// The exp claim of a token Supabase has already verified, in ms since epoch
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Verify a Supabase access token and return the user it belongs to
+ */
+export async function verifyAccessToken(token: string): Promise<ChatAuth | null> {
+  try {
+    const supabaseClient = getSupabaseClient();
+    const { data: { user }, error } = await supabaseClient.auth.getUser(token);
+
+    if (error || !user) {
+      return null;
+    }
+
+    return { user, supabaseClient, expiresAt: getTokenExpiry(token) };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Helper function to save chat message to session
+export async function saveChatMessage(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  user: SessionUser,
+  role: string,
+  content: string,
+  additionalData?: any
+) {
+  try {
+    // Owners and contributors may add messages
+    await requireSessionAccess(supabaseClient, sessionId, user, 'contributor');
+
+    // Save the message
+    const messageData: any = {
+      session_id: sessionId,
+      role,
+      content
+    };
+
+    // Add additional data fields if provided
+    if (additionalData) {
+      Object.assign(messageData, additionalData);
+    }
+
+    const { data: message, error } = await supabaseClient
+      .from('chat_messages')
+      .insert([messageData])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save chat message: ${error.message}`);
+    }
+
+    // Update session's updated_at timestamp
+    await supabaseClient
+      .from('chat_sessions')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', sessionId);
+
+    return message;
+  } catch (error) {
+    console.error('Error saving chat message:', error);
+    throw error;
+  }
+}
+
+// Generate a title for a session still named "New Chat" after its first answer was saved (which
+// checked the user may write to it); failures never affect the chat response
+export async function generateTitleForSession(
+  auth: ChatAuth,
+  sessionId: string,
+  conversation: any[],
+  answer: string,
+  onUsage?: (usage: LlmUsage) => void
+): Promise<string | null> {
+  try {
+    return await updateSessionTitleIfDefault(auth.supabaseClient, sessionId, conversation, answer, onUsage);
+  } catch (error) {
+    console.error('Error generating session title:', error);
+    return null;
+  }
+}
+
+// Columns stored with every assistant message, regardless of provider
+export function buildAssistantMessageData(data: ResponseData | null, providerName: string, params?: Record<string, any>) {
+  return {
+    search_results: data?.context?.search_results,
+    thoughts: data?.context?.thoughts,
+    supporting_content: data?.context?.supporting_content,
+    enhanced_results: data?.context?.enhanced_results,
+    document_excerpts: data?.context?.document_excerpts,
+    result: data?.context?.result,
+    raw_response: data,
+    provider: providerName,
+    usage: data?.usage,
+    ...(params?.bucketId != null && { bucket_id: String(params.bucketId) }),
+    ...(data?.contractAnalysis && { contract_analysis: data.contractAnalysis })
+  };
+}
+
+/**
+ * Fill in the options a request leaves out from the session's stored defaults
+ * (chat_sessions.default_settings); anything the request sets wins
+ */
+export function applySessionDefaults<T extends Record<string, any>>(
+  session: { default_settings?: Record<string, any> | null } | null,
+  body: T
+): T {
+  return session?.default_settings ? { ...session.default_settings, ...body } : body;
+}
+
+/**
+ * Check session access, apply the session's default settings, select the provider,
+ * assemble stored history and save the user's message. auth is required whenever the
+ * request carries a sessionId.
+ */
+export async function prepareChatTurn(
+  body: Record<string, any>,
+  options: { organizationId: string | null; auth: ChatAuth | null; userId?: string | null }
+): Promise<PreparedChatTurn> {
+  const { organizationId, auth } = options;
+  let session: any = null;
+
+  // Verify user authentication if sessionId is provided
+  if (body.sessionId) {
+    if (!auth) {
+      throw new ChatTurnError('Authentication required for session storage', 401);
+    }
+
+    // Chatting in a session adds messages to it, so viewers of a shared session can't
+    try {
+      ({ session } = await requireSessionAccess(auth.supabaseClient, body.sessionId, auth.user, 'contributor'));
+    } catch (error) {
+      if (error instanceof SessionAccessError) {
+        throw new ChatTurnError(error.message, error.status);
+      }
+      throw error;
+    }
+  }
+
+  const {
+    sessionId,
+    messages,
+    useSessionHistory,
+    historyTokenBudget,
+    provider: requestedProvider,
+    ...params
+  } = applySessionDefaults(session, body);
+  let conversation = messages;
+
+  // Select the chat provider (explicit, organization default, or the Azure backend)
+  const provider = await resolveChatProvider(requestedProvider, organizationId);
+
+  if (params.contractAnalysis === true && provider.name !== 'azure') {
+    throw new ChatTurnError('Contract analysis is only supported by the azure provider', 400);
+  }
+
+  if (useSessionHistory && !sessionId) {
+    throw new ChatTurnError('sessionId is required when useSessionHistory is enabled', 400);
+  }
+
+  if (sessionId && auth) {
+    const { user, supabaseClient } = auth;
+
+    // Prepend the stored conversation before the new turn is saved
+    if (useSessionHistory) {
+      try {
+        conversation = await assembleConversation(supabaseClient, sessionId, user, messages, historyTokenBudget);
+      } catch (error) {
+        throw new ChatTurnError('Chat session not found', 404, (error as Error).message);
+      }
+    }
+
+    // Save user message if it's the latest message and from user
+    const latestMessage = messages[messages.length - 1];
+    if (latestMessage && latestMessage.role === 'user') {
+      try {
+        await saveChatMessage(
+          supabaseClient,
+          sessionId,
+          user,
+          'user',
+          latestMessage.content
+        );
+      } catch (error) {
+        console.error('Error saving user message:', error);
+        // Continue with the request even if saving fails
+      }
+    }
+  }
+
+  const userId = options.userId ?? auth?.user.id ?? null;
+  return { provider, organizationId, sessionId, conversation, params, auth, userId };
+}
+
+/**
+ * Stream a prepared turn from its provider to emit, then send follow-ups, citations and
+ * the generated session title, and save the answer and record its LLM usage. When signal
+ * aborts, the partial answer is saved as interrupted and an 'interrupted' event is sent
+ * instead of throwing.
+ */
+export async function streamChatTurn(
+  turn: PreparedChatTurn,
+  options: { signal: AbortSignal; emit: ChatStreamEmitter }
+): Promise<{ interrupted: boolean }> {
+  const { provider, organizationId, sessionId, conversation, params, auth, userId } = turn;
+  const { signal, emit } = options;
+
+  // Collect the full response for saving
+  let fullResponse = '';
+  let responseData: any = null;
+  let answerUsage: LlmUsage[] | null = null;
+  const extraUsage: LlmUsage[] = [];
+  const startedAt = Date.now();
+
+  // The provider's reported usage, or an estimate from the text streamed so far
+  const collectUsage = (): LlmUsage[] => [
+    ...(answerUsage || (fullResponse
+      ? [estimateUsage('answer', responseData?.context?.model || provider.name, conversation, fullResponse, Date.now() - startedAt)]
+      : [])),
+    ...extraUsage
+  ];
+
+  // Persist whatever the assistant produced, flagging it when the stream was cut short
+  const saveAssistantResponse = async (interrupted: boolean): Promise<{ id: string | null } | null> => {
+    if (!sessionId || !auth || !fullResponse) {
+      return null;
+    }
+
+    const { user, supabaseClient } = auth;
+    try {
+      const message = await saveChatMessage(
+        supabaseClient,
+        sessionId,
+        user,
+        'assistant',
+        fullResponse,
+        {
+          ...buildAssistantMessageData({ ...responseData, usage: collectUsage() }, provider.name, params),
+          ...(interrupted && { interrupted: true })
+        }
+      );
+      return { id: message?.id ?? null };
+    } catch (error) {
+      console.error('Error saving streamed assistant message:', error);
+      return null;
+    }
+  };
+
+  const usageContext = (messageId: string | null) => ({
+    organizationId,
+    userId,
+    sessionId,
+    messageId,
+    provider: provider.name
+  });
+
+  try {
+    // Stream the provider's response back to client, one complete event at a time
+    const events = provider.stream(
+      { messages: conversation, params },
+      { organizationId, sessionId, signal }
+    );
+
+    for await (const event of events) {
+      if (event.event === USAGE_EVENT) {
+        answerUsage = parseEventData(event.data);
+        continue;
+      }
+
+      emit(event.data, event.event !== 'message' ? event.event : undefined);
+
+      // Collect response data for saving
+      const parsed = parseEventData(event.data);
+      if (parsed) {
+        fullResponse += extractDeltaContent(parsed);
+        // Capture final response data
+        if (parsed.context) {
+          responseData = parsed;
+        }
+      }
+    }
+
+    // Emit follow-up questions as a final event when the provider didn't supply them
+    if (params.suggestFollowUpQuestions === true && fullResponse) {
+      const followUps = await resolveFollowUpQuestions(
+        conversation,
+        fullResponse,
+        responseData?.context?.followup_questions,
+        usage => extraUsage.push(usage)
+      );
+      fullResponse = followUps.content;
+
+      if (followUps.questions.length > 0) {
+        responseData = {
+          ...responseData,
+          context: { ...responseData?.context, followup_questions: followUps.questions }
+        };
+        emit(JSON.stringify({ followup_questions: followUps.questions }), 'followups');
+      }
+    }
+
+    // Link citation markers in the complete answer to the supporting content
+    if (fullResponse) {
+      const cited = addCitations({ ...responseData, message: { content: fullResponse } });
+      responseData = { ...responseData, context: cited.context };
+      emit(JSON.stringify({
+        citations: cited.context?.citations,
+        uncited_sentences: cited.context?.uncited_sentences
+      }), 'citations');
+    }
+
+    // Save assistant response if we have sessionId and collected response
+    const saved = await saveAssistantResponse(false);
+    if (saved) {
+      const sessionTitle = await generateTitleForSession(auth!, sessionId!, conversation, fullResponse, usage => extraUsage.push(usage));
+      if (sessionTitle) {
+        emit(JSON.stringify({ sessionId, title: sessionTitle }), 'title');
+      }
+    }
+
+    void recordLlmUsage(collectUsage(), usageContext(saved?.id ?? null));
+    return { interrupted: false };
+  } catch (error) {
+    if (!signal.aborted) {
+      throw error;
+    }
+
+    // Tokens spent on a cancelled answer are still billed
+    const saved = await saveAssistantResponse(true);
+    void recordLlmUsage(collectUsage(), usageContext(saved?.id ?? null));
+    emit(JSON.stringify({ interrupted: true }), 'interrupted');
+    return { interrupted: true };
+  }
+}
@@ -0,0 +1,297 @@
+import { Server as HttpServer, IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { resolveOrganizationContext } from '../middleware/supabaseAuth';
+import { ChatProviderError } from './chatProviders';
+import { ChatAuth, ChatTurnError, verifyAccessToken, prepareChatTurn, streamChatTurn } from './chatTurn';
+import { getSessionAccess } from './sessionAccess';
+import { checkClientLimits } from './rateLimit';
+import { validateChatRequest } from '../utils/requestValidation';
+import { parseEventData } from '../utils/sseParser';
+
+export const CHAT_WEBSOCKET_PATH = '/api/chat-ws';
+
+// Close codes sent to the client (4000-4999 are reserved for applications)
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_AUTH_TIMEOUT = 4408;
+
+const AUTH_TIMEOUT_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_PAYLOAD_BYTES = 10 * 1024 * 1024;
+
+// Per-connection state; a connection can run several chat requests at once
+interface ChatConnection {
+  socket: WebSocket;
+  auth: ChatAuth | null;
+  organizationId: string | null;
+  requests: Map<string, AbortController>;
+  sessions: Set<string>;
+  // Every connection on the same server, for relaying typing indicators
+  peers: Set<ChatConnection>;
+  isAlive: boolean;
+  // Closes the connection when its access token expires
+  expiryTimer: NodeJS.Timeout | null;
+}
+
+function send(connection: ChatConnection, message: Record<string, any>) {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(JSON.stringify(message));
+  }
+}
+
+function sendError(connection: ChatConnection, requestId: string | undefined, status: number, error: string, extra?: Record<string, any>) {
+  send(connection, { type: 'error', ...(requestId && { requestId }), status, error, ...extra });
+}
+
+// Browsers can't set headers on WebSocket requests, so the token may also come from ?token=
+function getHandshakeToken(request: IncomingMessage): string | null {
+  const authHeader = request.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+  const url = new URL(request.url || '', 'http://localhost');
+  return url.searchParams.get('token');
+}
+
+async function authenticate(connection: ChatConnection, token: string): Promise<boolean> {
+  const auth = await verifyAccessToken(token);
+  if (!auth) {
+    sendError(connection, undefined, 401, 'Invalid or expired token');
+    connection.socket.close(CLOSE_UNAUTHORIZED, 'Unauthorized');
+    return false;
+  }
+
+  try {
+    const { organizationContext } = await resolveOrganizationContext(auth.user);
+    connection.organizationId = organizationContext.activeOrganizationId || null;
+  } catch (error) {
+    console.warn('Could not resolve organization for chat socket:', error);
+  }
+
+  connection.auth = auth;
+  // The token is only checked once, so the connection can't outlive it; clients reconnect with a fresh one
+  if (auth.expiresAt) {
+    connection.expiryTimer = setTimeout(() => {
+      sendError(connection, undefined, 401, 'Token expired');
+      connection.socket.close(CLOSE_UNAUTHORIZED, 'Token expired');
+    }, Math.max(0, auth.expiresAt - Date.now()));
+  }
+  send(connection, { type: 'ready', userId: auth.user.id, organizationId: connection.organizationId });
+  return true;
+}
+
+// Run one chat request, relaying every stream event tagged with its requestId
+async function handleChat(connection: ChatConnection, requestId: string, body: unknown) {
+  if (connection.requests.has(requestId)) {
+    return sendError(connection, requestId, 409, 'A request with this requestId is already running');
+  }
+
+  const { issues, value } = validateChatRequest(body);
+  if (issues.length > 0) {
+    return sendError(connection, requestId, 400, 'Invalid request body', { details: issues });
+  }
+
+  // Registered before the first await so a second frame with the same requestId is refused
+  const abortController = new AbortController();
+  connection.requests.set(requestId, abortController);
+  let release = () => {};
+
+  try {
+    // Each chat request counts against the same limits as /api/chat-stream
+    const limitCheck = await checkClientLimits({ organizationId: connection.organizationId, userId: connection.auth?.user.id || null });
+    if (!limitCheck.allowed) {
+      return sendError(connection, requestId, limitCheck.status, limitCheck.error, { details: limitCheck.details });
+    }
+    release = limitCheck.release;
+
+    const turn = await prepareChatTurn(value, { organizationId: connection.organizationId, auth: connection.auth });
+
+    send(connection, { type: 'start', requestId, provider: turn.provider.name });
+
+    const { interrupted } = await streamChatTurn(turn, {
+      signal: abortController.signal,
+      emit: (data, event) => send(connection, {
+        type: 'event',
+        requestId,
+        event: event || 'message',
+        data: parseEventData(data) ?? data
+      })
+    });
+
+    send(connection, { type: 'done', requestId, interrupted });
+  } catch (error) {
+    if (error instanceof ChatProviderError || error instanceof ChatTurnError) {
+      sendError(connection, requestId, error.status, error.message, error.details ? { message: error.details } : undefined);
+    } else {
+      console.error('Chat socket request error:', error);
+      sendError(connection, requestId, 500, 'Stream failed');
+    }
+  } finally {
+    connection.requests.delete(requestId);
+    release();
+  }
+}
+
+// Only users who can see the session (owner or shared) may receive its typing indicators
+async function joinSession(connection: ChatConnection, sessionId: string) {
+  const { user, supabaseClient } = connection.auth!;
+  const access = await getSessionAccess(supabaseClient, sessionId, user);
+
+  if (!access) {
+    return sendError(connection, undefined, 404, 'Chat session not found', { sessionId });
+  }
+
+  connection.sessions.add(sessionId);
+  send(connection, { type: 'joined', sessionId, role: access.role });
+}
+
+// Relay a typing indicator to the other connections watching the session
+function relayTyping(connection: ChatConnection, sessionId: string, isTyping: boolean) {
+  if (!connection.sessions.has(sessionId)) {
+    return sendError(connection, undefined, 403, 'Join the session before sending typing indicators', { sessionId });
+  }
+
+  for (const other of connection.peers) {
+    if (other !== connection && other.sessions.has(sessionId)) {
+      send(other, { type: 'typing', sessionId, userId: connection.auth!.user.id, isTyping });
+    }
+  }
+}
+
+async function handleMessage(connection: ChatConnection, raw: RawData) {
+  let message: any;
+  try {
+    message = JSON.parse(raw.toString());
+  } catch (error) {
+    return sendError(connection, undefined, 400, 'Messages must be JSON objects');
+  }
+
+  if (!message || typeof message !== 'object' || typeof message.type !== 'string') {
+    return sendError(connection, undefined, 400, 'Messages must have a type');
+  }
+
+  if (!connection.auth) {
+    if (message.type === 'auth' && typeof message.token === 'string') {
+      await authenticate(connection, message.token);
+    } else {
+      sendError(connection, undefined, 401, 'Authenticate first with { "type": "auth", "token": "<access token>" }');
+    }
+    return;
+  }
+
+  const { requestId, sessionId } = message;
+  const needsRequestId = message.type === 'chat' || message.type === 'cancel';
+  if (needsRequestId && (typeof requestId !== 'string' || !requestId)) {
+    return sendError(connection, undefined, 400, 'requestId is required');
+  }
+  if ((message.type === 'join' || message.type === 'leave' || message.type === 'typing') && typeof sessionId !== 'string') {
+    return sendError(connection, undefined, 400, 'sessionId is required');
+  }
+
+  switch (message.type) {
+    case 'chat':
+      return handleChat(connection, requestId, message.body);
+    case 'cancel': {
+      const abortController = connection.requests.get(requestId);
+      abortController?.abort();
+      return send(connection, { type: 'cancelled', requestId, cancelled: !!abortController });
+    }
+    case 'join':
+      return joinSession(connection, sessionId);
+    case 'leave':
+      connection.sessions.delete(sessionId);
+      return send(connection, { type: 'left', sessionId });
+    case 'typing':
+      return relayTyping(connection, sessionId, message.isTyping !== false);
+    case 'ping':
+      return send(connection, { type: 'pong' });
+    case 'auth':
+      return sendError(connection, undefined, 400, 'Already authenticated');
+    default:
+      return sendError(connection, undefined, 400, `Unknown message type: ${message.type}`);
+  }
+}
+
+/**
+ * Serve chat over WebSocket at /api/chat-ws on the given HTTP server. Clients authenticate
+ * with their Supabase access token (Authorization header, ?token= or a first
+ * { type: 'auth' } message), then multiplex chat requests by requestId.
+ */
+export function attachChatWebSocket(server: HttpServer): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: CHAT_WEBSOCKET_PATH, maxPayload: MAX_PAYLOAD_BYTES });
+  const connections = new Set<ChatConnection>();
+
+  wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+    const connection: ChatConnection = {
+      socket,
+      auth: null,
+      organizationId: null,
+      requests: new Map(),
+      sessions: new Set(),
+      peers: connections,
+      isAlive: true,
+      expiryTimer: null
+    };
+    connections.add(connection);
+
+    const authTimer = setTimeout(() => {
+      if (!connection.auth) {
+        sendError(connection, undefined, 401, 'Authentication timed out');
+        socket.close(CLOSE_AUTH_TIMEOUT, 'Authentication timed out');
+      }
+    }, AUTH_TIMEOUT_MS);
+
+    // Until the connection is authenticated, messages wait for the previous one so a chat
+    // sent right after { type: 'auth' } sees the result; afterwards chats run concurrently
+    let queue = Promise.resolve();
+    socket.on('message', (raw: RawData) => {
+      queue = queue.then(() => {
+        const handled = handleMessage(connection, raw).catch(error => {
+          console.error('Chat socket message error:', error);
+        });
+        return connection.auth ? undefined : handled;
+      });
+    });
+
+    socket.on('pong', () => {
+      connection.isAlive = true;
+    });
+
+    socket.on('close', () => {
+      clearTimeout(authTimer);
+      if (connection.expiryTimer) {
+        clearTimeout(connection.expiryTimer);
+      }
+      connections.delete(connection);
+      // Stop generating for a client that is gone; partial answers are saved as interrupted
+      for (const abortController of connection.requests.values()) {
+        abortController.abort();
+      }
+    });
+
+    const token = getHandshakeToken(request);
+    if (token) {
+      queue = queue.then(async () => {
+        await authenticate(connection, token);
+      });
+    }
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const connection of connections) {
+      if (!connection.isAlive) {
+        connection.socket.terminate();
+        continue;
+      }
+      connection.isAlive = false;
+      connection.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  // The heartbeat alone shouldn't keep the process alive
+  heartbeat.unref();
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  console.log(`Chat WebSocket listening on ${CHAT_WEBSOCKET_PATH}`);
+  return wss;
+}
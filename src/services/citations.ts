@@ -0,0 +1,203 @@
+import { ResponseData } from '../types/chat';
+
+// A source an answer can cite, normalized from GroundX, Kernel Memory or Azure data points
+export interface CitationSource {
+  id?: string;
+  fileName?: string;
+  page?: number;
+  boundingBoxes?: any[];
+  text?: string;
+}
+
+export interface Citation {
+  marker: string;
+  start: number;
+  end: number;
+  sourceIndex: number | null;
+  id?: string;
+  fileName?: string;
+  page?: number;
+  boundingBoxes?: any[];
+}
+
+export interface UncitedSentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface CitationResult {
+  citations: Citation[];
+  uncitedSentences: UncitedSentence[];
+}
+
+// [1], [1, 2] or [file.pdf#page=3]; markdown links ([text](url)) are not citations
+const MARKER_PATTERN = /\[([^\[\]\n]{1,200})\](?!\()/g;
+const NUMERIC_MARKER = /^\d+(?:\s*,\s*\d+)*$/;
+const PAGE_SUFFIX = /#page=(\d+)$/;
+
+function parsePage(value: unknown): number | undefined {
+  const page = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isInteger(page) && page > 0 ? page : undefined;
+}
+
+// Split "file.pdf#page=3" into its file name and page
+function splitSourceLabel(label: string): { fileName: string; page?: number } {
+  const match = label.match(PAGE_SUFFIX);
+  return match
+    ? { fileName: label.substring(0, match.index), page: parsePage(match[1]) }
+    : { fileName: label };
+}
+
+function normalizeSource(raw: any): CitationSource | null {
+  // Azure data points: "file.pdf#page=3: content"
+  if (typeof raw === 'string') {
+    const separator = raw.indexOf(': ');
+    const label = separator === -1 ? raw : raw.substring(0, separator);
+    return {
+      ...splitSourceLabel(label.trim()),
+      text: separator === -1 ? undefined : raw.substring(separator + 2)
+    };
+  }
+
+  if (typeof raw !== 'object' || raw === null) {
+    return null;
+  }
+
+  const label = raw.fileName || raw.sourceName || raw.sourcepage || raw.title;
+  const { fileName, page: labelPage } = label ? splitSourceLabel(String(label)) : { fileName: undefined, page: undefined };
+  const boundingBoxes = Array.isArray(raw.boundingBoxes) ? raw.boundingBoxes : undefined;
+
+  return {
+    id: raw.id || raw.documentId,
+    fileName,
+    page: labelPage ?? parsePage(raw.page ?? raw.metadata?.page) ?? parsePage(boundingBoxes?.[0]?.pageNumber),
+    boundingBoxes,
+    text: raw.text || raw.content || raw.partitions?.[0]?.text
+  };
+}
+
+/**
+ * Normalize the supporting content of any provider into an ordered source list,
+ * so [n] refers to sources[n - 1]
+ */
+export function normalizeCitationSources(raw: unknown): CitationSource[] {
+  const items = Array.isArray(raw)
+    ? raw
+    : Array.isArray((raw as any)?.text) ? (raw as any).text : [];
+
+  return items
+    .map(normalizeSource)
+    .filter((source: CitationSource | null): source is CitationSource => source !== null);
+}
+
+function toCitation(marker: string, start: number, end: number, sources: CitationSource[], sourceIndex: number): Citation {
+  const source = sources[sourceIndex];
+  if (!source) {
+    return { marker, start, end, sourceIndex: null };
+  }
+
+  return {
+    marker,
+    start,
+    end,
+    sourceIndex,
+    ...(source.id && { id: source.id }),
+    ...(source.fileName && { fileName: source.fileName }),
+    ...(source.page && { page: source.page }),
+    ...(source.boundingBoxes && { boundingBoxes: source.boundingBoxes })
+  };
+}
+
+// Resolve a named marker against source labels, preferring an exact file and page match
+function findNamedSource(name: string, sources: CitationSource[]): number {
+  const { fileName, page } = splitSourceLabel(name.trim());
+  const exact = sources.findIndex(source => source.fileName === fileName && (page === undefined || source.page === page));
+  return exact !== -1 ? exact : sources.findIndex(source => source.fileName === fileName);
+}
+
+// Sentence spans; a marker right after the closing punctuation still belongs to that sentence
+function splitSentences(answer: string): UncitedSentence[] {
+  const sentences: UncitedSentence[] = [];
+  const boundary = /(?<=[.!?](?:\s*\[[^\[\]\n]*\])*)\s+(?!\[)|\n+/g;
+  let start = 0;
+
+  const pushSentence = (end: number) => {
+    const raw = answer.substring(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const text = raw.trim();
+    if (text) {
+      sentences.push({ text, start: start + leading, end: start + leading + text.length });
+    }
+  };
+
+  for (const match of answer.matchAll(boundary)) {
+    pushSentence(match.index!);
+    start = match.index! + match[0].length;
+  }
+  pushSentence(answer.length);
+
+  return sentences;
+}
+
+// Headings, list intros and fragments without words don't need a citation
+function needsCitation(sentence: string): boolean {
+  return /[a-z0-9]/i.test(sentence) && !sentence.startsWith('#') && !sentence.endsWith(':');
+}
+
+/**
+ * Parse citation markers out of an answer, map them to their sources and list the
+ * sentences that cite nothing. Offsets are character positions in the answer.
+ */
+export function extractCitations(answer: string, sources: CitationSource[]): CitationResult {
+  const citations: Citation[] = [];
+
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    const inner = match[1].trim();
+    const start = match.index!;
+    const end = start + match[0].length;
+
+    if (NUMERIC_MARKER.test(inner)) {
+      // [1, 2] cites two sources from the same span
+      for (const number of inner.split(',')) {
+        citations.push(toCitation(match[0], start, end, sources, parseInt(number, 10) - 1));
+      }
+      continue;
+    }
+
+    const sourceIndex = findNamedSource(inner, sources);
+    if (sourceIndex !== -1) {
+      citations.push(toCitation(match[0], start, end, sources, sourceIndex));
+    }
+  }
+
+  const uncitedSentences = splitSentences(answer).filter(sentence =>
+    needsCitation(sentence.text) &&
+    !citations.some(citation => citation.start >= sentence.start && citation.start < sentence.end)
+  );
+
+  return { citations, uncitedSentences };
+}
+
+/**
+ * Add context.citations and context.uncited_sentences to a chat response, using the
+ * provider's supporting content (or Azure data points) as the source list
+ */
+export function addCitations(data: ResponseData): ResponseData {
+  const answer = data.message?.content;
+  if (!answer) {
+    return data;
+  }
+
+  const sources = normalizeCitationSources(data.context?.supporting_content ?? data.context?.data_points);
+  const { citations, uncitedSentences } = extractCitations(answer, sources);
+
+  return {
+    ...data,
+    context: {
+      ...data.context,
+      citations,
+      uncited_sentences: uncitedSentences
+    }
+  };
+}
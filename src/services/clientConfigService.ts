@@ -13,6 +13,7 @@ export interface ClientConfiguration {
     chat_endpoint?: string;
     content_endpoint?: string;
     analyze_endpoint?: string;
+    default_provider?: 'azure' | 'openai' | 'groundx' | 'kernel-memory' | 'database-manager';
   };
   
   // Azure/Authentication Configuration
@@ -45,8 +46,19 @@ export interface ClientConfiguration {
   limits: {
     requests_per_minute?: number;
     requests_per_day?: number;
+    // Each user's share of the organization's allowance
+    user_requests_per_minute?: number;
+    user_requests_per_day?: number;
     max_file_size_mb?: number;
+    // Not enforced by the gateway; concurrency is limited per in-flight request by max_concurrent_requests
     max_concurrent_sessions?: number;
+    max_concurrent_requests?: number;
+  };
+  
+  // Chat History Retention
+  retention?: {
+    deleted_session_days?: number; // days a deleted session stays in the trash
+    stale_session_days?: number; // idle days before a session is moved to the trash
   };
   
   // Metadata
@@ -80,8 +92,11 @@ export const DEFAULT_CLIENT_CONFIGS: Record<string, Partial<ClientConfiguration>
     limits: {
       requests_per_minute: 60,
       requests_per_day: 1000,
+      user_requests_per_minute: 20,
+      user_requests_per_day: 250,
       max_file_size_mb: 10,
       max_concurrent_sessions: 5,
+      max_concurrent_requests: 5,
     },
   },
   premium: {
@@ -96,8 +111,11 @@ export const DEFAULT_CLIENT_CONFIGS: Record<string, Partial<ClientConfiguration>
     limits: {
       requests_per_minute: 120,
       requests_per_day: 5000,
+      user_requests_per_minute: 30,
+      user_requests_per_day: 1000,
       max_file_size_mb: 50,
       max_concurrent_sessions: 20,
+      max_concurrent_requests: 20,
     },
   },
   enterprise: {
@@ -112,8 +130,11 @@ export const DEFAULT_CLIENT_CONFIGS: Record<string, Partial<ClientConfiguration>
     limits: {
       requests_per_minute: 300,
       requests_per_day: 25000,
+      user_requests_per_minute: 60,
+      user_requests_per_day: 2500,
       max_file_size_mb: 100,
       max_concurrent_sessions: 100,
+      max_concurrent_requests: 100,
     },
   },
 };
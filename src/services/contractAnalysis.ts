@@ -0,0 +1,277 @@
+import { ChatBackend } from './chatBackend';
+import { resilientFetch, UpstreamUnavailableError } from './resilientFetch';
+import {
+  ContractAnalysis,
+  ContractDocument,
+  FinancialProvisions,
+  ResponseData,
+  RiskAllocation
+} from '../types/chat';
+
+export interface ContractAnalysisOptions {
+  backend: ChatBackend;
+  token: string;
+  messages: any[];
+  contractName?: string;
+  analysisPrompt?: string;
+  params?: Record<string, any>;
+}
+
+export type ContractAnalysisResult =
+  | { success: true; data: ResponseData }
+  | { success: false; status: number; error: string; details?: string[]; retryAfterMs?: number };
+
+const ANALYSIS_FIELDS = [
+  'contractDocuments',
+  'financialProvisions',
+  'riskAllocation',
+  'complianceRequirements',
+  'summary'
+];
+
+/**
+ * Instructions appended to the conversation so the backend answers with a ContractAnalysis JSON object
+ */
+export function buildContractAnalysisPrompt(contractName?: string, analysisPrompt?: string): string {
+  const subject = contractName ? `the contract "${contractName}"` : 'the contract discussed above';
+
+  return `${analysisPrompt || `Analyze ${subject}.`}
+
+Respond with a single JSON object and no other text, using exactly this structure:
+{
+  "contractName": string,
+  "summary": string,
+  "contractDocuments": [{ "title": string, "sections": [{ "sectionTitle": string, "content": string }] }],
+  "financialProvisions": { "<provision name>": string or string[] },
+  "riskAllocation": { "<risk>": "<party responsible and how>" },
+  "complianceRequirements": string[]
+}
+Omit any field the documents do not support. Quote amounts, percentages and deadlines exactly as written.`;
+}
+
+/**
+ * Pull a JSON object out of model output, tolerating markdown code fences and surrounding prose
+ */
+export function extractJsonObject(text: string): any | null {
+  if (!text) {
+    return null;
+  }
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(candidate.substring(start, end + 1));
+  } catch (error) {
+    return null;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return null;
+}
+
+/**
+ * Validate and normalize raw backend output into a ContractAnalysis
+ */
+export function validateContractAnalysis(
+  raw: unknown,
+  fallbackContractName?: string
+): { valid: boolean; errors: string[]; analysis?: ContractAnalysis } {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    return { valid: false, errors: ['Contract analysis must be a JSON object'] };
+  }
+
+  if (!ANALYSIS_FIELDS.some(field => raw[field] !== undefined && raw[field] !== null)) {
+    return { valid: false, errors: [`Contract analysis must include at least one of: ${ANALYSIS_FIELDS.join(', ')}`] };
+  }
+
+  const analysis: ContractAnalysis = {};
+
+  const contractName = toText(raw.contractName) || fallbackContractName;
+  if (contractName) {
+    analysis.contractName = contractName;
+  }
+
+  if (raw.summary !== undefined) {
+    const summary = toText(raw.summary);
+    if (summary === null) {
+      errors.push('summary must be a string');
+    } else {
+      analysis.summary = summary;
+    }
+  }
+
+  if (raw.contractDocuments !== undefined) {
+    if (!Array.isArray(raw.contractDocuments)) {
+      errors.push('contractDocuments must be an array');
+    } else {
+      const documents: ContractDocument[] = [];
+      raw.contractDocuments.forEach((document: any, index: number) => {
+        if (!isPlainObject(document) || !toText(document.title)) {
+          errors.push(`contractDocuments[${index}].title is required`);
+          return;
+        }
+        const sections = Array.isArray(document.sections) ? document.sections : [];
+        documents.push({
+          title: toText(document.title)!,
+          sections: sections
+            .filter((section: any) => isPlainObject(section))
+            .map((section: any) => ({
+              sectionTitle: toText(section.sectionTitle) || '',
+              content: toText(section.content) || ''
+            }))
+        });
+      });
+      analysis.contractDocuments = documents;
+    }
+  }
+
+  if (raw.financialProvisions !== undefined) {
+    if (!isPlainObject(raw.financialProvisions)) {
+      errors.push('financialProvisions must be an object');
+    } else {
+      const provisions: FinancialProvisions = {};
+      for (const [key, value] of Object.entries(raw.financialProvisions)) {
+        if (Array.isArray(value)) {
+          provisions[key] = value.map(toText).filter((item): item is string => item !== null);
+        } else if (toText(value) !== null) {
+          provisions[key] = toText(value)!;
+        } else {
+          errors.push(`financialProvisions.${key} must be a string or an array of strings`);
+        }
+      }
+      analysis.financialProvisions = provisions;
+    }
+  }
+
+  if (raw.riskAllocation !== undefined) {
+    if (!isPlainObject(raw.riskAllocation)) {
+      errors.push('riskAllocation must be an object');
+    } else {
+      const allocation: RiskAllocation = {};
+      for (const [key, value] of Object.entries(raw.riskAllocation)) {
+        if (Array.isArray(value)) {
+          allocation[key] = value.map(toText).filter(item => item !== null).join('; ');
+        } else if (toText(value) !== null) {
+          allocation[key] = toText(value)!;
+        } else {
+          errors.push(`riskAllocation.${key} must be a string`);
+        }
+      }
+      analysis.riskAllocation = allocation;
+    }
+  }
+
+  if (raw.complianceRequirements !== undefined) {
+    if (Array.isArray(raw.complianceRequirements)) {
+      analysis.complianceRequirements = raw.complianceRequirements
+        .map(toText)
+        .filter((item: string | null): item is string => !!item);
+    } else if (toText(raw.complianceRequirements) !== null) {
+      analysis.complianceRequirements = toText(raw.complianceRequirements)!;
+    } else {
+      errors.push('complianceRequirements must be a string or an array of strings');
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, errors: [], analysis };
+}
+
+/**
+ * Run the contract analysis pipeline against the organization's analyze endpoint
+ * (or its chat endpoint when none is configured) and return a validated analysis
+ */
+export async function runContractAnalysis(options: ContractAnalysisOptions): Promise<ContractAnalysisResult> {
+  const { backend, token, messages, contractName, analysisPrompt, params } = options;
+  const targetUrl = `${backend.apiUrl}${backend.analyzeEndpoint ?? backend.chatEndpoint}`;
+
+  console.log(`Running contract analysis via: ${targetUrl}`);
+
+  let response: Response;
+  try {
+    response = await resilientFetch(targetUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        'User-Agent': 'Express-Backend/1.0'
+      },
+      body: JSON.stringify({
+        ...params,
+        messages: [
+          ...messages,
+          { role: 'user', content: buildContractAnalysisPrompt(contractName, analysisPrompt) }
+        ],
+        ...(contractName && { contractName })
+      })
+    }, { circuit: backend.circuit });
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) {
+      return {
+        success: false,
+        status: error.status,
+        error: error.status === 504 ? 'Chat backend timed out' : 'Chat backend unavailable',
+        details: [error.message],
+        retryAfterMs: error.retryAfterMs
+      };
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    return {
+      success: false,
+      status: response.status,
+      error: `Backend API error: ${response.status}`,
+      details: [response.statusText]
+    };
+  }
+
+  const data = await response.json() as any;
+
+  // Prefer a structured analysis from the backend, otherwise parse the model's JSON answer
+  const rawAnalysis = data.contractAnalysis ?? extractJsonObject(data.message?.content || '');
+  const validation = validateContractAnalysis(rawAnalysis, contractName);
+
+  if (!validation.valid || !validation.analysis) {
+    console.error('Invalid contract analysis from backend:', validation.errors);
+    return {
+      success: false,
+      status: 502,
+      error: 'Invalid contract analysis from backend',
+      details: validation.errors
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      message: {
+        content: validation.analysis.summary || `Contract analysis completed${contractName ? ` for ${contractName}` : ''}.`
+      },
+      contractAnalysis: validation.analysis,
+      context: data.context
+    }
+  };
+}
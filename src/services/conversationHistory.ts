@@ -0,0 +1,120 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SessionUser, requireSessionAccess } from './sessionAccess';
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+const DEFAULT_HISTORY_TOKEN_BUDGET = 3000;
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and separator tokens per message
+
+/**
+ * Rough token estimate for a message; good enough for budgeting history without a tokenizer
+ */
+export function estimateTokens(message: ChatHistoryMessage): number {
+  return Math.ceil((message.content || '').length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function getHistoryTokenBudget(requestedBudget?: number): number {
+  if (typeof requestedBudget === 'number' && requestedBudget > 0) {
+    return Math.floor(requestedBudget);
+  }
+  return parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '', 10) || DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+/**
+ * Reduce stored rows to the session's main line: a regenerated answer (alternative_of set)
+ * takes the place of the answer it replaces, and the newest alternative wins. Rows must be
+ * ordered oldest first.
+ */
+export function collapseAlternatives<T extends { id?: string; alternative_of?: string | null }>(messages: T[]): T[] {
+  const mainLine: T[] = [];
+  const positions = new Map<string, number>();
+
+  for (const message of messages) {
+    const position = message.alternative_of ? positions.get(message.alternative_of) : undefined;
+    if (position !== undefined) {
+      mainLine[position] = message;
+    } else if (!message.alternative_of) {
+      if (message.id) {
+        positions.set(message.id, mainLine.length);
+      }
+      mainLine.push(message);
+    }
+  }
+
+  return mainLine;
+}
+
+/**
+ * Load the stored user/assistant turns of a session, oldest first
+ */
+export async function loadSessionHistory(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  user: SessionUser
+): Promise<ChatHistoryMessage[]> {
+  await requireSessionAccess(supabaseClient, sessionId, user, 'viewer');
+
+  const { data: messages, error } = await supabaseClient
+    .from('chat_messages')
+    .select('id, role, content, alternative_of')
+    .eq('session_id', sessionId)
+    .in('role', ['user', 'assistant'])
+    .order('timestamp', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load chat history: ${error.message}`);
+  }
+
+  return collapseAlternatives(messages || [])
+    .filter((message: any) => typeof message.content === 'string' && message.content.length > 0)
+    .map((message: any) => ({ role: message.role, content: message.content }));
+}
+
+/**
+ * Keep the most recent turns that fit in the token budget, never starting on an assistant turn
+ */
+export function trimHistoryToBudget(history: ChatHistoryMessage[], tokenBudget: number): ChatHistoryMessage[] {
+  const trimmed: ChatHistoryMessage[] = [];
+  let usedTokens = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(history[i]);
+    if (usedTokens + tokens > tokenBudget) {
+      break;
+    }
+    trimmed.unshift(history[i]);
+    usedTokens += tokens;
+  }
+
+  while (trimmed.length > 0 && trimmed[0].role === 'assistant') {
+    trimmed.shift();
+  }
+
+  return trimmed;
+}
+
+/**
+ * Build the full conversation for a session-bound request from stored history plus the new turn(s)
+ */
+export async function assembleConversation(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  user: SessionUser,
+  newMessages: ChatHistoryMessage[],
+  requestedBudget?: number
+): Promise<ChatHistoryMessage[]> {
+  const history = await loadSessionHistory(supabaseClient, sessionId, user);
+
+  // The new turn always goes through; history fills whatever budget remains
+  const newMessageTokens = newMessages.reduce((total, message) => total + estimateTokens(message), 0);
+  const historyBudget = Math.max(getHistoryTokenBudget(requestedBudget) - newMessageTokens, 0);
+  const trimmedHistory = trimHistoryToBudget(history, historyBudget);
+
+  console.log(`Assembled ${trimmedHistory.length} of ${history.length} stored messages for session ${sessionId}`);
+
+  return [...trimmedHistory, ...newMessages];
+}
@@ -0,0 +1,36 @@
+// Database Manager configuration
+export const DATABASE_MANAGER_BASE_URL = process.env.DATABASE_MANAGER_BASE_URL || 'https://databasemanager2.azurewebsites.net';
+export const DATABASE_MANAGER_API_KEY = process.env.DATABASE_MANAGER_API_KEY; // May be required
+
+/**
+ * Build a Database Manager URL, using query parameter authentication when an API key is configured
+ */
+export function getDatabaseManagerUrl(path: string): string {
+  return DATABASE_MANAGER_API_KEY
+    ? `${DATABASE_MANAGER_BASE_URL}${path}?code=${DATABASE_MANAGER_API_KEY}`
+    : `${DATABASE_MANAGER_BASE_URL}${path}`;
+}
+
+/**
+ * Send a message to the Database Manager chat endpoint
+ */
+export async function sendDatabaseManagerChat(
+  payload: { message: string; session_id?: string; context?: any },
+  signal?: AbortSignal
+): Promise<Response> {
+  const chatPayload = {
+    message: payload.message,
+    ...(payload.session_id && { session_id: payload.session_id }),
+    ...(payload.context && { context: payload.context })
+  };
+
+  return fetch(getDatabaseManagerUrl('/api/chat'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify(chatPayload),
+    ...(signal && { signal })
+  });
+}
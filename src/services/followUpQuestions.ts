@@ -0,0 +1,119 @@
+import { getOpenAIClient } from './openaiClient';
+import { usageFromCompletion } from './llmUsage';
+import { LlmUsage, ResponseData } from '../types/chat';
+
+const DEFAULT_FOLLOWUP_MODEL = 'gpt-4o-mini';
+const DEFAULT_FOLLOWUP_COUNT = 3;
+
+/**
+ * Split `<<question>>` markers (the Azure sample app's follow-up format) out of an answer
+ */
+export function extractFollowUpQuestions(content: string): { content: string; questions: string[] } {
+  const questions: string[] = [];
+  const stripped = content.replace(/<<([^<>]+)>>/g, (match, question: string) => {
+    questions.push(question.trim());
+    return '';
+  });
+
+  return {
+    content: questions.length > 0 ? stripped.trim() : content,
+    questions
+  };
+}
+
+/**
+ * Ask the model for short follow-up questions the user could ask next; onUsage receives
+ * the tokens the call used
+ */
+export async function generateFollowUpQuestions(
+  question: string,
+  answer: string,
+  count: number = DEFAULT_FOLLOWUP_COUNT,
+  onUsage?: (usage: LlmUsage) => void
+): Promise<string[]> {
+  if (!answer.trim()) {
+    return [];
+  }
+
+  try {
+    const request = {
+      model: process.env.OPENAI_FOLLOWUP_MODEL || DEFAULT_FOLLOWUP_MODEL,
+      messages: [
+        {
+          role: 'system' as const,
+          content: `Suggest ${count} short follow-up questions the user is likely to ask next, based only on the conversation below. Return one question per line with no numbering or extra text.`
+        },
+        { role: 'user' as const, content: `Question: ${question}\n\nAnswer: ${answer}` }
+      ],
+      temperature: 0.3,
+      max_tokens: 200
+    };
+    const startedAt = Date.now();
+    const completion = await getOpenAIClient().chat.completions.create(request);
+    onUsage?.(usageFromCompletion('follow_up', completion, request, startedAt));
+
+    const text = completion.choices[0]?.message?.content || '';
+    return text
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(line => line.length > 0)
+      .slice(0, count);
+  } catch (error) {
+    console.error('Error generating follow-up questions:', error);
+    return [];
+  }
+}
+
+/**
+ * Resolve follow-up questions for an answer: keep the upstream's, parse inline markers,
+ * or generate them as a last resort. Returns the answer with markers removed.
+ */
+export async function resolveFollowUpQuestions(
+  messages: Array<{ role: string; content: string }>,
+  answer: string,
+  upstreamQuestions?: string[],
+  onUsage?: (usage: LlmUsage) => void
+): Promise<{ content: string; questions: string[] }> {
+  const extracted = extractFollowUpQuestions(answer);
+
+  if (Array.isArray(upstreamQuestions) && upstreamQuestions.length > 0) {
+    return { content: extracted.content, questions: upstreamQuestions };
+  }
+  if (extracted.questions.length > 0) {
+    return extracted;
+  }
+
+  const latestQuestion = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+  return {
+    content: extracted.content,
+    questions: await generateFollowUpQuestions(latestQuestion, extracted.content, DEFAULT_FOLLOWUP_COUNT, onUsage)
+  };
+}
+
+/**
+ * Fill in context.followup_questions on a non-streaming response when the upstream left them
+ * out, adding the usage of generating them to data.usage
+ */
+export async function addFollowUpQuestions(
+  data: ResponseData,
+  messages: Array<{ role: string; content: string }>
+): Promise<ResponseData> {
+  if (!data.message?.content) {
+    return data;
+  }
+
+  const usage = [...(data.usage || [])];
+  const { content, questions } = await resolveFollowUpQuestions(
+    messages,
+    data.message.content,
+    data.context?.followup_questions,
+    followUpUsage => usage.push(followUpUsage)
+  );
+
+  return {
+    ...data,
+    ...(usage.length > 0 && { usage }),
+    message: { ...data.message, content },
+    context: { ...data.context, followup_questions: questions }
+  };
+}
@@ -0,0 +1,280 @@
+import { GroundXClient } from "groundx";
+import { getOpenAIClient } from './openaiClient';
+import { usageFromCompletion } from './llmUsage';
+import { LlmUsage } from '../types/chat';
+import { Citation, UncitedSentence, extractCitations, normalizeCitationSources } from './citations';
+
+// Lazy-initialize GroundX client
+let groundxClient: GroundXClient | null = null;
+
+export function getGroundXClient(): GroundXClient {
+  if (!groundxClient) {
+    if (!process.env.GROUNDX_API_KEY) {
+      throw new Error('GROUNDX_API_KEY environment variable is required');
+    }
+    console.log('Initializing GroundX client with API key:', process.env.GROUNDX_API_KEY ? 'present' : 'missing');
+    groundxClient = new GroundXClient({
+      apiKey: process.env.GROUNDX_API_KEY,
+    });
+  }
+  return groundxClient;
+}
+
+// Types
+export interface SearchResultItem {
+  documentId?: string;
+  fileName?: string;
+  score?: number;
+  relevanceScore?: number;
+  rankingScore?: number;
+  text?: string;
+  metadata?: Record<string, any>;
+  highlight?: {
+    text?: string[];
+  };
+  searchData?: Record<string, any>;
+  sourceUrl?: string;
+  suggestedText?: string;
+}
+
+export interface RagSource {
+  id?: string;
+  fileName?: string;
+  text?: string;
+  metadata?: Record<string, any>;
+  sourceUrl?: string;
+  score?: number;
+  rawScore?: number;
+  scoreSource?: string;
+  highlights?: string[];
+  hasXray?: boolean;
+  pageImages?: string[];
+  narrative?: string[];
+  searchData?: {
+    date_uploaded?: string;
+    document_type?: string;
+    key?: string;
+    [key: string]: any;
+  };
+  boundingBoxes?: Array<{
+    bottomRightX: number;
+    bottomRightY: number;
+    pageNumber: number;
+    topLeftX: number;
+    topLeftY: number;
+    corrected: boolean;
+  }>;
+  json?: any[];
+  fileKeywords?: string;
+  bucketId?: number;
+  multimodalUrl?: string;
+}
+
+export interface RagResponse {
+  success: boolean;
+  timestamp: string;
+  query?: string;
+  response: string;
+  thoughts?: string;
+  searchResults: {
+    count: number;
+    sources: RagSource[];
+  };
+  citations?: Citation[];
+  uncitedSentences?: UncitedSentence[];
+  executionTime?: {
+    totalMs: number;
+    searchMs: number;
+    llmMs: number;
+  };
+  usage?: LlmUsage[];
+  error?: string;
+}
+
+export interface RagOptions {
+  query: string;
+  bucketId: string | number;
+  messages?: Array<{ role: string; content: string }>;
+  limit?: number;
+  includeThoughts?: boolean;
+  temperature?: number;
+  conversationContext?: boolean;
+}
+
+// Utility functions
+export function extractBestScore(result: SearchResultItem): { score: number, source: string } {
+  const scoreFields = {
+    primaryScore: result.score,
+    relevanceScore: result.relevanceScore,
+    rankingScore: result.rankingScore,
+    metadataScore: result.metadata?.score,
+    searchDataScore: result.searchData?.score
+  };
+
+  // Try to find the best score
+  for (const [source, score] of Object.entries(scoreFields)) {
+    if (typeof score === 'number' && !isNaN(score)) {
+      return { score, source };
+    }
+  }
+
+  return { score: 0, source: 'default' };
+}
+
+/**
+ * Search a GroundX bucket and answer the query with OpenAI using the results as cited context
+ */
+export async function runGroundXRag(options: RagOptions): Promise<RagResponse> {
+  const {
+    query,
+    bucketId,
+    messages = [],
+    limit = 10,
+    includeThoughts = false,
+    temperature = 0.3,
+    conversationContext = false
+  } = options;
+
+  const startTime = Date.now();
+
+  // Step 1: Search GroundX using the current query
+  const searchStartTime = Date.now();
+  console.log(`Searching bucket ${bucketId} for: "${query}"`);
+
+  const client = getGroundXClient();
+  const searchResponse = await client.search.content(parseInt(String(bucketId)), {
+    query: query,
+    n: limit
+  });
+
+  const searchEndTime = Date.now();
+  const searchMs = searchEndTime - searchStartTime;
+
+  console.log('GroundX search response structure:', JSON.stringify(searchResponse, null, 2));
+
+  if (!searchResponse?.search?.results) {
+    console.log('No search results found. Response:', searchResponse);
+    throw new Error('No search results from GroundX');
+  }
+
+  // Process search results
+  console.log('Processing search results...');
+  const results = searchResponse.search?.results || (searchResponse as any).results || [];
+  console.log(`Found ${results.length} results to process`);
+
+  const sources: RagSource[] = results.map((result: any) => {
+    const scoreData = extractBestScore(result);
+
+    return {
+      id: result.documentId,
+      fileName: result.fileName,
+      text: result.text || result.suggestedText,
+      metadata: result.metadata,
+      sourceUrl: result.sourceUrl,
+      score: scoreData.score,
+      rawScore: scoreData.score,
+      scoreSource: scoreData.source,
+      highlights: result.highlight?.text || [],
+      hasXray: true,
+      pageImages: result.pageImages,
+      narrative: result.narrative,
+      searchData: result.searchData,
+      boundingBoxes: result.boundingBoxes,
+      json: result.json,
+      fileKeywords: result.fileKeywords,
+      bucketId: result.bucketId,
+      multimodalUrl: result.multimodalUrl
+    };
+  });
+
+  // Step 2: Generate AI response with conversation context
+  const llmStartTime = Date.now();
+
+  // Prepare context from search results
+  const context = sources
+    .map((source: any, index: number) => `[${index + 1}] ${source.fileName}: ${source.text}`)
+    .join('\n\n');
+
+  // Build messages for OpenAI including conversation history
+  const systemPrompt = `You are an AI assistant that answers questions based on the provided document context.
+Use the numbered references [1], [2], etc. to cite specific documents when making claims.
+Be precise and factual. If the context doesn't contain enough information to answer the question, say so.
+
+Context:
+${context}`;
+
+  // Create the messages array for OpenAI
+  const openaiMessages: Array<{role: 'system' | 'user' | 'assistant', content: string}> = [
+    { role: 'system', content: systemPrompt }
+  ];
+
+  // If we have conversation context, add previous messages
+  if (conversationContext && messages.length > 1) {
+    console.log('📝 Adding conversation context...');
+
+    // Add previous messages (excluding the last one since it's the current query)
+    const previousMessages = messages.slice(0, -1);
+    for (const msg of previousMessages) {
+      if (msg.role === 'user' || msg.role === 'assistant') {
+        openaiMessages.push({
+          role: msg.role as 'user' | 'assistant',
+          content: msg.content
+        });
+      }
+    }
+  }
+
+  // Add the current user query
+  openaiMessages.push({
+    role: 'user',
+    content: query
+  });
+
+  console.log(`🤖 OpenAI request with ${openaiMessages.length} messages`);
+
+  const openaiClient = getOpenAIClient();
+  const completionRequest = {
+    model: 'gpt-4-turbo',
+    messages: openaiMessages,
+    temperature: temperature,
+    max_tokens: 1500
+  };
+  const completion = await openaiClient.chat.completions.create(completionRequest);
+
+  const llmEndTime = Date.now();
+  const llmMs = llmEndTime - llmStartTime;
+  const totalMs = llmEndTime - startTime;
+
+  const aiResponse = completion.choices[0]?.message?.content || 'No response generated';
+
+  // Link the [n] markers in the answer back to the search results
+  const { citations, uncitedSentences } = extractCitations(aiResponse, normalizeCitationSources(sources));
+
+  // Prepare response
+  const ragResponse: RagResponse = {
+    success: true,
+    timestamp: new Date().toISOString(),
+    query: query,
+    response: aiResponse,
+    searchResults: {
+      count: sources.length,
+      sources: sources
+    },
+    citations,
+    uncitedSentences,
+    executionTime: {
+      totalMs,
+      searchMs,
+      llmMs
+    },
+    usage: [usageFromCompletion('answer', completion, completionRequest, llmStartTime)]
+  };
+
+  if (includeThoughts) {
+    ragResponse.thoughts = `I searched through ${sources.length} documents and found relevant information to answer your question about "${query}". ${conversationContext ? 'I considered our previous conversation context.' : ''}`;
+  }
+
+  console.log(`RAG completed in ${totalMs}ms (search: ${searchMs}ms, LLM: ${llmMs}ms)`);
+
+  return ragResponse;
+}
@@ -0,0 +1,39 @@
+// Kernel Memory configuration
+export const KERNEL_MEMORY_API_KEY = process.env.KERNEL_MEMORY_API_KEY || '59b1f6a4-a168-47ca-8e6b-f9c9bd066228';
+export const KERNEL_MEMORY_BASE_URL = process.env.KERNEL_MEMORY_BASE_URL || 'http://20.246.75.167';
+
+export interface KernelMemoryAskPayload {
+  question: string;
+  index?: string;
+  filters?: any[];
+  minRelevance?: number;
+  stream?: boolean;
+  args?: Record<string, any>;
+}
+
+/**
+ * Call the Kernel Memory /ask endpoint (RAG with question answering)
+ */
+export async function askKernelMemory(payload: KernelMemoryAskPayload, signal?: AbortSignal): Promise<Response> {
+  const { question, index, filters, minRelevance = 0.0, stream = false, args } = payload;
+
+  const askPayload = {
+    question,
+    ...(index && { index }),
+    ...(filters && { filters }),
+    minRelevance,
+    stream,
+    ...(args && { args })
+  };
+
+  return fetch(`${KERNEL_MEMORY_BASE_URL}/ask`, {
+    method: 'POST',
+    headers: {
+      'Authorization': KERNEL_MEMORY_API_KEY,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify(askPayload),
+    ...(signal && { signal })
+  });
+}
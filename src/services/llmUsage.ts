@@ -0,0 +1,369 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { LlmUsage, ResponseData } from '../types/chat';
+import { estimateTokens } from './conversationHistory';
+import { fetchAllRows } from '../utils/pagination';
+
+// Who and what an LLM call was made for
+export interface UsageContext {
+  organizationId: string | null;
+  userId?: string | null;
+  sessionId?: string | null;
+  messageId?: string | null;
+  provider?: string | null;
+}
+
+// A row of llm_usage
+export interface UsageRow {
+  organization_id: string | null;
+  user_id: string | null;
+  session_id: string | null;
+  message_id: string | null;
+  provider: string | null;
+  operation: LlmUsage['operation'];
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  estimated: boolean;
+  created_at: string;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // null when none of the calls' models has a price
+  estimatedCost: number | null;
+  averageLatencyMs: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byOrganization: Array<UsageTotals & { organizationId: string | null }>;
+  byUser: Array<UsageTotals & { userId: string | null }>;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  // Models without an entry in the price table; their calls are left out of estimatedCost
+  unpricedModels: string[];
+}
+
+export interface UsageSummaryFilters {
+  organizationId?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+// Summaries read every matching row, so they cover a bounded period: this many days
+// ending at `to` (or now), or starting at `from` when only that is given
+export const DEFAULT_USAGE_PERIOD_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Storage backend for usage rows; swap the Supabase store (e.g. for a queue or tests) with setUsageStore
+export interface UsageStore {
+  record(rows: UsageRow[]): Promise<void>;
+  list(filters: UsageSummaryFilters): Promise<UsageRow[]>;
+}
+
+// Public list prices; override or extend with LLM_PRICE_TABLE
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-35-turbo': { prompt: 0.5, completion: 1.5 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 }
+};
+
+/**
+ * Stores usage in the llm_usage table
+ */
+export class SupabaseUsageStore implements UsageStore {
+  constructor(private client: SupabaseClient) {}
+
+  async record(rows: UsageRow[]): Promise<void> {
+    const { error } = await this.client.from('llm_usage').insert(rows);
+    if (error) {
+      throw new Error(`Failed to record LLM usage: ${error.message}`);
+    }
+  }
+
+  // Paged so totals aren't cut off at PostgREST's max-rows cap
+  async list(filters: UsageSummaryFilters): Promise<UsageRow[]> {
+    const { data, error } = await fetchAllRows<UsageRow>(() => {
+      let query = this.client
+        .from('llm_usage')
+        .select('*');
+
+      if (filters.organizationId) query = query.eq('organization_id', filters.organizationId);
+      if (filters.userId) query = query.eq('user_id', filters.userId);
+      if (filters.from) query = query.gte('created_at', filters.from);
+      if (filters.to) query = query.lte('created_at', filters.to);
+
+      return query
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch LLM usage: ${error.message}`);
+    }
+    return data;
+  }
+}
+
+// Lazy-initialize the usage store
+let usageStore: UsageStore | null = null;
+
+/**
+ * The configured usage store. Usage is written for every user and read across
+ * organizations, so the default store needs SUPABASE_SERVICE_ROLE_KEY; without it
+ * accounting is off and this returns null.
+ */
+export function getUsageStore(): UsageStore | null {
+  if (!usageStore && process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    usageStore = new SupabaseUsageStore(createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false }
+    }));
+  }
+  return usageStore;
+}
+
+export function setUsageStore(store: UsageStore | null): void {
+  usageStore = store;
+}
+
+function tokensOf(content: unknown): number {
+  return estimateTokens({ role: 'user', content: typeof content === 'string' ? content : JSON.stringify(content ?? '') });
+}
+
+/**
+ * Usage of an OpenAI chat completion; falls back to an estimate when the response has no usage
+ */
+export function usageFromCompletion(
+  operation: LlmUsage['operation'],
+  completion: { model?: string; usage?: { prompt_tokens?: number; completion_tokens?: number } | null; choices?: any[] },
+  request: { model: string; messages: Array<{ content?: unknown }> },
+  startedAt: number
+): LlmUsage {
+  const latencyMs = Date.now() - startedAt;
+  const model = completion.model || request.model;
+
+  if (completion.usage) {
+    return {
+      operation,
+      model,
+      promptTokens: completion.usage.prompt_tokens ?? 0,
+      completionTokens: completion.usage.completion_tokens ?? 0,
+      latencyMs
+    };
+  }
+
+  return estimateUsage(operation, model, request.messages, completion.choices?.[0]?.message?.content || '', latencyMs);
+}
+
+/**
+ * Token counts estimated from the text, for backends that don't report usage
+ */
+export function estimateUsage(
+  operation: LlmUsage['operation'],
+  model: string,
+  promptMessages: Array<{ content?: unknown }>,
+  completion: string,
+  latencyMs: number
+): LlmUsage {
+  return {
+    operation,
+    model,
+    promptTokens: promptMessages.reduce((total, message) => total + tokensOf(message.content), 0),
+    completionTokens: tokensOf(completion),
+    latencyMs,
+    estimated: true
+  };
+}
+
+/**
+ * Make sure an answer carries the usage of its generation: providers that don't report
+ * tokens get an estimate from the conversation and the answer text. The model falls back
+ * to the provider name when the response doesn't name one.
+ */
+export function withAnswerUsage(
+  data: ResponseData,
+  options: { providerName: string; conversation: Array<{ content?: unknown }>; startedAt: number }
+): ResponseData {
+  if (data.usage?.some(usage => usage.operation === 'answer')) {
+    return data;
+  }
+
+  const model = typeof data.context?.model === 'string' ? data.context.model : options.providerName;
+  const usage = estimateUsage('answer', model, options.conversation, data.message?.content || '', Date.now() - options.startedAt);
+  return { ...data, usage: [...(data.usage || []), usage] };
+}
+
+/**
+ * Store usage for the given context. Accounting never fails or delays a chat request, so
+ * errors are only logged; await the result only where the write must finish first.
+ */
+export async function recordLlmUsage(usages: LlmUsage[] | undefined, context: UsageContext): Promise<void> {
+  const store = getUsageStore();
+  if (!store || !usages || usages.length === 0) {
+    return;
+  }
+
+  const createdAt = new Date().toISOString();
+  const rows: UsageRow[] = usages.map(usage => ({
+    organization_id: context.organizationId,
+    user_id: context.userId ?? null,
+    session_id: context.sessionId ?? null,
+    message_id: usage.operation === 'title' ? null : context.messageId ?? null,
+    provider: context.provider ?? null,
+    operation: usage.operation,
+    model: usage.model,
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    latency_ms: usage.latencyMs,
+    estimated: !!usage.estimated,
+    created_at: createdAt
+  }));
+
+  try {
+    await store.record(rows);
+  } catch (error) {
+    console.error('Error recording LLM usage:', error);
+  }
+}
+
+/**
+ * The price table: DEFAULT_MODEL_PRICES overridden by LLM_PRICE_TABLE, a JSON object of
+ * { "<model>": { "prompt": <USD per 1M tokens>, "completion": <USD per 1M tokens> } }
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+  const configured = process.env.LLM_PRICE_TABLE;
+  if (!configured) {
+    return DEFAULT_MODEL_PRICES;
+  }
+
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(configured) };
+  } catch (error) {
+    console.error('Ignoring invalid LLM_PRICE_TABLE:', error);
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+/**
+ * Price of a model, matching dated versions (gpt-4o-mini-2024-07-18) to their base name
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const base = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? prices[base] : null;
+}
+
+function emptyTotals(): UsageTotals & { latencyTotal: number; priced: boolean } {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: null, averageLatencyMs: 0, latencyTotal: 0, priced: false };
+}
+
+function finishTotals({ latencyTotal, priced, ...totals }: ReturnType<typeof emptyTotals>): UsageTotals {
+  return {
+    ...totals,
+    estimatedCost: priced ? Math.round((totals.estimatedCost ?? 0) * 1e6) / 1e6 : null,
+    averageLatencyMs: totals.calls > 0 ? Math.round(latencyTotal / totals.calls) : 0
+  };
+}
+
+/**
+ * Roll usage rows up overall and per organization, user, day (UTC) and model, with cost
+ * estimates from the price table
+ */
+export function summarizeUsage(rows: UsageRow[], prices: Record<string, ModelPrice> = getModelPrices()): UsageSummary {
+  const totals = emptyTotals();
+  const groups = {
+    organization: new Map<string | null, ReturnType<typeof emptyTotals>>(),
+    user: new Map<string | null, ReturnType<typeof emptyTotals>>(),
+    day: new Map<string, ReturnType<typeof emptyTotals>>(),
+    model: new Map<string, ReturnType<typeof emptyTotals>>()
+  };
+  const unpriced = new Set<string>();
+
+  const accumulate = (group: ReturnType<typeof emptyTotals>, row: UsageRow, cost: number | null) => {
+    group.calls += 1;
+    group.promptTokens += row.prompt_tokens;
+    group.completionTokens += row.completion_tokens;
+    group.totalTokens += row.prompt_tokens + row.completion_tokens;
+    group.latencyTotal += row.latency_ms || 0;
+    if (cost !== null) {
+      group.estimatedCost = (group.estimatedCost ?? 0) + cost;
+      group.priced = true;
+    }
+  };
+  const add = <K>(map: Map<K, ReturnType<typeof emptyTotals>>, key: K, row: UsageRow, cost: number | null) => {
+    const group = map.get(key) || emptyTotals();
+    accumulate(group, row, cost);
+    map.set(key, group);
+  };
+
+  for (const row of rows) {
+    const price = findModelPrice(row.model, prices);
+    const cost = price
+      ? (row.prompt_tokens * price.prompt + row.completion_tokens * price.completion) / 1e6
+      : null;
+    if (!price) {
+      unpriced.add(row.model);
+    }
+
+    accumulate(totals, row, cost);
+    add(groups.organization, row.organization_id, row, cost);
+    add(groups.user, row.user_id, row, cost);
+    add(groups.day, row.created_at.substring(0, 10), row, cost);
+    add(groups.model, row.model, row, cost);
+  }
+
+  // Most expensive first, then by tokens for unpriced groups
+  const byCost = <T extends UsageTotals>(a: T, b: T) =>
+    (b.estimatedCost ?? 0) - (a.estimatedCost ?? 0) || b.totalTokens - a.totalTokens;
+
+  return {
+    totals: finishTotals(totals),
+    byOrganization: [...groups.organization].map(([organizationId, group]) => ({ organizationId, ...finishTotals(group) })).sort(byCost),
+    byUser: [...groups.user].map(([userId, group]) => ({ userId, ...finishTotals(group) })).sort(byCost),
+    byDay: [...groups.day].map(([day, group]) => ({ day, ...finishTotals(group) })).sort((a, b) => a.day.localeCompare(b.day)),
+    byModel: [...groups.model].map(([model, group]) => ({ model, ...finishTotals(group) })).sort(byCost),
+    unpricedModels: [...unpriced].sort()
+  };
+}
+
+/**
+ * Fill in the end of the summary period the filters leave open (see DEFAULT_USAGE_PERIOD_DAYS)
+ */
+export function resolveUsagePeriod(filters: UsageSummaryFilters, now: Date = new Date()): UsageSummaryFilters {
+  const period = DEFAULT_USAGE_PERIOD_DAYS * DAY_MS;
+  if (filters.from && filters.to) {
+    return filters;
+  }
+  if (filters.from) {
+    return { ...filters, to: new Date(Date.parse(filters.from) + period).toISOString() };
+  }
+  const to = filters.to ?? now.toISOString();
+  return { ...filters, from: new Date(Date.parse(to) - period).toISOString(), to };
+}
+
+/**
+ * Summarize stored usage matching filters; null when no usage store is configured
+ */
+export async function getUsageSummary(filters: UsageSummaryFilters): Promise<UsageSummary | null> {
+  const store = getUsageStore();
+  return store ? summarizeUsage(await store.list(filters)) : null;
+}
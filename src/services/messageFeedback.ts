@@ -0,0 +1,223 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SessionUser, getSessionAccess } from './sessionAccess';
+import { fetchAllRows } from '../utils/pagination';
+
+export type FeedbackRating = 'up' | 'down';
+
+// One user's rating of one assistant message, stored in message_feedback
+export interface MessageFeedback {
+  id?: string;
+  message_id: string;
+  session_id: string;
+  user_id: string;
+  organization_id: string | null;
+  rating: FeedbackRating;
+  reason: string | null;
+  comment: string | null;
+  // Copied from the rated message so aggregates don't need to join chat_messages
+  provider: string | null;
+  bucket_id: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Request problem with the HTTP status to answer with
+export class FeedbackError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'FeedbackError';
+  }
+}
+
+export interface FeedbackCounts {
+  total: number;
+  up: number;
+  down: number;
+  // Share of down ratings, 0 when there is no feedback
+  downRate: number;
+  reasons: Record<string, number>;
+}
+
+export interface FeedbackSummary {
+  organizationId: string;
+  totals: FeedbackCounts;
+  byProvider: Array<FeedbackCounts & { provider: string }>;
+  byBucket: Array<FeedbackCounts & { bucketId: string }>;
+}
+
+export interface FeedbackSummaryFilters {
+  from?: string;
+  to?: string;
+  provider?: string;
+  bucketId?: string;
+}
+
+// Fetch an assistant message of a session the user can read
+async function getRatableMessage(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  messageId: string,
+  user: SessionUser
+) {
+  if (!await getSessionAccess(supabaseClient, sessionId, user)) {
+    throw new FeedbackError('Chat session not found', 404);
+  }
+
+  const { data: message, error: messageError } = await supabaseClient
+    .from('chat_messages')
+    .select('id, role, provider, bucket_id')
+    .eq('id', messageId)
+    .eq('session_id', sessionId)
+    .single();
+
+  if (messageError || !message) {
+    throw new FeedbackError('Chat message not found', 404);
+  }
+
+  if (message.role !== 'assistant') {
+    throw new FeedbackError('Only assistant messages can be rated', 400);
+  }
+
+  return message;
+}
+
+/**
+ * Record (or replace) the user's feedback on an assistant message
+ */
+export async function saveMessageFeedback(
+  supabaseClient: SupabaseClient,
+  options: {
+    sessionId: string;
+    messageId: string;
+    user: SessionUser;
+    organizationId: string | null;
+    rating: FeedbackRating;
+    reason?: string;
+    comment?: string;
+  }
+): Promise<MessageFeedback> {
+  const message = await getRatableMessage(supabaseClient, options.sessionId, options.messageId, options.user);
+
+  const feedback: MessageFeedback = {
+    message_id: options.messageId,
+    session_id: options.sessionId,
+    user_id: options.user.id,
+    organization_id: options.organizationId,
+    rating: options.rating,
+    reason: options.reason ?? null,
+    comment: options.comment ?? null,
+    provider: message.provider ?? null,
+    bucket_id: message.bucket_id != null ? String(message.bucket_id) : null,
+    updated_at: new Date().toISOString()
+  };
+
+  // A user has one rating per message; rating again replaces it
+  const { data, error } = await supabaseClient
+    .from('message_feedback')
+    .upsert([feedback], { onConflict: 'message_id,user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save message feedback: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Remove the user's feedback on an assistant message
+ */
+export async function deleteMessageFeedback(
+  supabaseClient: SupabaseClient,
+  options: { sessionId: string; messageId: string; user: SessionUser }
+): Promise<void> {
+  await getRatableMessage(supabaseClient, options.sessionId, options.messageId, options.user);
+
+  const { error } = await supabaseClient
+    .from('message_feedback')
+    .delete()
+    .eq('message_id', options.messageId)
+    .eq('user_id', options.user.id);
+
+  if (error) {
+    throw new Error(`Failed to delete message feedback: ${error.message}`);
+  }
+}
+
+function emptyCounts(): FeedbackCounts {
+  return { total: 0, up: 0, down: 0, downRate: 0, reasons: {} };
+}
+
+function addToCounts(counts: FeedbackCounts, row: Pick<MessageFeedback, 'rating' | 'reason'>) {
+  counts.total++;
+  counts[row.rating === 'up' ? 'up' : 'down']++;
+  counts.downRate = counts.down / counts.total;
+  if (row.reason) {
+    counts.reasons[row.reason] = (counts.reasons[row.reason] || 0) + 1;
+  }
+}
+
+/**
+ * Count ratings overall, per provider and per bucket; groups with the highest
+ * share of down ratings come first
+ */
+export function summarizeFeedback(
+  organizationId: string,
+  rows: Array<Pick<MessageFeedback, 'rating' | 'reason' | 'provider' | 'bucket_id'>>
+): FeedbackSummary {
+  const totals = emptyCounts();
+  const providers = new Map<string, FeedbackCounts>();
+  const buckets = new Map<string, FeedbackCounts>();
+
+  for (const row of rows) {
+    addToCounts(totals, row);
+
+    const provider = row.provider || 'unknown';
+    if (!providers.has(provider)) providers.set(provider, emptyCounts());
+    addToCounts(providers.get(provider)!, row);
+
+    if (row.bucket_id) {
+      if (!buckets.has(row.bucket_id)) buckets.set(row.bucket_id, emptyCounts());
+      addToCounts(buckets.get(row.bucket_id)!, row);
+    }
+  }
+
+  const byDownRate = (a: FeedbackCounts, b: FeedbackCounts) => b.downRate - a.downRate || b.total - a.total;
+
+  return {
+    organizationId,
+    totals,
+    byProvider: [...providers].map(([provider, counts]) => ({ provider, ...counts })).sort(byDownRate),
+    byBucket: [...buckets].map(([bucketId, counts]) => ({ bucketId, ...counts })).sort(byDownRate)
+  };
+}
+
+/**
+ * Aggregate an organization's feedback, optionally limited to a date range, provider or bucket
+ */
+export async function getFeedbackSummary(
+  supabaseClient: SupabaseClient,
+  organizationId: string,
+  filters: FeedbackSummaryFilters = {}
+): Promise<FeedbackSummary> {
+  const { data, error } = await fetchAllRows<Pick<MessageFeedback, 'rating' | 'reason' | 'provider' | 'bucket_id'>>(() => {
+    let query = supabaseClient
+      .from('message_feedback')
+      .select('rating, reason, provider, bucket_id')
+      .eq('organization_id', organizationId);
+
+    if (filters.from) query = query.gte('created_at', filters.from);
+    if (filters.to) query = query.lte('created_at', filters.to);
+    if (filters.provider) query = query.eq('provider', filters.provider);
+    if (filters.bucketId) query = query.eq('bucket_id', filters.bucketId);
+
+    return query.order('id', { ascending: true });
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch message feedback: ${error.message}`);
+  }
+
+  return summarizeFeedback(organizationId, data);
+}
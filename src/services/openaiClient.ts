@@ -0,0 +1,18 @@
+import OpenAI from "openai";
+
+// Lazy-initialize OpenAI client
+let openai: OpenAI | null = null;
+
+export function getOpenAIClient(): OpenAI {
+  if (!openai) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+    openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openai;
+}
+
+export default getOpenAIClient;
@@ -0,0 +1,287 @@
+import { ClientConfiguration, DEFAULT_CLIENT_CONFIGS, getClientConfigService } from './clientConfigService';
+
+// Storage backend for rate limit counters; swap the in-memory store for a shared one (e.g. Redis) with setCounterStore
+export interface CounterStore {
+  // Add one to key's counter, starting a new window of windowMs when there is none or it has ended.
+  // A sliding window is pushed to now + windowMs on every increment instead of ending at a fixed time.
+  increment(key: string, windowMs: number, options?: { sliding?: boolean }): Promise<{ count: number; resetAt: number }>;
+  // Take one back, e.g. for a request that was rejected or has finished
+  decrement(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type ClientLimits = ClientConfiguration['limits'];
+
+// Who a request counts against: its organization and its user (or IP address without one)
+export interface RateLimitSubject {
+  organizationId: string | null;
+  userId: string | null;
+  ip?: string | null;
+}
+
+// The user_ limits cap each user's share of the organization's allowance
+export type RateLimitName = 'requests_per_minute' | 'requests_per_day' | 'user_requests_per_minute' | 'user_requests_per_day';
+
+export interface RateLimitWindow {
+  name: RateLimitName;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+// window is the most restrictive one checked (the exceeded one when not allowed), null when none applies
+export interface RateLimitResult {
+  allowed: boolean;
+  window: RateLimitWindow | null;
+  retryAfterSeconds?: number;
+}
+
+const RATE_WINDOWS: Record<RateLimitName, number> = {
+  requests_per_minute: 60 * 1000,
+  requests_per_day: 24 * 60 * 60 * 1000,
+  user_requests_per_minute: 60 * 1000,
+  user_requests_per_day: 24 * 60 * 60 * 1000
+};
+
+// A user's concurrency slots are forgotten after this long without a new request, in case a
+// request never released its slot (e.g. the process holding it died with a shared store)
+const CONCURRENCY_SLOT_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * In-process fixed-window counters; expired windows are swept once the map grows past sweepThreshold
+ */
+export class MemoryCounterStore implements CounterStore {
+  private counters = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private sweepThreshold: number = 10000) {}
+
+  async increment(key: string, windowMs: number, options: { sliding?: boolean } = {}): Promise<{ count: number; resetAt: number }> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+
+    if (!counter || counter.resetAt <= now) {
+      if (this.counters.size >= this.sweepThreshold) {
+        this.sweep(now);
+      }
+      counter = { count: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    } else if (options.sliding) {
+      counter.resetAt = now + windowMs;
+    }
+
+    counter.count += 1;
+    return { ...counter };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const counter = this.counters.get(key);
+    if (counter && counter.count > 0) {
+      counter.count -= 1;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.counters.clear();
+  }
+
+  private sweep(now: number) {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+// Lazy-initialize the counter store
+let counterStore: CounterStore | null = null;
+
+export function getCounterStore(): CounterStore {
+  if (!counterStore) {
+    counterStore = new MemoryCounterStore();
+  }
+  return counterStore;
+}
+
+export function setCounterStore(store: CounterStore): void {
+  counterStore = store;
+}
+
+/**
+ * The organization's limits over its client type's defaults (the default client type's
+ * without one), so limits missing from a stored configuration still apply; a limit that
+ * isn't a positive number (e.g. null in client_configurations.limits) is not enforced
+ */
+export async function getClientLimits(organizationId: string | null): Promise<ClientLimits> {
+  if (!organizationId) {
+    return DEFAULT_CLIENT_CONFIGS.default.limits!;
+  }
+
+  const config = await getClientConfigService().getClientConfig(organizationId);
+  const defaults = DEFAULT_CLIENT_CONFIGS[config?.client_type || 'default']?.limits || DEFAULT_CLIENT_CONFIGS.default.limits!;
+  return { ...defaults, ...config?.limits };
+}
+
+function isEnforced(limit: unknown): limit is number {
+  return typeof limit === 'number' && Number.isFinite(limit) && limit > 0;
+}
+
+// The user (or, for anonymous requests, the IP address) a request is made by
+export function getUserScope(subject: RateLimitSubject): string {
+  return subject.userId ? `user:${subject.userId}` : `ip:${subject.ip || 'unknown'}`;
+}
+
+// Who the organization-wide limits count against: the organization, else the user or IP
+export function getRateLimitScope(subject: RateLimitSubject): string {
+  return subject.organizationId ? `org:${subject.organizationId}` : getUserScope(subject);
+}
+
+/**
+ * Count a request against the organization's per-minute and per-day limits and the
+ * user's share of them; the request is rejected when any is exceeded. Rejected requests
+ * are taken back off the counters so they don't use up the quota.
+ */
+export async function consumeRequestQuota(subject: RateLimitSubject, limits: ClientLimits): Promise<RateLimitResult> {
+  const store = getCounterStore();
+  const names = (Object.keys(RATE_WINDOWS) as RateLimitName[]).filter(name => isEnforced(limits[name]));
+  const keyOf = (name: RateLimitName) =>
+    `rate:${name}:${name.startsWith('user_') ? getUserScope(subject) : getRateLimitScope(subject)}`;
+
+  const windows: RateLimitWindow[] = [];
+  const exceeded: RateLimitWindow[] = [];
+  for (const name of names) {
+    const limit = limits[name]!;
+    const { count, resetAt } = await store.increment(keyOf(name), RATE_WINDOWS[name]);
+    const window = { name, limit, remaining: Math.max(0, limit - count), resetAt };
+    windows.push(window);
+    if (count > limit) {
+      exceeded.push(window);
+    }
+  }
+
+  if (exceeded.length > 0) {
+    await Promise.all(names.map(name => store.decrement(keyOf(name))));
+    // The window that frees up last decides when the request can be retried
+    const blocking = exceeded.reduce((latest, window) => (window.resetAt > latest.resetAt ? window : latest));
+    return {
+      allowed: false,
+      window: blocking,
+      retryAfterSeconds: Math.max(1, Math.ceil((blocking.resetAt - Date.now()) / 1000))
+    };
+  }
+
+  const tightest = windows.reduce<RateLimitWindow | null>(
+    (tightest, window) => (!tightest || window.remaining < tightest.remaining ? window : tightest),
+    null
+  );
+  return { allowed: true, window: tightest };
+}
+
+/**
+ * Take one of the user's max_concurrent_requests slots for an in-flight request. Returns the
+ * function that gives it back, or null when every slot is in use. The slot count has no
+ * fixed window: finished requests give their slot back, and the count only expires after
+ * CONCURRENCY_SLOT_TTL_MS without any new request from the user.
+ */
+export async function acquireConcurrencySlot(subject: RateLimitSubject, limits: ClientLimits): Promise<(() => void) | null> {
+  if (!isEnforced(limits.max_concurrent_requests)) {
+    return () => {};
+  }
+
+  const store = getCounterStore();
+  const key = `concurrent:${getUserScope(subject)}`;
+  const { count } = await store.increment(key, CONCURRENCY_SLOT_TTL_MS, { sliding: true });
+
+  if (count > limits.max_concurrent_requests) {
+    await store.decrement(key);
+    return null;
+  }
+
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      store.decrement(key).catch(error => console.error('Error releasing concurrency slot:', error));
+    }
+  };
+}
+
+// Outcome of checkClientLimits; release gives back the concurrency slot once the request is done
+export type ClientLimitCheck =
+  | { allowed: true; window: RateLimitWindow | null; release: () => void }
+  | {
+    allowed: false;
+    status: 413 | 429;
+    error: string;
+    window: RateLimitWindow | null;
+    retryAfterSeconds?: number;
+    details: Record<string, any>;
+  };
+
+/**
+ * Apply the subject's organization limits (client_configurations.limits) to one request:
+ * max_file_size_mb against contentLength, requests_per_minute and requests_per_day per
+ * organization (per user or IP without one), user_requests_per_minute and
+ * user_requests_per_day per user, and max_concurrent_requests in-flight requests per user.
+ * Limits are best effort: when they can't be checked (e.g. the counter store is unavailable)
+ * the request is let through rather than taking the API down.
+ */
+export async function checkClientLimits(
+  subject: RateLimitSubject,
+  options: { contentLength?: number } = {}
+): Promise<ClientLimitCheck> {
+  try {
+    return await applyClientLimits(subject, options.contentLength || 0);
+  } catch (error) {
+    console.error('Error enforcing client limits:', error);
+    return { allowed: true, window: null, release: () => {} };
+  }
+}
+
+async function applyClientLimits(subject: RateLimitSubject, contentLength: number): Promise<ClientLimitCheck> {
+  const limits = await getClientLimits(subject.organizationId);
+
+  if (isEnforced(limits.max_file_size_mb) && contentLength > limits.max_file_size_mb * 1024 * 1024) {
+    return {
+      allowed: false,
+      status: 413,
+      error: 'Request body too large',
+      window: null,
+      details: { limit: 'max_file_size_mb', max: limits.max_file_size_mb }
+    };
+  }
+
+  const release = await acquireConcurrencySlot(subject, limits);
+  if (!release) {
+    return {
+      allowed: false,
+      status: 429,
+      error: 'Too many concurrent requests',
+      window: null,
+      retryAfterSeconds: 1,
+      details: { limit: 'max_concurrent_requests', max: limits.max_concurrent_requests }
+    };
+  }
+
+  // The slot must not leak when the quota can't be checked, or the user is slowly locked out
+  let quota: RateLimitResult;
+  try {
+    quota = await consumeRequestQuota(subject, limits);
+  } catch (error) {
+    release();
+    throw error;
+  }
+  if (!quota.allowed) {
+    release();
+    return {
+      allowed: false,
+      status: 429,
+      error: 'Rate limit exceeded',
+      window: quota.window,
+      retryAfterSeconds: quota.retryAfterSeconds,
+      details: { limit: quota.window!.name, max: quota.window!.limit, retryAfterSeconds: quota.retryAfterSeconds }
+    };
+  }
+
+  return { allowed: true, window: quota.window, release };
+}
@@ -0,0 +1,285 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAfterMs: number;
+}
+
+export interface ResilientFetchOptions {
+  // Circuit breaker name for the upstream; listed publicly by /api/health, so never a URL or secret
+  circuit: string;
+  // Caller's signal (client disconnect / explicit cancel); aborting it never retries or trips the circuit
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+// Upstream is failing fast (open circuit) or did not answer in time; status is what the route should return
+export class UpstreamUnavailableError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+// Responses worth retrying; 429 is retried but doesn't count against the circuit
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+// Connection failures raised before the request reached the backend, so retrying can't run it twice
+const RETRYABLE_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getResilienceConfig() {
+  return {
+    timeoutMs: envInt('CHAT_BACKEND_TIMEOUT_MS', 60000),
+    maxRetries: envInt('CHAT_BACKEND_MAX_RETRIES', 2),
+    retryBaseMs: envInt('CHAT_BACKEND_RETRY_BASE_MS', 500),
+    retryMaxMs: envInt('CHAT_BACKEND_RETRY_MAX_MS', 10000),
+    failureThreshold: envInt('CHAT_BACKEND_CIRCUIT_FAILURE_THRESHOLD', 5),
+    resetMs: envInt('CHAT_BACKEND_CIRCUIT_RESET_MS', 30000)
+  };
+}
+
+/**
+ * Consecutive-failure circuit breaker: opens after failureThreshold failures, lets a
+ * single probe through after resetMs (half-open) and closes again on success
+ */
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(public name: string) {}
+
+  // Throws when the circuit is open; otherwise the caller may send a request
+  acquire(): void {
+    const { resetMs } = getResilienceConfig();
+
+    if (this.state === 'open') {
+      const remaining = this.openedAt! + resetMs - Date.now();
+      if (remaining > 0) {
+        throw new UpstreamUnavailableError(`Chat backend ${this.name} is unavailable (circuit open)`, 503, remaining);
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) {
+        throw new UpstreamUnavailableError(`Chat backend ${this.name} is recovering`, 503, resetMs);
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`Circuit for ${this.name} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= getResilienceConfig().failureThreshold) {
+      if (this.state !== 'open') {
+        console.error(`Circuit for ${this.name} opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  // Releases a half-open probe that ended without a verdict (e.g. cancelled by the client)
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const { resetMs } = getResilienceConfig();
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAfterMs: this.state === 'open' ? Math.max(0, this.openedAt! + resetMs - Date.now()) : 0
+    };
+  }
+}
+
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name);
+    circuitBreakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Current state of every upstream circuit, for /api/health
+ */
+export function getCircuitBreakerStatuses(): CircuitBreakerStatus[] {
+  return Array.from(circuitBreakers.values()).map(breaker => breaker.getStatus());
+}
+
+/**
+ * Forget all circuit state (used by tests)
+ */
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear();
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// fetch() wraps socket errors in a TypeError whose cause carries the error code
+function isRetryableError(error: unknown): boolean {
+  const code = (error as any)?.cause?.code ?? (error as any)?.code;
+  return typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code);
+}
+
+function backoffDelay(attempt: number, retryAfterMs: number | null): number {
+  const { retryBaseMs, retryMaxMs } = getResilienceConfig();
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, retryMaxMs);
+  }
+  const exponential = retryBaseMs * Math.pow(2, attempt);
+  return Math.min(exponential + Math.random() * retryBaseMs, retryMaxMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// One attempt bounded by the timeout; the timeout covers the wait for response headers only,
+// so long-running streams are not cut off once the backend starts answering. The caller's
+// signal stays linked so cancelling still aborts reading the response body.
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new UpstreamUnavailableError(`Chat backend timed out after ${timeoutMs}ms`, 504)), timeoutMs);
+  const onAbort = () => controller.abort(signal!.reason);
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    signal?.removeEventListener('abort', onAbort);
+    // fetch rejects with a generic AbortError; surface the timeout instead
+    if (controller.signal.reason instanceof UpstreamUnavailableError && !signal?.aborted) {
+      throw controller.signal.reason;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * fetch() with a per-attempt timeout, exponential-backoff retries on 429/502/503/504
+ * (honoring Retry-After) and on connection errors before the request was sent, and a
+ * per-upstream circuit breaker. Chat requests aren't idempotent, so timeouts and other
+ * network errors are not retried: the backend may already be running (and billing) them.
+ * The last upstream response is returned as-is once retries are exhausted.
+ */
+export async function resilientFetch(url: string, init: RequestInit, options: ResilientFetchOptions): Promise<Response> {
+  const config = getResilienceConfig();
+  const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+  const maxRetries = options.maxRetries ?? config.maxRetries;
+  const breaker = getCircuitBreaker(options.circuit);
+
+  breaker.acquire();
+
+  for (let attempt = 0; ; attempt++) {
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await fetchWithTimeout(url, init, timeoutMs, options.signal);
+
+      if (!RETRYABLE_STATUSES.includes(response.status)) {
+        if (response.status >= 500) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+        return response;
+      }
+
+      if (attempt >= maxRetries) {
+        if (response.status === 429) {
+          breaker.release();
+        } else {
+          breaker.recordFailure();
+        }
+        return response;
+      }
+
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      response.body?.cancel().catch(() => {});
+      console.log(`Chat backend returned ${response.status}, retrying (attempt ${attempt + 1} of ${maxRetries})`);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        breaker.release();
+        throw error;
+      }
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        breaker.recordFailure();
+        throw error;
+      }
+      console.log(`Chat backend request failed (${(error as Error).message}), retrying (attempt ${attempt + 1} of ${maxRetries})`);
+    }
+
+    try {
+      await sleep(backoffDelay(attempt, retryAfterMs), options.signal);
+    } catch (error) {
+      breaker.release();
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+
+// Storage backend for cached responses; swap the in-memory store for a shared one (e.g. Redis) with setCacheStore
+export interface CacheStore {
+  get(key: string): Promise<any | undefined>;
+  set(key: string, value: any, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Endpoints that can be cached, each with its own TTL
+export type CacheEndpoint = 'chat' | 'groundx-search' | 'kernel-memory-search';
+
+// HIT/MISS as usual; BYPASS when the client sent Cache-Control: no-cache or no-store
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+const DEFAULT_TTLS: Record<CacheEndpoint, { env: string; ttlMs: number }> = {
+  'chat': { env: 'RESPONSE_CACHE_TTL_CHAT_MS', ttlMs: 5 * 60 * 1000 },
+  'groundx-search': { env: 'RESPONSE_CACHE_TTL_GROUNDX_SEARCH_MS', ttlMs: 10 * 60 * 1000 },
+  'kernel-memory-search': { env: 'RESPONSE_CACHE_TTL_KERNEL_MEMORY_SEARCH_MS', ttlMs: 10 * 60 * 1000 }
+};
+
+/**
+ * In-process cache with per-entry expiry; the oldest entry is evicted once maxEntries is reached
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: any; expiresAt: number }>();
+
+  constructor(private maxEntries: number = parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '', 10) || 1000) {}
+
+  async get(key: string): Promise<any | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: any, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// Lazy-initialize the cache store
+let cacheStore: CacheStore | null = null;
+
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) {
+    cacheStore = new MemoryCacheStore();
+  }
+  return cacheStore;
+}
+
+export function setCacheStore(store: CacheStore): void {
+  cacheStore = store;
+}
+
+/**
+ * TTL for an endpoint, or 0 when caching is off (RESPONSE_CACHE_ENABLED is opt-in; a TTL of 0 disables one endpoint)
+ */
+export function getCacheTtlMs(endpoint: CacheEndpoint): number {
+  if (process.env.RESPONSE_CACHE_ENABLED !== 'true') {
+    return 0;
+  }
+  const { env, ttlMs } = DEFAULT_TTLS[endpoint];
+  const configured = parseInt(process.env[env] || '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : ttlMs;
+}
+
+// Sort keys, trim strings and drop empty values so equivalent requests share a key
+function normalizeParams(value: any): any {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeParams);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined && value[key] !== null)
+      .reduce((normalized: Record<string, any>, key) => {
+        normalized[key] = normalizeParams(value[key]);
+        return normalized;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * Organization-scoped cache key for normalized request parameters
+ */
+export function buildCacheKey(endpoint: CacheEndpoint, organizationId: string, params: any): string {
+  const hash = crypto.createHash('sha256').update(JSON.stringify(normalizeParams(params))).digest('hex');
+  return `${endpoint}:${organizationId}:${hash}`;
+}
+
+export interface CachedCallOptions<T> {
+  endpoint: CacheEndpoint;
+  // Requests without an organization are never cached, so callers can't share entries
+  organizationId?: string | null;
+  params: any;
+  // Value of the request's Cache-Control header
+  cacheControl?: string;
+  // Only successful results are stored
+  shouldCache?: (value: T) => boolean;
+}
+
+/**
+ * Return a cached result for identical parameters or compute and store it.
+ * cacheStatus is null when caching is disabled for the endpoint or there is no organization.
+ */
+export async function withResponseCache<T>(
+  options: CachedCallOptions<T>,
+  compute: () => Promise<T>
+): Promise<{ value: T; cacheStatus: CacheStatus | null }> {
+  const ttlMs = getCacheTtlMs(options.endpoint);
+  if (ttlMs <= 0 || !options.organizationId) {
+    return { value: await compute(), cacheStatus: null };
+  }
+
+  const directives = (options.cacheControl || '').toLowerCase();
+  const noStore = directives.includes('no-store');
+  const noCache = noStore || directives.includes('no-cache');
+  const key = buildCacheKey(options.endpoint, options.organizationId, options.params);
+  const store = getCacheStore();
+
+  if (!noCache) {
+    try {
+      const cached = await store.get(key);
+      if (cached !== undefined) {
+        return { value: cached as T, cacheStatus: 'HIT' };
+      }
+    } catch (error) {
+      console.error('Response cache read failed:', error);
+    }
+  }
+
+  const value = await compute();
+
+  // no-cache still refreshes the entry; no-store leaves the cache untouched
+  if (!noStore && (!options.shouldCache || options.shouldCache(value))) {
+    try {
+      await store.set(key, value, ttlMs);
+    } catch (error) {
+      console.error('Response cache write failed:', error);
+    }
+  }
+
+  return { value, cacheStatus: noCache ? 'BYPASS' : 'MISS' };
+}
+
+/**
+ * Report the cache outcome to the client
+ */
+export function setCacheHeader(res: any, cacheStatus: CacheStatus | null): void {
+  if (cacheStatus) {
+    res.set('X-Cache', cacheStatus);
+  }
+}
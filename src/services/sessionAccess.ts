@@ -0,0 +1,293 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { resolveOrganizationContext } from '../middleware/supabaseAuth';
+
+// owner created the session; contributors may add messages; viewers may only read
+export type SessionRole = 'owner' | 'contributor' | 'viewer';
+
+// Roles a share can grant; requests are checked against SHARE_ROLES in requestValidation
+export type ShareRole = Exclude<SessionRole, 'owner'>;
+
+// Identifies the caller; email lets QIG admins resolve the organization they are acting as
+export interface SessionUser {
+  id: string;
+  email?: string;
+}
+
+// A row of chat_session_shares: either one user or every member of an organization
+export interface SessionShare {
+  id: string;
+  session_id: string;
+  shared_with_user_id: string | null;
+  organization_id: string | null;
+  role: ShareRole;
+  created_by: string;
+  created_at?: string;
+}
+
+// A row of chat_session_removals: a session that disappeared for one user or every member of an
+// organization (revoked share or permanent delete), so ?since syncs can tell clients to drop it
+export interface SessionRemoval {
+  session_id: string;
+  user_id: string | null;
+  organization_id: string | null;
+  removed_at?: string;
+}
+
+// Missing or insufficient access, with the HTTP status to answer with
+export class SessionAccessError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SessionAccessError';
+  }
+}
+
+const ROLE_RANK: Record<SessionRole, number> = {
+  viewer: 1,
+  contributor: 2,
+  owner: 3
+};
+
+export function hasSessionRole(role: SessionRole, minimumRole: SessionRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+async function getActiveOrganizationId(user: SessionUser): Promise<string | null> {
+  try {
+    const { organizationContext } = await resolveOrganizationContext(user);
+    return organizationContext.activeOrganizationId || null;
+  } catch (error) {
+    console.warn('Could not resolve organization for session access:', error);
+    return null;
+  }
+}
+
+/**
+ * The user's role on a session, or null when they can't see it. The organization is
+ * only resolved when the session has been shared with one. Sessions in the trash are
+ * hidden unless includeDeleted is set, and then only from their owner.
+ */
+export async function getSessionAccess(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  user: SessionUser,
+  options: { includeDeleted?: boolean } = {}
+): Promise<{ session: any; role: SessionRole } | null> {
+  const { data: session, error } = await supabaseClient
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !session) {
+    return null;
+  }
+
+  if (session.deleted_at && !(options.includeDeleted && session.user_id === user.id)) {
+    return null;
+  }
+
+  if (session.user_id === user.id) {
+    return { session, role: 'owner' };
+  }
+
+  const { data: shares, error: sharesError } = await supabaseClient
+    .from('chat_session_shares')
+    .select('role, shared_with_user_id, organization_id')
+    .eq('session_id', sessionId);
+
+  if (sharesError || !shares || shares.length === 0) {
+    return null;
+  }
+
+  const organizationId = shares.some((share: any) => share.organization_id)
+    ? await getActiveOrganizationId(user)
+    : null;
+
+  // The strongest matching share wins
+  let role: SessionRole | null = null;
+  for (const share of shares as SessionShare[]) {
+    const matches = share.shared_with_user_id === user.id ||
+      (!!organizationId && share.organization_id === organizationId);
+    if (matches && (!role || hasSessionRole(share.role, role))) {
+      role = share.role;
+    }
+  }
+
+  return role ? { session, role } : null;
+}
+
+/**
+ * Like getSessionAccess, but throws a 404 when the user can't see the session and a 403
+ * when their role is below minimumRole
+ */
+export async function requireSessionAccess(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  user: SessionUser,
+  minimumRole: SessionRole,
+  options: { includeDeleted?: boolean } = {}
+): Promise<{ session: any; role: SessionRole }> {
+  const access = await getSessionAccess(supabaseClient, sessionId, user, options);
+
+  if (!access) {
+    throw new SessionAccessError('Chat session not found', 404);
+  }
+
+  if (!hasSessionRole(access.role, minimumRole)) {
+    throw new SessionAccessError(`This action requires the ${minimumRole} role on the chat session`, 403);
+  }
+
+  return access;
+}
+
+/**
+ * Sessions shared with the user directly or through their active organization, with the role granted
+ */
+export async function listSharedSessionRoles(
+  supabaseClient: SupabaseClient,
+  user: SessionUser
+): Promise<Map<string, ShareRole>> {
+  const organizationId = await getActiveOrganizationId(user);
+  const filters = [`shared_with_user_id.eq.${user.id}`];
+  if (organizationId) {
+    filters.push(`organization_id.eq.${organizationId}`);
+  }
+
+  const { data: shares, error } = await supabaseClient
+    .from('chat_session_shares')
+    .select('session_id, role')
+    .or(filters.join(','));
+
+  if (error) {
+    throw new Error(`Failed to fetch shared chat sessions: ${error.message}`);
+  }
+
+  const roles = new Map<string, ShareRole>();
+  for (const share of (shares || []) as SessionShare[]) {
+    const current = roles.get(share.session_id);
+    if (!current || hasSessionRole(share.role, current)) {
+      roles.set(share.session_id, share.role);
+    }
+  }
+  return roles;
+}
+
+/**
+ * Share a session with one member of the sharer's active organization or the whole
+ * organization; sharing again with the same target updates the role
+ */
+export async function shareSession(
+  supabaseClient: SupabaseClient,
+  options: {
+    sessionId: string;
+    sharedBy: SessionUser;
+    role: ShareRole;
+    userId?: string;
+    organization?: boolean;
+  }
+): Promise<SessionShare> {
+  const { sessionId, sharedBy, role } = options;
+
+  let target: { shared_with_user_id: string | null; organization_id: string | null };
+  if (options.organization) {
+    const organizationId = await getActiveOrganizationId(sharedBy);
+    if (!organizationId) {
+      throw new SessionAccessError('No organization associated with this user', 400);
+    }
+    target = { shared_with_user_id: null, organization_id: organizationId };
+  } else {
+    if (options.userId === sharedBy.id) {
+      throw new SessionAccessError('Chat sessions cannot be shared with their owner', 400);
+    }
+    const organizationId = await getActiveOrganizationId(sharedBy);
+    if (!organizationId || await getActiveOrganizationId({ id: options.userId! }) !== organizationId) {
+      throw new SessionAccessError('User not found in your organization', 404);
+    }
+    target = { shared_with_user_id: options.userId!, organization_id: null };
+  }
+
+  // Replace an existing share with the same target instead of stacking roles
+  let existingQuery = supabaseClient
+    .from('chat_session_shares')
+    .select('id')
+    .eq('session_id', sessionId);
+  existingQuery = target.organization_id
+    ? existingQuery.eq('organization_id', target.organization_id)
+    : existingQuery.eq('shared_with_user_id', target.shared_with_user_id);
+
+  const { data: existing } = await existingQuery.maybeSingle();
+
+  const { data: share, error } = existing
+    ? await supabaseClient
+      .from('chat_session_shares')
+      .update({ role })
+      .eq('id', existing.id)
+      .select()
+      .single()
+    : await supabaseClient
+      .from('chat_session_shares')
+      .insert([{ session_id: sessionId, ...target, role, created_by: sharedBy.id }])
+      .select()
+      .single();
+
+  if (error || !share) {
+    throw new Error(`Failed to share chat session: ${error?.message}`);
+  }
+
+  // Bump the session so the new share shows up in the recipients' next ?since sync
+  await supabaseClient
+    .from('chat_sessions')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', sessionId);
+
+  return share;
+}
+
+/**
+ * Record sessions that disappeared for users or organizations. A failed write is logged
+ * rather than thrown: the removal itself already happened.
+ */
+export async function recordSessionRemovals(
+  supabaseClient: SupabaseClient,
+  removals: SessionRemoval[]
+): Promise<void> {
+  if (removals.length === 0) {
+    return;
+  }
+
+  const removedAt = new Date().toISOString();
+  const { error } = await supabaseClient
+    .from('chat_session_removals')
+    .insert(removals.map(removal => ({ ...removal, removed_at: removedAt })));
+
+  if (error) {
+    console.error('Error recording chat session removals:', error);
+  }
+}
+
+/**
+ * Sessions removed for the user, directly or through their active organization, after since
+ */
+export async function listRemovedSessionIds(
+  supabaseClient: SupabaseClient,
+  user: SessionUser,
+  since: string
+): Promise<string[]> {
+  const organizationId = await getActiveOrganizationId(user);
+  const filters = [`user_id.eq.${user.id}`];
+  if (organizationId) {
+    filters.push(`organization_id.eq.${organizationId}`);
+  }
+
+  const { data: removals, error } = await supabaseClient
+    .from('chat_session_removals')
+    .select('session_id')
+    .or(filters.join(','))
+    .gt('removed_at', since);
+
+  if (error) {
+    throw new Error(`Failed to fetch removed chat sessions: ${error.message}`);
+  }
+
+  return [...new Set((removals || []).map(removal => removal.session_id as string))];
+}
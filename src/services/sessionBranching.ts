@@ -0,0 +1,188 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { collapseAlternatives } from './conversationHistory';
+import { resolveChatProvider } from './chatProviders';
+import { addFollowUpQuestions } from './followUpQuestions';
+import { addCitations } from './citations';
+import { withAnswerUsage, recordLlmUsage } from './llmUsage';
+import { ChatAuth, ChatTurnError, saveChatMessage, buildAssistantMessageData } from './chatTurn';
+import { SessionUser, SessionRole, requireSessionAccess } from './sessionAccess';
+import { ResponseData } from '../types/chat';
+
+// Load a session the user holds at least minimumRole on with all of its messages, oldest first
+async function loadSessionMessages(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  user: SessionUser,
+  minimumRole: SessionRole
+) {
+  const { session } = await requireSessionAccess(supabaseClient, sessionId, user, minimumRole);
+
+  const { data: messages, error } = await supabaseClient
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load chat messages: ${error.message}`);
+  }
+
+  return { session, messages: (messages || []) as any[] };
+}
+
+/**
+ * Re-run the chat provider for a stored assistant answer and save the new answer as an
+ * alternative of the original (alternative_of). The conversation sent to the provider is
+ * the session's main line up to the question that answer replied to. The original answer's
+ * provider and bucket are reused unless params override them; the session's default
+ * settings fill in the remaining options.
+ */
+export async function regenerateAssistantMessage(
+  auth: ChatAuth,
+  options: {
+    sessionId: string;
+    messageId: string;
+    organizationId: string | null;
+    params: Record<string, any>;
+  }
+): Promise<{ message: any; data: ResponseData }> {
+  const { user, supabaseClient } = auth;
+  const { sessionId, messageId, organizationId } = options;
+  const { session, messages } = await loadSessionMessages(supabaseClient, sessionId, user, 'contributor');
+
+  const target = messages.find(message => message.id === messageId);
+  if (!target) {
+    throw new ChatTurnError('Chat message not found', 404);
+  }
+  if (target.role !== 'assistant') {
+    throw new ChatTurnError('Only assistant messages can be regenerated', 400);
+  }
+
+  // Alternatives always point at the original answer
+  const originalId = target.alternative_of || target.id;
+  const original = messages.find(message => message.id === originalId) || target;
+
+  const mainLine = collapseAlternatives(messages);
+  const position = mainLine.findIndex(message => (message.alternative_of || message.id) === originalId);
+  const conversation = mainLine
+    .slice(0, position)
+    .filter(message => (message.role === 'user' || message.role === 'assistant') && message.content)
+    .map(message => ({ role: message.role, content: message.content }));
+
+  if (conversation.length === 0 || conversation[conversation.length - 1].role !== 'user') {
+    throw new ChatTurnError('No question found before this answer', 400);
+  }
+
+  // The session's defaults apply, but the original answer's provider and bucket come first
+  const { provider: defaultProvider, useSessionHistory, historyTokenBudget, ...defaults } = session.default_settings || {};
+  const { provider: requestedProvider, ...requestParams } = options.params;
+  const params: Record<string, any> = {
+    ...defaults,
+    ...(original.bucket_id != null && { bucketId: original.bucket_id }),
+    ...requestParams
+  };
+  const provider = await resolveChatProvider(requestedProvider ?? original.provider ?? defaultProvider, organizationId);
+
+  // Regenerating must produce a fresh answer, so the response cache is not consulted
+  const startedAt = Date.now();
+  let data = withAnswerUsage(
+    await provider.chat({ messages: conversation, params }, { organizationId, sessionId }),
+    { providerName: provider.name, conversation, startedAt }
+  );
+  if (params.suggestFollowUpQuestions === true) {
+    data = await addFollowUpQuestions(data, conversation);
+  }
+  data = addCitations(data);
+
+  if (!data.message?.content) {
+    throw new ChatTurnError('The provider returned an empty answer', 502);
+  }
+
+  const message = await saveChatMessage(
+    supabaseClient,
+    sessionId,
+    user,
+    'assistant',
+    data.message.content,
+    {
+      ...buildAssistantMessageData(data, provider.name, params),
+      alternative_of: originalId
+    }
+  );
+
+  void recordLlmUsage(data.usage, {
+    organizationId,
+    userId: user.id,
+    sessionId,
+    messageId: message?.id ?? null,
+    provider: provider.name
+  });
+
+  return { message, data };
+}
+
+/**
+ * Copy a session's main line up to and including messageId into a new session, so the
+ * conversation can continue from there without touching the original. Regenerated
+ * answers are copied as their newest alternative; timestamps are kept so the copy
+ * sorts the same way.
+ */
+export async function forkSession(
+  auth: ChatAuth,
+  options: { sessionId: string; messageId: string; title?: string }
+): Promise<{ session: any; messages: any[] }> {
+  const { user, supabaseClient } = auth;
+  const { sessionId, messageId } = options;
+  // Anyone who can read a session may continue it in a fork of their own
+  const { session: source, messages } = await loadSessionMessages(supabaseClient, sessionId, user, 'viewer');
+
+  const target = messages.find(message => message.id === messageId);
+  if (!target) {
+    throw new ChatTurnError('Chat message not found', 404);
+  }
+
+  const mainLine = collapseAlternatives(messages);
+  const forkPointId = target.alternative_of || target.id;
+  const position = mainLine.findIndex(message => (message.alternative_of || message.id) === forkPointId);
+  // Forking at an answer that is not the newest alternative keeps the chosen one
+  const history = mainLine.slice(0, position + 1);
+  history[position] = target;
+
+  const { data: session, error: sessionError } = await supabaseClient
+    .from('chat_sessions')
+    .insert([{
+      user_id: user.id,
+      organization_id: source.organization_id ?? null,
+      title: options.title || `${source.title} (fork)`,
+      default_settings: source.default_settings ?? null,
+      forked_from_session_id: sessionId,
+      forked_from_message_id: messageId
+    }])
+    .select()
+    .single();
+
+  if (sessionError || !session) {
+    throw new Error(`Failed to create forked session: ${sessionError?.message}`);
+  }
+
+  // An alternative takes the timestamp of the answer it replaced so the copy keeps its position
+  const timestamps = new Map(messages.map(message => [message.id, message.timestamp]));
+  const copies = history.map(({ id, session_id, alternative_of, ...fields }) => ({
+    ...fields,
+    session_id: session.id,
+    timestamp: timestamps.get(alternative_of || id)
+  }));
+
+  const { data: copiedMessages, error } = await supabaseClient
+    .from('chat_messages')
+    .insert(copies)
+    .select();
+
+  if (error) {
+    // Don't leave an empty fork behind
+    await supabaseClient.from('chat_sessions').delete().eq('id', session.id);
+    throw new Error(`Failed to copy chat messages: ${error.message}`);
+  }
+
+  return { session, messages: copiedMessages || [] };
+}
@@ -0,0 +1,256 @@
+import PDFDocument from 'pdfkit';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { collapseAlternatives } from './conversationHistory';
+import { normalizeCitationSources, CitationSource } from './citations';
+import { SessionUser, getSessionAccess } from './sessionAccess';
+
+export type ExportFormat = 'md' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'pdf'];
+
+export interface ExportOptions {
+  includeThoughts: boolean;
+  includeRawResponse: boolean;
+}
+
+export interface ExportedMessage {
+  role: string;
+  content: string;
+  timestamp: string | null;
+  provider?: string;
+  // Numbered in the order they appear, matching [n] markers in the answer
+  sources: CitationSource[];
+  excerpts: CitationSource[];
+  thoughts?: any;
+  raw_response?: any;
+}
+
+export interface SessionExport {
+  title: string;
+  sessionId: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+  exportedAt: string;
+  messages: ExportedMessage[];
+}
+
+export interface RenderedExport {
+  body: string | Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * Load a session the user can read and shape its main-line messages for export
+ */
+export async function buildSessionExport(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  user: SessionUser,
+  options: ExportOptions
+): Promise<SessionExport | null> {
+  const access = await getSessionAccess(supabaseClient, sessionId, user);
+  if (!access) {
+    return null;
+  }
+  const { session } = access;
+
+  const { data: messages, error } = await supabaseClient
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch chat messages: ${error.message}`);
+  }
+
+  return {
+    title: session.title,
+    sessionId: session.id,
+    createdAt: session.created_at ?? null,
+    updatedAt: session.updated_at ?? null,
+    exportedAt: new Date().toISOString(),
+    messages: collapseAlternatives(messages || []).map((message: any) => ({
+      role: message.role,
+      content: message.content || '',
+      timestamp: message.timestamp ?? null,
+      ...(message.provider && { provider: message.provider }),
+      sources: normalizeCitationSources(message.supporting_content),
+      excerpts: normalizeCitationSources(message.document_excerpts),
+      ...(options.includeThoughts && message.thoughts && { thoughts: message.thoughts }),
+      ...(options.includeRawResponse && message.raw_response && { raw_response: message.raw_response })
+    }))
+  };
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System'
+};
+
+function roleLabel(role: string): string {
+  return ROLE_LABELS[role] || role;
+}
+
+function formatTimestamp(timestamp: string | null): string {
+  if (!timestamp) {
+    return '';
+  }
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+// "contract.pdf, page 3" or the start of the excerpt text when the source has no file name
+function describeSource(source: CitationSource): string {
+  const name = source.fileName || source.id || 'Source';
+  return source.page !== undefined ? `${name}, page ${source.page}` : name;
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
+
+function formatDetails(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+// Safe file name derived from the session title
+function exportFileName(exported: SessionExport, format: ExportFormat): string {
+  const slug = exported.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return `${slug || 'chat-session'}.${format}`;
+}
+
+export function renderMarkdown(exported: SessionExport): string {
+  const lines: string[] = [
+    `# ${exported.title}`,
+    '',
+    `- Created: ${formatTimestamp(exported.createdAt)}`,
+    `- Last updated: ${formatTimestamp(exported.updatedAt)}`,
+    `- Exported: ${formatTimestamp(exported.exportedAt)}`,
+    ''
+  ];
+
+  for (const message of exported.messages) {
+    lines.push('---', '', `## ${roleLabel(message.role)}`, '');
+    const meta = [formatTimestamp(message.timestamp), message.provider && `via ${message.provider}`].filter(Boolean);
+    if (meta.length > 0) {
+      lines.push(`_${meta.join(' · ')}_`, '');
+    }
+    lines.push(message.content, '');
+
+    if (message.sources.length > 0) {
+      lines.push('### Sources', '');
+      message.sources.forEach((source, index) => {
+        lines.push(`${index + 1}. **${describeSource(source)}**${source.text ? ` — ${truncate(source.text, 300)}` : ''}`);
+      });
+      lines.push('');
+    }
+
+    if (message.excerpts.length > 0) {
+      lines.push('### Document excerpts', '');
+      for (const excerpt of message.excerpts) {
+        lines.push(`> **${describeSource(excerpt)}**`);
+        if (excerpt.text) {
+          lines.push('>', ...excerpt.text.split('\n').map(line => `> ${line}`));
+        }
+        lines.push('');
+      }
+    }
+
+    if (message.thoughts) {
+      lines.push('<details><summary>Thought process</summary>', '', '```', formatDetails(message.thoughts), '```', '', '</details>', '');
+    }
+
+    if (message.raw_response) {
+      lines.push('<details><summary>Raw response</summary>', '', '```json', formatDetails(message.raw_response), '```', '', '</details>', '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function renderPdf(exported: SessionExport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50, info: { Title: exported.title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.font('Helvetica-Bold').fontSize(18).text(exported.title);
+    doc.moveDown(0.3);
+    doc.font('Helvetica').fontSize(9).fillColor('#555555')
+      .text(`Created ${formatTimestamp(exported.createdAt)} · Last updated ${formatTimestamp(exported.updatedAt)} · Exported ${formatTimestamp(exported.exportedAt)}`);
+    doc.fillColor('#000000');
+
+    for (const message of exported.messages) {
+      doc.moveDown(1);
+      doc.font('Helvetica-Bold').fontSize(12).text(roleLabel(message.role), { continued: !!message.timestamp });
+      if (message.timestamp) {
+        doc.font('Helvetica').fontSize(9).fillColor('#555555')
+          .text(`  ${formatTimestamp(message.timestamp)}${message.provider ? ` · via ${message.provider}` : ''}`);
+        doc.fillColor('#000000');
+      }
+      doc.moveDown(0.3);
+      doc.font('Helvetica').fontSize(11).text(message.content);
+
+      if (message.sources.length > 0) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica-Bold').fontSize(10).text('Sources');
+        message.sources.forEach((source, index) => {
+          doc.font('Helvetica').fontSize(9)
+            .text(`${index + 1}. ${describeSource(source)}${source.text ? ` — ${truncate(source.text, 300)}` : ''}`, { indent: 10 });
+        });
+      }
+
+      if (message.excerpts.length > 0) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica-Bold').fontSize(10).text('Document excerpts');
+        for (const excerpt of message.excerpts) {
+          doc.font('Helvetica-Oblique').fontSize(9).text(describeSource(excerpt), { indent: 10 });
+          if (excerpt.text) {
+            doc.font('Helvetica').fontSize(9).fillColor('#333333').text(excerpt.text, { indent: 20 });
+            doc.fillColor('#000000');
+          }
+        }
+      }
+
+      if (message.thoughts) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica-Bold').fontSize(10).text('Thought process');
+        doc.font('Courier').fontSize(8).text(formatDetails(message.thoughts));
+      }
+
+      if (message.raw_response) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica-Bold').fontSize(10).text('Raw response');
+        doc.font('Courier').fontSize(8).text(formatDetails(message.raw_response));
+      }
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Render an export in the requested format with its content type and download file name
+ */
+export async function renderSessionExport(exported: SessionExport, format: ExportFormat): Promise<RenderedExport> {
+  const fileName = exportFileName(exported, format);
+
+  switch (format) {
+    case 'md':
+      return { body: renderMarkdown(exported), contentType: 'text/markdown; charset=utf-8', fileName };
+    case 'pdf':
+      return { body: await renderPdf(exported), contentType: 'application/pdf', fileName };
+    default:
+      return { body: JSON.stringify(exported, null, 2), contentType: 'application/json; charset=utf-8', fileName };
+  }
+}
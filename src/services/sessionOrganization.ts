@@ -0,0 +1,272 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// A user's folder (chat_folders) or tag (chat_tags); a session sits in at most one folder but can carry many tags
+export interface SessionFolder {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SessionTag extends SessionFolder {
+  color: string | null;
+}
+
+// Request problem with the HTTP status to answer with
+export class SessionOrganizationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SessionOrganizationError';
+  }
+}
+
+type LabelKind = 'folder' | 'tag';
+
+const LABEL_TABLES: Record<LabelKind, string> = {
+  folder: 'chat_folders',
+  tag: 'chat_tags'
+};
+
+// Postgres unique_violation, raised for a second folder or tag with the same name
+const UNIQUE_VIOLATION = '23505';
+
+function capitalize(kind: LabelKind): string {
+  return kind[0].toUpperCase() + kind.slice(1);
+}
+
+async function listLabels(supabaseClient: SupabaseClient, kind: LabelKind, userId: string) {
+  const { data, error } = await supabaseClient
+    .from(LABEL_TABLES[kind])
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch ${kind}s: ${error.message}`);
+  }
+  return data || [];
+}
+
+async function saveLabel(
+  supabaseClient: SupabaseClient,
+  kind: LabelKind,
+  userId: string,
+  labelId: string | null,
+  fields: Record<string, any>
+) {
+  const now = new Date().toISOString();
+  const query = labelId
+    ? supabaseClient
+      .from(LABEL_TABLES[kind])
+      .update({ ...fields, updated_at: now })
+      .eq('id', labelId)
+      .eq('user_id', userId)
+    : supabaseClient
+      .from(LABEL_TABLES[kind])
+      .insert([{ ...fields, user_id: userId, created_at: now, updated_at: now }]);
+
+  const { data, error } = await query.select().single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new SessionOrganizationError(`A ${kind} named "${fields.name}" already exists`, 409);
+  }
+  // PostgREST's "no rows" error: the id isn't one of the user's
+  if (error?.code === 'PGRST116') {
+    throw new SessionOrganizationError(`${capitalize(kind)} not found`, 404);
+  }
+  if (error || !data) {
+    throw new Error(`Failed to save ${kind}: ${error?.message}`);
+  }
+  return data;
+}
+
+async function deleteLabel(supabaseClient: SupabaseClient, kind: LabelKind, userId: string, labelId: string) {
+  const { data, error } = await supabaseClient
+    .from(LABEL_TABLES[kind])
+    .delete()
+    .eq('id', labelId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete ${kind}: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new SessionOrganizationError(`${capitalize(kind)} not found`, 404);
+  }
+}
+
+// Reject ids that aren't the user's folders or tags
+async function requireOwnLabels(supabaseClient: SupabaseClient, kind: LabelKind, userId: string, labelIds: string[]) {
+  if (labelIds.length === 0) {
+    return;
+  }
+
+  const { data, error } = await supabaseClient
+    .from(LABEL_TABLES[kind])
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', labelIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch ${kind}s: ${error.message}`);
+  }
+
+  const found = new Set((data || []).map((label: any) => label.id));
+  const missing = labelIds.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new SessionOrganizationError(`${capitalize(kind)} not found: ${missing.join(', ')}`, 404);
+  }
+}
+
+// The ids among sessionIds that the user owns and that aren't in the trash
+async function getOwnSessionIds(supabaseClient: SupabaseClient, userId: string, sessionIds: string[]): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('chat_sessions')
+    .select('id')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .in('id', sessionIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch chat sessions: ${error.message}`);
+  }
+  return (data || []).map((session: any) => session.id);
+}
+
+export const listFolders = (supabaseClient: SupabaseClient, userId: string): Promise<SessionFolder[]> =>
+  listLabels(supabaseClient, 'folder', userId);
+
+export const createFolder = (supabaseClient: SupabaseClient, userId: string, fields: { name: string }): Promise<SessionFolder> =>
+  saveLabel(supabaseClient, 'folder', userId, null, fields);
+
+export const updateFolder = (supabaseClient: SupabaseClient, userId: string, folderId: string, fields: { name: string }): Promise<SessionFolder> =>
+  saveLabel(supabaseClient, 'folder', userId, folderId, fields);
+
+// Sessions in the folder are kept and left without a folder (folder_id on delete set null)
+export const deleteFolder = (supabaseClient: SupabaseClient, userId: string, folderId: string): Promise<void> =>
+  deleteLabel(supabaseClient, 'folder', userId, folderId);
+
+export const listTags = (supabaseClient: SupabaseClient, userId: string): Promise<SessionTag[]> =>
+  listLabels(supabaseClient, 'tag', userId);
+
+export const createTag = (supabaseClient: SupabaseClient, userId: string, fields: { name: string; color?: string }): Promise<SessionTag> =>
+  saveLabel(supabaseClient, 'tag', userId, null, fields);
+
+export const updateTag = (supabaseClient: SupabaseClient, userId: string, tagId: string, fields: { name?: string; color?: string }): Promise<SessionTag> =>
+  saveLabel(supabaseClient, 'tag', userId, tagId, fields);
+
+// Removes the tag from every session (chat_session_tags rows cascade)
+export const deleteTag = (supabaseClient: SupabaseClient, userId: string, tagId: string): Promise<void> =>
+  deleteLabel(supabaseClient, 'tag', userId, tagId);
+
+/**
+ * Move the user's sessions into a folder, or out of any folder when folderId is null.
+ * Returns the ids that were moved; sessions the user doesn't own are skipped.
+ */
+export async function moveSessionsToFolder(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  sessionIds: string[],
+  folderId: string | null
+): Promise<string[]> {
+  if (folderId) {
+    await requireOwnLabels(supabaseClient, 'folder', userId, [folderId]);
+  }
+
+  const { data, error } = await supabaseClient
+    .from('chat_sessions')
+    .update({ folder_id: folderId, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .in('id', sessionIds)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to move chat sessions: ${error.message}`);
+  }
+  return (data || []).map((session: any) => session.id);
+}
+
+/**
+ * Add and remove tags on the user's sessions. Adding a tag a session already has is a no-op.
+ * Returns the ids that were updated; sessions the user doesn't own are skipped.
+ */
+export async function tagSessions(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  sessionIds: string[],
+  changes: { add?: string[]; remove?: string[] }
+): Promise<string[]> {
+  const add = changes.add || [];
+  const remove = changes.remove || [];
+
+  await requireOwnLabels(supabaseClient, 'tag', userId, [...new Set([...add, ...remove])]);
+  const ownSessionIds = await getOwnSessionIds(supabaseClient, userId, sessionIds);
+
+  if (ownSessionIds.length === 0) {
+    return [];
+  }
+
+  if (add.length > 0) {
+    const rows = ownSessionIds.flatMap(sessionId => add.map(tagId => ({ session_id: sessionId, tag_id: tagId })));
+    const { error } = await supabaseClient
+      .from('chat_session_tags')
+      .upsert(rows, { onConflict: 'session_id,tag_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to tag chat sessions: ${error.message}`);
+    }
+  }
+
+  if (remove.length > 0) {
+    const { error } = await supabaseClient
+      .from('chat_session_tags')
+      .delete()
+      .in('session_id', ownSessionIds)
+      .in('tag_id', remove);
+
+    if (error) {
+      throw new Error(`Failed to untag chat sessions: ${error.message}`);
+    }
+  }
+
+  // Bump the sessions so tag changes reach ?since syncs, like moves between folders
+  const { error: touchError } = await supabaseClient
+    .from('chat_sessions')
+    .update({ updated_at: new Date().toISOString() })
+    .in('id', ownSessionIds);
+
+  if (touchError) {
+    throw new Error(`Failed to update tagged chat sessions: ${touchError.message}`);
+  }
+
+  return ownSessionIds;
+}
+
+/**
+ * Ids of the sessions carrying every one of the given tags
+ */
+export async function findSessionIdsWithTags(supabaseClient: SupabaseClient, tagIds: string[]): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('chat_session_tags')
+    .select('session_id, tag_id')
+    .in('tag_id', tagIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch tagged chat sessions: ${error.message}`);
+  }
+
+  const tagsBySession = new Map<string, Set<string>>();
+  for (const row of data || []) {
+    const tags = tagsBySession.get(row.session_id) || new Set<string>();
+    tags.add(row.tag_id);
+    tagsBySession.set(row.session_id, tags);
+  }
+
+  const wanted = new Set(tagIds);
+  return [...tagsBySession]
+    .filter(([, tags]) => tags.size === wanted.size)
+    .map(([sessionId]) => sessionId);
+}
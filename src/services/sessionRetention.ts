@@ -0,0 +1,156 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ClientConfiguration, getClientConfigService } from './clientConfigService';
+import { recordSessionRemovals } from './sessionAccess';
+
+// How long trashed sessions are kept, and after how many idle days a session is moved to the trash
+export interface RetentionPolicy {
+  deletedSessionDays: number;
+  // null keeps idle sessions forever
+  staleSessionDays: number | null;
+}
+
+export interface RetentionRunResult {
+  purged: number;
+  trashed: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  deletedSessionDays: 30,
+  staleSessionDays: null
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The organization's retention settings (client_configurations.retention) over the defaults
+ */
+export function resolveRetentionPolicy(config: Pick<ClientConfiguration, 'retention'> | null): RetentionPolicy {
+  const retention = config?.retention;
+  const days = (value: unknown) => typeof value === 'number' && value > 0 ? value : undefined;
+
+  return {
+    deletedSessionDays: days(retention?.deleted_session_days) ?? DEFAULT_RETENTION_POLICY.deletedSessionDays,
+    staleSessionDays: days(retention?.stale_session_days) ?? DEFAULT_RETENTION_POLICY.staleSessionDays
+  };
+}
+
+export async function getRetentionPolicy(organizationId: string | null): Promise<RetentionPolicy> {
+  if (!organizationId) {
+    return DEFAULT_RETENTION_POLICY;
+  }
+  return resolveRetentionPolicy(await getClientConfigService().getClientConfig(organizationId));
+}
+
+/**
+ * When a trashed session will be purged under the given policy
+ */
+export function getPurgeDate(deletedAt: string, policy: RetentionPolicy): string {
+  return new Date(new Date(deletedAt).getTime() + policy.deletedSessionDays * DAY_MS).toISOString();
+}
+
+function daysBefore(now: Date, days: number): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString();
+}
+
+// Sessions of one organization, or of every organization without its own retention settings
+function scoped(query: any, organizationId: string | null, configuredIds: string[]) {
+  if (organizationId) {
+    return query.eq('organization_id', organizationId);
+  }
+  return configuredIds.length > 0
+    ? query.or(`organization_id.is.null,organization_id.not.in.(${configuredIds.join(',')})`)
+    : query;
+}
+
+/**
+ * Purge sessions that have been in the trash longer than their organization allows, and move
+ * sessions idle past the stale period to the trash (pinned sessions are kept). Stale sessions
+ * are not deleted outright so they stay restorable for the trash period.
+ */
+export async function applySessionRetention(
+  supabaseClient: SupabaseClient,
+  configs: Array<Pick<ClientConfiguration, 'organization_id' | 'retention'>>,
+  now: Date = new Date()
+): Promise<RetentionRunResult> {
+  const configured = configs.filter(config => config.retention && Object.keys(config.retention).length > 0);
+  const configuredIds = configured.map(config => config.organization_id);
+  const scopes: Array<{ organizationId: string | null; policy: RetentionPolicy }> = [
+    ...configured.map(config => ({ organizationId: config.organization_id, policy: resolveRetentionPolicy(config) })),
+    { organizationId: null, policy: DEFAULT_RETENTION_POLICY }
+  ];
+
+  const result: RetentionRunResult = { purged: 0, trashed: 0 };
+
+  for (const { organizationId, policy } of scopes) {
+    // Messages, shares and feedback go with the session through the foreign key cascade
+    const { data: purged, error: purgeError } = await scoped(
+      supabaseClient.from('chat_sessions').delete(),
+      organizationId,
+      configuredIds
+    )
+      .lt('deleted_at', daysBefore(now, policy.deletedSessionDays))
+      .select('id, user_id');
+
+    if (purgeError) {
+      throw new Error(`Failed to purge deleted chat sessions: ${purgeError.message}`);
+    }
+    result.purged += purged?.length || 0;
+    // Owners still list trashed sessions, so their next sync has to drop the purged ones
+    await recordSessionRemovals(supabaseClient, (purged || []).map((session: any) => ({
+      session_id: session.id,
+      user_id: session.user_id,
+      organization_id: null
+    })));
+
+    if (policy.staleSessionDays) {
+      const { data: trashed, error: trashError } = await scoped(
+        // updated_at is bumped so ?since syncs pick up the move to the trash
+        supabaseClient.from('chat_sessions').update({ deleted_at: now.toISOString(), deleted_by: null, updated_at: now.toISOString() }),
+        organizationId,
+        configuredIds
+      )
+        .is('deleted_at', null)
+        .eq('pinned', false)
+        .lt('updated_at', daysBefore(now, policy.staleSessionDays))
+        .select('id');
+
+      if (trashError) {
+        throw new Error(`Failed to trash stale chat sessions: ${trashError.message}`);
+      }
+      result.trashed += trashed?.length || 0;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run applySessionRetention now and then every SESSION_RETENTION_INTERVAL_HOURS (default 24).
+ * The job works across users, so it needs SUPABASE_SERVICE_ROLE_KEY and stays off without it.
+ */
+export function startSessionRetentionJob(): NodeJS.Timeout | null {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.log('Session retention job disabled: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+    return null;
+  }
+
+  const hours = Number(process.env.SESSION_RETENTION_INTERVAL_HOURS) || 24;
+  const serviceClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false }
+  });
+
+  const run = async () => {
+    try {
+      const configs = await getClientConfigService().getAllConfigs();
+      const { purged, trashed } = await applySessionRetention(serviceClient, configs);
+      console.log(`Session retention: purged ${purged} deleted sessions, moved ${trashed} stale sessions to the trash`);
+    } catch (error) {
+      console.error('Session retention job failed:', error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, hours * 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+}
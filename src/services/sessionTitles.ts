@@ -0,0 +1,119 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getOpenAIClient } from './openaiClient';
+import { usageFromCompletion } from './llmUsage';
+import { LlmUsage } from '../types/chat';
+
+// Title given to sessions the client creates without one
+export const DEFAULT_SESSION_TITLE = 'New Chat';
+
+const DEFAULT_TITLE_MODEL = 'gpt-4o-mini';
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Derive a title from the user's question when the model is unavailable
+ */
+export function fallbackSessionTitle(question: string): string {
+  const normalized = question.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= MAX_TITLE_LENGTH) {
+    return normalized || DEFAULT_SESSION_TITLE;
+  }
+
+  const truncated = normalized.substring(0, MAX_TITLE_LENGTH);
+  const lastSpace = truncated.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? truncated.substring(0, lastSpace) : truncated).trim()}…`;
+}
+
+/**
+ * Ask the model for a short title summarizing the first exchange of a session; onUsage
+ * receives the tokens the call used
+ */
+export async function generateSessionTitle(
+  question: string,
+  answer: string,
+  onUsage?: (usage: LlmUsage) => void
+): Promise<string> {
+  try {
+    const request = {
+      model: process.env.OPENAI_TITLE_MODEL || DEFAULT_TITLE_MODEL,
+      messages: [
+        {
+          role: 'system' as const,
+          content: 'Write a concise title (at most 6 words) for a chat that starts with the exchange below. Return only the title, without quotes or trailing punctuation.'
+        },
+        { role: 'user' as const, content: `Question: ${question}\n\nAnswer: ${answer.substring(0, 2000)}` }
+      ],
+      temperature: 0.2,
+      max_tokens: 20
+    };
+    const startedAt = Date.now();
+    const completion = await getOpenAIClient().chat.completions.create(request);
+    onUsage?.(usageFromCompletion('title', completion, request, startedAt));
+
+    const title = (completion.choices[0]?.message?.content || '')
+      .replace(/^["'\s]+|["'.\s]+$/g, '')
+      .substring(0, MAX_TITLE_LENGTH);
+
+    return title || fallbackSessionTitle(question);
+  } catch (error) {
+    console.error('Error generating session title:', error);
+    return fallbackSessionTitle(question);
+  }
+}
+
+/**
+ * Title a session from its first exchange if it still has the default title and the
+ * answer just saved is its first assistant reply. Callers check the user may write to
+ * the session first, so the session is looked up by id alone and contributors' first
+ * replies title shared sessions too. Returns the new title, or null when none was set.
+ */
+export async function updateSessionTitleIfDefault(
+  supabaseClient: SupabaseClient,
+  sessionId: string,
+  messages: Array<{ role: string; content: any }>,
+  answer: string,
+  onUsage?: (usage: LlmUsage) => void
+): Promise<string | null> {
+  const { data: session, error } = await supabaseClient
+    .from('chat_sessions')
+    .select('title')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !session || session.title !== DEFAULT_SESSION_TITLE) {
+    return null;
+  }
+
+  // Only the first answer titles the session; later replies never pay for another title call
+  const { count, error: countError } = await supabaseClient
+    .from('chat_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('session_id', sessionId)
+    .eq('role', 'assistant');
+
+  if (countError || (count ?? 0) > 1) {
+    return null;
+  }
+
+  const firstQuestion = messages.find(message => message.role === 'user' && typeof message.content === 'string');
+  if (!firstQuestion) {
+    return null;
+  }
+
+  const title = await generateSessionTitle(firstQuestion.content, answer, onUsage);
+
+  // Only overwrite the default so a rename made in the meantime wins
+  const { data: updated, error: updateError } = await supabaseClient
+    .from('chat_sessions')
+    .update({ title, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('title', DEFAULT_SESSION_TITLE)
+    .select('title')
+    .maybeSingle();
+
+  if (updateError || !updated) {
+    return null;
+  }
+
+  console.log(`Generated title for chat session ${sessionId}: "${title}"`);
+  return title;
+}
@@ -25,11 +25,24 @@ export interface ContractSection {
     summary?: string;
   }
   
+  // Tokens, model and latency of one LLM call made while answering a request
+  export interface LlmUsage {
+    operation: 'answer' | 'follow_up' | 'title';
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    latencyMs: number;
+    // Set when the upstream didn't report tokens and they were estimated from the text
+    estimated?: boolean;
+  }
+  
   export interface ResponseData {
     message?: {
       content: string;
     };
     contractAnalysis?: ContractAnalysis;
+    sessionTitle?: string;
+    usage?: LlmUsage[];
     context?: {
       followup_questions?: string[];
       [key: string]: any;
@@ -39,6 +52,8 @@ export interface ContractSection {
   export interface ChatRequest {
     messages: any[];
     sessionId?: string;
+    useSessionHistory?: boolean;
+    historyTokenBudget?: number;
     temperature?: number;
     seed?: string;
     stream?: boolean;
@@ -0,0 +1,150 @@
+// Keyset pagination over a timestamp column with the row id as tie-breaker
+
+export interface PageParams {
+  limit: number;
+  cursor?: { value: string; id: string };
+  since?: string;
+  ascending: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Cursor parts end up inside a PostgREST filter string, so only timestamps and row ids get through
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+export const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeCursor(value: string, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+/**
+ * Decode a client-supplied cursor; null unless it holds an ISO timestamp and a UUID
+ */
+export function decodeCursor(cursor: string): { value: string; id: string } | null {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value !== 'string' || typeof id !== 'string') {
+      return null;
+    }
+    return ISO_TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value)) && UUID.test(id) ? { value, id } : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read limit, cursor, since and order from a query string; error describes the first invalid parameter
+ */
+export function parsePageParams(query: any, defaultAscending: boolean): { params?: PageParams; error?: string } {
+  const { limit, cursor, since, order } = query;
+  const params: PageParams = { ascending: defaultAscending, limit: DEFAULT_PAGE_SIZE };
+
+  if (order !== undefined) {
+    if (order !== 'asc' && order !== 'desc') {
+      return { error: 'order must be one of: asc, desc' };
+    }
+    params.ascending = order === 'asc';
+  }
+
+  if (limit !== undefined) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    params.limit = parsed;
+  }
+
+  if (cursor !== undefined) {
+    const decoded = typeof cursor === 'string' ? decodeCursor(cursor) : null;
+    if (!decoded) {
+      return { error: 'cursor is invalid' };
+    }
+    params.cursor = decoded;
+  }
+
+  if (since !== undefined) {
+    if (typeof since !== 'string' || Number.isNaN(Date.parse(since))) {
+      return { error: 'since must be an ISO timestamp' };
+    }
+    params.since = since;
+  }
+
+  return { params };
+}
+
+/**
+ * Apply since, cursor, ordering and limit to a Supabase query. One extra row is
+ * fetched so buildPage can tell whether another page follows.
+ */
+export function applyPageParams<Q extends {
+  gt(column: string, value: any): Q;
+  or(filters: string): Q;
+  order(column: string, options: { ascending: boolean }): Q;
+  limit(count: number): Q;
+}>(query: Q, column: string, params: PageParams): Q {
+  let paged = query;
+
+  if (params.since) {
+    paged = paged.gt(column, params.since);
+  }
+
+  if (params.cursor) {
+    const op = params.ascending ? 'gt' : 'lt';
+    const { value, id } = params.cursor;
+    paged = paged.or(`${column}.${op}."${value}",and(${column}.eq."${value}",id.${op}."${id}")`);
+  }
+
+  paged = paged
+    .order(column, { ascending: params.ascending })
+    .order('id', { ascending: params.ascending });
+
+  return paged.limit(params.limit + 1);
+}
+
+/**
+ * Trim the extra row fetched by applyPageParams and point the next cursor at the last returned row
+ */
+export function buildPage<T extends Record<string, any>>(rows: T[], column: string, params: PageParams): Page<T> {
+  if (rows.length <= params.limit) {
+    return { items: rows, nextCursor: null, hasMore: false };
+  }
+
+  const items = rows.slice(0, params.limit);
+  const last = items[items.length - 1];
+  return { items, nextCursor: encodeCursor(String(last[column]), String(last.id)), hasMore: true };
+}
+
+// PostgREST answers at most max-rows rows per request (1000 by default)
+const FETCH_ALL_PAGE_SIZE = 1000;
+
+/**
+ * Read every row a query matches, one .range() page at a time, for aggregates that
+ * PostgREST's max-rows cap would otherwise truncate silently. buildQuery must order the
+ * rows stably (e.g. by id) so pages neither overlap nor skip rows.
+ */
+export async function fetchAllRows<T>(
+  buildQuery: () => { range(from: number, to: number): PromiseLike<{ data: any[] | null; error: { message: string } | null }> },
+  pageSize: number = FETCH_ALL_PAGE_SIZE
+): Promise<{ data: T[]; error: { message: string } | null }> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; ) {
+    const { data, error } = await buildQuery().range(from, from + pageSize - 1);
+    if (error) {
+      return { data: rows, error };
+    }
+    // A smaller server cap returns short pages, so only an empty page means the rows ran out
+    if (!data || data.length === 0) {
+      return { data: rows, error: null };
+    }
+    rows.push(...data);
+    from += data.length;
+  }
+}
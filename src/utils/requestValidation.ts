@@ -0,0 +1,649 @@
+import { UUID } from './pagination';
+
+// A single validation failure, addressed by its path in the request body (e.g. messages[2].content)
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T = Record<string, any>> {
+  issues: ValidationIssue[];
+  value: T;
+}
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant'];
+const RETRIEVAL_MODES = ['hybrid', 'vectors', 'text'];
+export const FEEDBACK_RATINGS = ['up', 'down'];
+export const SHARE_ROLES = ['viewer', 'contributor'];
+export const SEARCH_SCOPES = ['user', 'organization'];
+export const FEEDBACK_REASONS = ['inaccurate', 'incomplete', 'irrelevant', 'missing_citations', 'wrong_source', 'formatting', 'other'];
+const MAX_TEXT_FIELD_LENGTH = 10000;
+const MAX_BULK_SESSIONS = 500;
+const MAX_USAGE_PERIOD_DAYS = 366;
+// Provider conversation state that only makes sense for a single request, never as a session default
+const PER_REQUEST_FIELDS = ['context', 'session_state', 'databaseSessionId'];
+
+function getMaxMessages(): number {
+  return parseInt(process.env.CHAT_MAX_MESSAGES || '', 10) || 100;
+}
+
+function getMaxMessageChars(): number {
+  return parseInt(process.env.CHAT_MAX_MESSAGE_CHARS || '', 10) || 32000;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Small collector used by the request validators below; every check is skipped
+ * when the field is absent unless it is marked required
+ */
+class Validator {
+  issues: ValidationIssue[] = [];
+  value: Record<string, any> = {};
+
+  constructor(private body: Record<string, any>) {}
+
+  private present(field: string, required: boolean): boolean {
+    const value = this.body[field];
+    if (value === undefined || value === null) {
+      if (required) {
+        this.issues.push({ path: field, message: 'is required' });
+      }
+      return false;
+    }
+    return true;
+  }
+
+  string(field: string, options: { required?: boolean; maxLength?: number } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    const value = this.body[field];
+    const maxLength = options.maxLength ?? MAX_TEXT_FIELD_LENGTH;
+
+    if (typeof value !== 'string') {
+      this.issues.push({ path: field, message: 'must be a string' });
+    } else if (options.required && value.trim().length === 0) {
+      this.issues.push({ path: field, message: 'must not be empty' });
+    } else if (value.length > maxLength) {
+      this.issues.push({ path: field, message: `must be at most ${maxLength} characters` });
+    } else {
+      this.value[field] = value;
+    }
+    return this;
+  }
+
+  number(field: string, options: { required?: boolean; min?: number; max?: number; integer?: boolean } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    const value = this.body[field];
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.issues.push({ path: field, message: 'must be a number' });
+    } else if (options.integer && !Number.isInteger(value)) {
+      this.issues.push({ path: field, message: 'must be an integer' });
+    } else if (options.min !== undefined && value < options.min) {
+      this.issues.push({ path: field, message: `must be at least ${options.min}` });
+    } else if (options.max !== undefined && value > options.max) {
+      this.issues.push({ path: field, message: `must be at most ${options.max}` });
+    } else {
+      this.value[field] = value;
+    }
+    return this;
+  }
+
+  boolean(field: string): this {
+    if (!this.present(field, false)) return this;
+    if (typeof this.body[field] !== 'boolean') {
+      this.issues.push({ path: field, message: 'must be a boolean' });
+    } else {
+      this.value[field] = this.body[field];
+    }
+    return this;
+  }
+
+  oneOf(field: string, allowed: readonly string[], options: { required?: boolean } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    if (!allowed.includes(this.body[field])) {
+      this.issues.push({ path: field, message: `must be one of: ${allowed.join(', ')}` });
+    } else {
+      this.value[field] = this.body[field];
+    }
+    return this;
+  }
+
+  // Numeric ids arrive as numbers from some clients and strings from others
+  identifier(field: string, options: { required?: boolean } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    const value = this.body[field];
+    if ((typeof value === 'string' && value.trim().length > 0) || (typeof value === 'number' && Number.isInteger(value))) {
+      this.value[field] = value;
+    } else {
+      this.issues.push({ path: field, message: 'must be a non-empty string or an integer' });
+    }
+    return this;
+  }
+
+  stringArray(field: string, options: { required?: boolean; maxItems?: number } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    const value = this.body[field];
+
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.trim().length === 0)) {
+      this.issues.push({ path: field, message: 'must be an array of non-empty strings' });
+    } else if (options.required && value.length === 0) {
+      this.issues.push({ path: field, message: 'must not be empty' });
+    } else if (options.maxItems !== undefined && value.length > options.maxItems) {
+      this.issues.push({ path: field, message: `must contain at most ${options.maxItems} items` });
+    } else {
+      this.value[field] = value;
+    }
+    return this;
+  }
+
+  // Row ids that are passed straight to Postgres, where anything else is a query error
+  uuidArray(field: string, options: { required?: boolean; maxItems?: number } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    const value = this.body[field];
+
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !UUID.test(item))) {
+      this.issues.push({ path: field, message: 'must be a list of UUIDs' });
+    } else if (options.required && value.length === 0) {
+      this.issues.push({ path: field, message: 'must not be empty' });
+    } else if (options.maxItems !== undefined && value.length > options.maxItems) {
+      this.issues.push({ path: field, message: `must contain at most ${options.maxItems} items` });
+    } else {
+      this.value[field] = value;
+    }
+    return this;
+  }
+
+  timestamp(field: string, options: { required?: boolean } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    const value = this.body[field];
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      this.issues.push({ path: field, message: 'must be an ISO date' });
+    } else {
+      this.value[field] = value;
+    }
+    return this;
+  }
+
+  object(field: string): this {
+    if (!this.present(field, false)) return this;
+    if (!isPlainObject(this.body[field])) {
+      this.issues.push({ path: field, message: 'must be an object' });
+    } else {
+      this.value[field] = this.body[field];
+    }
+    return this;
+  }
+
+  array(field: string): this {
+    if (!this.present(field, false)) return this;
+    if (!Array.isArray(this.body[field])) {
+      this.issues.push({ path: field, message: 'must be an array' });
+    } else {
+      this.value[field] = this.body[field];
+    }
+    return this;
+  }
+
+  messages(field: string, options: { required?: boolean } = {}): this {
+    if (!this.present(field, !!options.required)) return this;
+    const messages = this.body[field];
+    const maxMessages = getMaxMessages();
+    const maxChars = getMaxMessageChars();
+
+    if (!Array.isArray(messages)) {
+      this.issues.push({ path: field, message: 'must be an array' });
+      return this;
+    }
+    if (options.required && messages.length === 0) {
+      this.issues.push({ path: field, message: 'must contain at least one message' });
+      return this;
+    }
+    if (messages.length > maxMessages) {
+      this.issues.push({ path: field, message: `must contain at most ${maxMessages} messages` });
+      return this;
+    }
+
+    const issueCount = this.issues.length;
+    messages.forEach((message: any, index: number) => {
+      const path = `${field}[${index}]`;
+
+      if (!isPlainObject(message)) {
+        this.issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      if (!MESSAGE_ROLES.includes(message.role)) {
+        this.issues.push({ path: `${path}.role`, message: `must be one of: ${MESSAGE_ROLES.join(', ')}` });
+      }
+
+      const content = message.content;
+      if (typeof content === 'string') {
+        if (content.length > maxChars) {
+          this.issues.push({ path: `${path}.content`, message: `must be at most ${maxChars} characters` });
+        }
+      } else if (Array.isArray(content)) {
+        // Multimodal content parts (OpenAI format)
+        content.forEach((part: any, partIndex: number) => {
+          const partPath = `${path}.content[${partIndex}]`;
+          if (isPlainObject(part) && part.type === 'text' && typeof part.text === 'string') {
+            if (part.text.length > maxChars) {
+              this.issues.push({ path: `${partPath}.text`, message: `must be at most ${maxChars} characters` });
+            }
+          } else if (!(isPlainObject(part) && part.type === 'image_url' && typeof part.image_url?.url === 'string')) {
+            this.issues.push({ path: partPath, message: 'must be a text or image_url content part' });
+          }
+        });
+      } else {
+        this.issues.push({ path: `${path}.content`, message: 'must be a string or an array of content parts' });
+      }
+    });
+
+    if (this.issues.length === issueCount) {
+      this.value[field] = messages;
+    }
+    return this;
+  }
+
+  result(): ValidationResult {
+    return { issues: this.issues, value: this.value };
+  }
+}
+
+// Query string values arrive as strings: convert the numeric fields and split the comma-separated lists
+function parseQueryFields(query: Record<string, any>, fields: { numbers?: string[]; lists?: string[] }): Record<string, any> {
+  const parsed = { ...query };
+  for (const field of fields.numbers || []) {
+    if (typeof parsed[field] === 'string' && parsed[field].trim() !== '') {
+      parsed[field] = Number(parsed[field]);
+    }
+  }
+  for (const field of fields.lists || []) {
+    if (typeof parsed[field] === 'string') {
+      parsed[field] = parsed[field].split(',').map((item: string) => item.trim());
+    }
+  }
+  return parsed;
+}
+
+function requireObjectBody(body: unknown): ValidationResult | null {
+  if (!isPlainObject(body)) {
+    return { issues: [{ path: '', message: 'Request body must be a JSON object' }], value: {} };
+  }
+  return null;
+}
+
+// Provider selection and generation options shared by chat and regenerate requests
+function validateChatOptions(validator: Validator, body: Record<string, any>): Validator {
+  validator
+    // Provider names are checked when the provider is resolved
+    .string('provider', { maxLength: 100 })
+    .number('temperature', { min: 0, max: 2 })
+    .boolean('suggestFollowUpQuestions')
+    .string('promptTemplate')
+    .number('minSearchScore', { min: 0, max: 1 })
+    .number('minRerankerScore', { min: 0, max: 4 })
+    .string('includeCategory', { maxLength: 200 })
+    .string('excludeCategory', { maxLength: 200 })
+    .boolean('useSemanticRanker')
+    .boolean('useSemanticCaptions')
+    .oneOf('retrievalMode', RETRIEVAL_MODES)
+    .boolean('include_thought_process')
+    // Provider-specific options
+    .identifier('bucketId')
+    .number('limit', { min: 1, max: 100, integer: true })
+    .boolean('includeThoughts')
+    .string('index', { maxLength: 200 })
+    .array('filters')
+    .number('minRelevance', { min: 0, max: 1 })
+    .object('args')
+    .string('model', { maxLength: 100 })
+    .identifier('databaseSessionId')
+    .object('context')
+    .object('session_state');
+
+  const seed = body.seed;
+  if (seed !== undefined && seed !== null) {
+    if (typeof seed === 'string' || (typeof seed === 'number' && Number.isInteger(seed))) {
+      validator.value.seed = seed;
+    } else {
+      validator.issues.push({ path: 'seed', message: 'must be a string or an integer' });
+    }
+  }
+
+  return validator;
+}
+
+/**
+ * Validate a ChatRequest for /api/chat and /api/chat-stream. Only known fields are
+ * kept in the returned value, so unexpected body fields are never forwarded upstream.
+ */
+export function validateChatRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  const validator = new Validator(body as Record<string, any>)
+    .messages('messages', { required: true })
+    .string('sessionId', { maxLength: 100 })
+    .boolean('useSessionHistory')
+    .number('historyTokenBudget', { min: 1, max: 100000, integer: true })
+    .boolean('stream')
+    .boolean('contractAnalysis')
+    .string('contractName', { maxLength: 500 })
+    .string('analysisPrompt');
+
+  return validateChatOptions(validator, body as Record<string, any>).result();
+}
+
+/**
+ * Validate the options for regenerating a stored answer; an empty body reuses the
+ * original answer's provider
+ */
+export function validateRegenerateRequest(body: unknown = {}): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  return validateChatOptions(new Validator(body as Record<string, any>), body as Record<string, any>).result();
+}
+
+/**
+ * Validate a GroundX RAG request body
+ */
+export function validateGroundXRagRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  return new Validator(body as Record<string, any>)
+    .string('query', { required: true, maxLength: getMaxMessageChars() })
+    .identifier('bucketId', { required: true })
+    .messages('messages')
+    .number('limit', { min: 1, max: 100, integer: true })
+    .boolean('includeThoughts')
+    .number('temperature', { min: 0, max: 2 })
+    .boolean('conversationContext')
+    .result();
+}
+
+/**
+ * Validate a Kernel Memory ask request body
+ */
+export function validateKernelMemoryAskRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  return new Validator(body as Record<string, any>)
+    .string('question', { required: true, maxLength: getMaxMessageChars() })
+    .string('index', { maxLength: 200 })
+    .array('filters')
+    .number('minRelevance', { min: 0, max: 1 })
+    .boolean('stream')
+    .object('args')
+    .result();
+}
+
+/**
+ * Validate a session fork body
+ */
+export function validateForkSessionRequest(body: unknown = {}): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  return new Validator(body as Record<string, any>)
+    .string('title', { maxLength: 200 })
+    .result();
+}
+
+/**
+ * Validate a session's default chat settings: the chat options of a ChatRequest plus the
+ * stored history options
+ */
+export function validateSessionSettings(settings: unknown): ValidationResult {
+  if (!isPlainObject(settings)) {
+    return { issues: [{ path: '', message: 'must be an object' }], value: {} };
+  }
+
+  const validator = new Validator(settings)
+    .boolean('useSessionHistory')
+    .number('historyTokenBudget', { min: 1, max: 100000, integer: true });
+  validateChatOptions(validator, settings);
+
+  for (const field of PER_REQUEST_FIELDS) {
+    if (field in settings) {
+      validator.issues.push({ path: field, message: 'cannot be stored as a session default' });
+      delete validator.value[field];
+    }
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate a session update body: a new title, the archived and pinned flags and/or the
+ * default chat settings (null clears them)
+ */
+export function validateUpdateSessionRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  const validator = new Validator(body as Record<string, any>)
+    .string('title', { maxLength: 200 })
+    .boolean('archived')
+    .boolean('pinned');
+
+  const { settings } = body as Record<string, any>;
+  if (settings === null) {
+    validator.value.settings = null;
+  } else if (settings !== undefined) {
+    const { issues, value } = validateSessionSettings(settings);
+    validator.issues.push(...issues.map(issue => ({
+      path: issue.path ? `settings.${issue.path}` : 'settings',
+      message: issue.message
+    })));
+    if (issues.length === 0) {
+      validator.value.settings = value;
+    }
+  }
+
+  if (validator.issues.length === 0 && Object.keys(validator.value).length === 0) {
+    validator.issues.push({ path: 'title', message: 'title, archived, pinned or settings is required' });
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate a message feedback body (thumbs up/down with an optional reason and comment)
+ */
+export function validateMessageFeedbackRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  return new Validator(body as Record<string, any>)
+    .oneOf('rating', FEEDBACK_RATINGS, { required: true })
+    .oneOf('reason', FEEDBACK_REASONS)
+    .string('comment', { maxLength: 2000 })
+    .result();
+}
+
+/**
+ * Validate a session share body: one user (userId) or the whole active organization (organization: true)
+ */
+export function validateShareSessionRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  const validator = new Validator(body as Record<string, any>)
+    .oneOf('role', SHARE_ROLES, { required: true })
+    .string('userId', { maxLength: 100 })
+    .boolean('organization');
+
+  const { userId, organization } = validator.value;
+  if (!userId && organization !== true) {
+    validator.issues.push({ path: 'userId', message: 'is required unless organization is true' });
+  } else if (userId && organization === true) {
+    validator.issues.push({ path: 'organization', message: 'cannot be combined with userId' });
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate a folder body
+ */
+export function validateFolderRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  return new Validator(body as Record<string, any>)
+    .string('name', { required: true, maxLength: 100 })
+    .result();
+}
+
+/**
+ * Validate a tag body
+ */
+export function validateTagRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  return new Validator(body as Record<string, any>)
+    .string('name', { required: true, maxLength: 50 })
+    .string('color', { maxLength: 32 })
+    .result();
+}
+
+/**
+ * Validate a bulk move body; folderId null takes the sessions out of their folder
+ */
+export function validateBulkMoveRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  const validator = new Validator(body as Record<string, any>)
+    .stringArray('sessionIds', { required: true, maxItems: MAX_BULK_SESSIONS })
+    .string('folderId', { maxLength: 100 });
+
+  if (!('folderId' in (body as Record<string, any>))) {
+    validator.issues.push({ path: 'folderId', message: 'is required (null removes the sessions from their folder)' });
+  } else if ((body as Record<string, any>).folderId === null) {
+    validator.value.folderId = null;
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate a bulk tag body: tag ids to add and/or remove on every listed session
+ */
+export function validateBulkTagRequest(body: unknown): ValidationResult {
+  const invalidBody = requireObjectBody(body);
+  if (invalidBody) return invalidBody;
+
+  const validator = new Validator(body as Record<string, any>)
+    .stringArray('sessionIds', { required: true, maxItems: MAX_BULK_SESSIONS })
+    .stringArray('add', { maxItems: 50 })
+    .stringArray('remove', { maxItems: 50 });
+
+  const { add, remove } = validator.value;
+  if (validator.issues.length === 0 && !add?.length && !remove?.length) {
+    validator.issues.push({ path: 'add', message: 'add or remove must list at least one tag' });
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate the query string of the session listing. Paging parameters are checked by
+ * parsePageParams; folderId is a folder id or none, tagId a comma-separated list of tag ids.
+ */
+export function validateSessionListQuery(query: unknown): ValidationResult {
+  const invalidQuery = requireObjectBody(query);
+  if (invalidQuery) return invalidQuery;
+
+  const validator = new Validator(parseQueryFields(query as Record<string, any>, { lists: ['tagId'] }))
+    .string('limit', { maxLength: 100 })
+    .string('cursor', { maxLength: 500 })
+    .string('since', { maxLength: 100 })
+    .string('order', { maxLength: 100 })
+    .string('shared', { maxLength: 100 })
+    .string('archived', { maxLength: 100 })
+    .string('pinned', { maxLength: 100 })
+    .string('folderId', { maxLength: 100 })
+    .uuidArray('tagId', { maxItems: 50 });
+
+  const { folderId } = validator.value;
+  if (folderId !== undefined && folderId !== 'none' && !UUID.test(folderId)) {
+    delete validator.value.folderId;
+    validator.issues.push({ path: 'folderId', message: 'must be a folder id or none' });
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate the query string of a chat history search; role is a comma-separated list
+ */
+export function validateChatSearchQuery(query: unknown): ValidationResult {
+  const invalidQuery = requireObjectBody(query);
+  if (invalidQuery) return invalidQuery;
+
+  const validator = new Validator(parseQueryFields(query as Record<string, any>, { numbers: ['limit', 'offset'], lists: ['role'] }))
+    .string('q', { required: true, maxLength: 500 })
+    .oneOf('scope', SEARCH_SCOPES)
+    .number('limit', { min: 1, max: 100, integer: true })
+    .number('offset', { min: 0, integer: true })
+    .stringArray('role', { maxItems: MESSAGE_ROLES.length })
+    .timestamp('from')
+    .timestamp('to')
+    .string('organizationId', { maxLength: 100 });
+
+  if (validator.value.role?.some((role: string) => !MESSAGE_ROLES.includes(role))) {
+    validator.issues.push({ path: 'role', message: `must be a list of: ${MESSAGE_ROLES.join(', ')}` });
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate the filters of the message feedback summary
+ */
+export function validateFeedbackSummaryQuery(query: unknown): ValidationResult {
+  const invalidQuery = requireObjectBody(query);
+  if (invalidQuery) return invalidQuery;
+
+  return new Validator(query as Record<string, any>)
+    .string('organizationId', { maxLength: 100 })
+    .timestamp('from')
+    .timestamp('to')
+    .string('provider', { maxLength: 100 })
+    .string('bucketId', { maxLength: 100 })
+    .result();
+}
+
+/**
+ * Validate the filters of the LLM usage summary; a from/to period may span at most
+ * MAX_USAGE_PERIOD_DAYS because the summary reads every row in it
+ */
+export function validateUsageQuery(query: unknown): ValidationResult {
+  const invalidQuery = requireObjectBody(query);
+  if (invalidQuery) return invalidQuery;
+
+  const validator = new Validator(query as Record<string, any>)
+    .string('organizationId', { maxLength: 100 })
+    .string('userId', { maxLength: 100 })
+    .timestamp('from')
+    .timestamp('to');
+
+  const { from, to } = validator.value;
+  if (typeof from === 'string' && typeof to === 'string') {
+    const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+    if (days < 0) {
+      validator.issues.push({ path: 'to', message: 'must not be before from' });
+    } else if (days > MAX_USAGE_PERIOD_DAYS) {
+      validator.issues.push({ path: 'to', message: `must be at most ${MAX_USAGE_PERIOD_DAYS} days after from` });
+    }
+  }
+
+  return validator.result();
+}
@@ -0,0 +1,170 @@
+// A complete event decoded from an SSE or NDJSON stream
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * Incremental parser for Server-Sent Events and newline-delimited JSON.
+ *
+ * Chunks can be pushed exactly as they arrive from the network; lines split
+ * across chunks are held back until complete, multi-line `data:` fields are
+ * joined, and bare JSON lines (NDJSON) are emitted as standalone events.
+ */
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  push(chunk: string): SSEEvent[] {
+    this.buffer += chunk;
+    const events: SSEEvent[] = [];
+
+    let lineEnd = this.findLineEnd();
+    while (lineEnd) {
+      const line = this.buffer.substring(0, lineEnd.index);
+      this.buffer = this.buffer.substring(lineEnd.index + lineEnd.length);
+      this.processLine(line, events);
+      lineEnd = this.findLineEnd();
+    }
+
+    return events;
+  }
+
+  /**
+   * Process any unterminated input once the stream has ended
+   */
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+
+    if (this.buffer) {
+      const line = this.buffer.replace(/\r$/, '');
+      this.buffer = '';
+      this.processLine(line, events);
+    }
+
+    this.dispatch(events);
+    return events;
+  }
+
+  // Locate the next line terminator (\r\n, \n or \r), holding back a trailing \r
+  // in case its \n arrives in the next chunk
+  private findLineEnd(): { index: number; length: number } | null {
+    const match = /\r\n|\n|\r/.exec(this.buffer);
+    if (!match) {
+      return null;
+    }
+
+    if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+      return null;
+    }
+
+    return { index: match.index, length: match[0].length };
+  }
+
+  private processLine(line: string, events: SSEEvent[]): void {
+    // A blank line terminates the current event
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+
+    // Comment / keep-alive line
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    // NDJSON line outside of an SSE event
+    const trimmed = line.trim();
+    if (this.dataLines.length === 0 && (trimmed.startsWith('{') || trimmed.startsWith('['))) {
+      events.push({ event: 'message', data: trimmed });
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.substring(0, separator);
+    let value = separator === -1 ? '' : line.substring(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored per the SSE specification
+        break;
+    }
+  }
+
+  private dispatch(events: SSEEvent[]): void {
+    if (this.dataLines.length > 0) {
+      events.push({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        ...(this.lastEventId !== undefined && { id: this.lastEventId }),
+        ...(this.retry !== undefined && { retry: this.retry })
+      });
+    }
+
+    this.dataLines = [];
+    this.eventType = '';
+    this.retry = undefined;
+  }
+}
+
+/**
+ * Parse an event's data as JSON, returning null for the `[DONE]` sentinel or non-JSON data
+ */
+export function parseEventData(data: string): any | null {
+  const trimmed = data.trim();
+  if (!trimmed || trimmed === '[DONE]') {
+    return null;
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Extract the incremental answer text from a streamed chunk, supporting both the
+ * OpenAI `choices[0].delta` shape and the Azure sample app's top-level `delta`
+ */
+export function extractDeltaContent(payload: any): string {
+  if (!payload || typeof payload !== 'object') {
+    return '';
+  }
+
+  const openAIContent = payload.choices?.[0]?.delta?.content;
+  if (typeof openAIContent === 'string') {
+    return openAIContent;
+  }
+
+  const azureContent = payload.delta?.content;
+  if (typeof azureContent === 'string') {
+    return azureContent;
+  }
+
+  return '';
+}
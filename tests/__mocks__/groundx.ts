@@ -0,0 +1,3 @@
+// Stand-in for the GroundX SDK, which pulls in ESM-only dependencies jest can't load.
+// Suites that exercise GroundX calls replace it with their own jest.mock('groundx', ...).
+export const GroundXClient = jest.fn().mockImplementation(() => ({}));
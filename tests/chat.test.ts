@@ -1,17 +1,62 @@
 import request from 'supertest';
 import express from 'express';
+import http from 'http';
 import chatRoutes from '../src/routes/chat';
+import { resetCircuitBreakers } from '../src/services/resilientFetch';
+import { getCacheStore } from '../src/services/responseCache';
+import { getChatStreamBuffer } from '../src/services/chatStreamBuffer';
 
 // Mock the Azure auth service
+const mockCreateAzureAuthServiceForClient = jest.fn(() => ({
+  validateConfig: () => ({ valid: true }),
+  getAccessToken: jest.fn().mockResolvedValue('tenant-token')
+}));
+
 jest.mock('../src/services/azureAuth', () => ({
   createAzureAuthService: () => ({
     validateConfig: () => ({ valid: true }),
     getAccessToken: jest.fn().mockResolvedValue('mock-token')
+  }),
+  createAzureAuthServiceForClient: (...args: any[]) => (mockCreateAzureAuthServiceForClient as any)(...args)
+}));
+
+// User and organization context applied by the optional Supabase auth middleware
+let mockOrganizationContext: any = undefined;
+let mockUser: any = undefined;
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  optionalSupabaseAuth: (req: any, res: any, next: any) => {
+    req.organizationContext = mockOrganizationContext;
+    req.user = mockUser;
+    next();
+  }
+}));
+
+// Mock per-organization client configurations
+const mockGetClientConfig = jest.fn();
+
+jest.mock('../src/services/clientConfigService', () => ({
+  getClientConfigService: () => ({
+    getClientConfig: mockGetClientConfig
   })
 }));
 
-// Chat routes use Azure authentication only (not Supabase)
-// Supabase auth is for multitenant frontend, Azure auth is for chat APIs
+// Mock OpenAI SDK (used by the openai provider and follow-up generation)
+const mockOpenAIClient = {
+  chat: {
+    completions: {
+      create: jest.fn()
+    }
+  }
+};
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => mockOpenAIClient)
+}));
+
+// Chat routes use Azure authentication for the backend
+// Supabase auth only resolves the caller's organization
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -26,6 +71,15 @@ describe('Chat Routes', () => {
     
     // Reset mocks
     jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockReset();
+    resetCircuitBreakers();
+    mockOrganizationContext = undefined;
+    mockUser = undefined;
+    mockGetClientConfig.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    delete process.env.RESPONSE_CACHE_ENABLED;
   });
 
   describe('POST /api/chat', () => {
@@ -80,8 +134,8 @@ describe('Chat Routes', () => {
     });
 
     it('should handle network errors', async () => {
-      // Mock network error
-      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+      // Mock network error; the request may have reached the backend, so it is not retried
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
 
       const response = await request(app)
         .post('/api/chat')
@@ -92,6 +146,143 @@ describe('Chat Routes', () => {
       expect(response.status).toBe(500);
       expect(response.body).toHaveProperty('error');
       expect(response.body.message).toBe('Network error');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry connection errors raised before the request was sent', async () => {
+      (global.fetch as jest.Mock)
+        .mockRejectedValueOnce(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } }))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ message: { content: 'Connected' } })
+        });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Hello test' }]
+        });
+
+      expect(response.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry 503 responses honoring Retry-After', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: new Headers({ 'Retry-After': '0' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ message: { content: 'Warmed up' } })
+        });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Hello test' }]
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message.content).toBe('Warmed up');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail fast with 503 once the backend circuit is open', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error'
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await request(app)
+          .post('/api/chat')
+          .send({ messages: [{ role: 'user', content: 'Hello test' }] });
+      }
+      (global.fetch as jest.Mock).mockClear();
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({ messages: [{ role: 'user', content: 'Hello test' }] });
+
+      expect(response.status).toBe(503);
+      expect(response.body.error).toBe('Chat backend unavailable');
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+      expect(response.body.message).not.toContain('test-backend.example.com');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should cache identical chat requests per organization when enabled', async () => {
+      process.env.RESPONSE_CACHE_ENABLED = 'true';
+      await getCacheStore().clear();
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ message: { content: 'Canned answer' } })
+      });
+
+      const send = (headers: Record<string, string> = {}) => request(app)
+        .post('/api/chat')
+        .set(headers)
+        .send({ messages: [{ role: 'user', content: 'What is our PTO policy?' }] });
+
+      mockOrganizationContext = { activeOrganizationId: 'org-1' };
+      const miss = await send();
+      const hit = await send();
+      const bypass = await send({ 'Cache-Control': 'no-cache' });
+
+      mockOrganizationContext = { activeOrganizationId: 'org-2' };
+      const otherOrganization = await send();
+
+      mockOrganizationContext = undefined;
+      const withoutOrganization = await send();
+      const repeatedWithoutOrganization = await send();
+
+      expect(miss.headers['x-cache']).toBe('MISS');
+      expect(hit.headers['x-cache']).toBe('HIT');
+      expect(hit.body.message.content).toBe('Canned answer');
+      expect(bypass.headers['x-cache']).toBe('BYPASS');
+      expect(otherOrganization.headers['x-cache']).toBe('MISS');
+      expect(withoutOrganization.headers['x-cache']).toBeUndefined();
+      expect(repeatedWithoutOrganization.headers['x-cache']).toBeUndefined();
+      expect(global.fetch).toHaveBeenCalledTimes(5);
+    });
+
+    it('should serve cached follow-up questions without generating them again', async () => {
+      process.env.RESPONSE_CACHE_ENABLED = 'true';
+      await getCacheStore().clear();
+      mockOrganizationContext = { activeOrganizationId: 'org-1' };
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ message: { content: 'Retainage is 10%.' } })
+      });
+      mockOpenAIClient.chat.completions.create.mockResolvedValueOnce({
+        choices: [{ message: { content: 'When is retainage released?' } }]
+      });
+
+      const send = () => request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'What is retainage?' }],
+          suggestFollowUpQuestions: true
+        });
+
+      const miss = await send();
+      const hit = await send();
+
+      expect(hit.headers['x-cache']).toBe('HIT');
+      expect(hit.body.context.followup_questions).toEqual(['When is retainage released?']);
+      expect(miss.body.context.followup_questions).toEqual(['When is retainage released?']);
+      expect(mockOpenAIClient.chat.completions.create).toHaveBeenCalledTimes(1);
     });
 
     it('should use fallback URL when BACKEND_API_URL is not set', async () => {
@@ -118,6 +309,326 @@ describe('Chat Routes', () => {
       // Restore env var
       process.env.BACKEND_API_URL = originalUrl;
     });
+
+    it('should require a sessionId when server-side history is requested', async () => {
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Continue please' }],
+          useSessionHistory: true
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('sessionId is required');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should return a validated contract analysis when contractAnalysis is requested', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          message: {
+            content: '```json\n{"summary": "Lump sum contract", "financialProvisions": {"retainage": "10%", "payment": ["Net 30", 45]}, "complianceRequirements": ["OSHA"]}\n```'
+          },
+          context: { data_points: [] }
+        })
+      });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Analyze the master agreement' }],
+          contractAnalysis: true,
+          contractName: 'Master Agreement'
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message.content).toBe('Lump sum contract');
+      expect(response.body.contractAnalysis).toEqual({
+        contractName: 'Master Agreement',
+        summary: 'Lump sum contract',
+        financialProvisions: { retainage: '10%', payment: ['Net 30', '45'] },
+        complianceRequirements: ['OSHA']
+      });
+
+      // Without an analyze endpoint the analysis goes to the chat endpoint
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('https://test-backend.example.com/chat');
+      const forwardedBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(forwardedBody.contractAnalysis).toBeUndefined();
+      expect(forwardedBody.messages).toHaveLength(2);
+      expect(forwardedBody.messages[1].content).toContain('Master Agreement');
+    });
+
+    it('should reject contract analysis output that does not match the schema', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          message: { content: 'I could not find that contract.' }
+        })
+      });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Analyze it' }],
+          contractAnalysis: true
+        });
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toBe('Invalid contract analysis from backend');
+      expect(response.body.details).toEqual(['Contract analysis must be a JSON object']);
+    });
+
+    it('should use inline follow-up markers when the backend omits followup_questions', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          message: { content: 'Retainage is 10%. <<When is retainage released?>> <<Who holds it?>>' },
+          context: {}
+        })
+      });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'What is retainage?' }],
+          suggestFollowUpQuestions: true
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message.content).toBe('Retainage is 10%.');
+      expect(response.body.context.followup_questions).toEqual([
+        'When is retainage released?',
+        'Who holds it?'
+      ]);
+      expect(mockOpenAIClient.chat.completions.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown chat providers', async () => {
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Hello test' }],
+          provider: 'not-a-provider'
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown chat provider: not-a-provider');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject provider names inherited from Object.prototype', async () => {
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Hello test' }],
+          provider: 'toString'
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown chat provider: toString');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should send multimodal content parts to OpenAI as they are', async () => {
+      mockOpenAIClient.chat.completions.create.mockResolvedValueOnce({
+        choices: [{ message: { content: 'A signed change order.' } }]
+      });
+      const content = [
+        { type: 'text', text: 'What is this document?' },
+        { type: 'image_url', image_url: { url: 'https://example.com/page-1.png' } }
+      ];
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [
+            { role: 'system', content: [{ type: 'text', text: 'Answer briefly.' }] },
+            { role: 'user', content }
+          ],
+          provider: 'openai'
+        });
+
+      expect(response.status).toBe(200);
+      expect(mockOpenAIClient.chat.completions.create.mock.calls[0][0].messages).toEqual([
+        { role: 'system', content: 'Answer briefly.' },
+        { role: 'user', content }
+      ]);
+    });
+
+    it('should normalize Kernel Memory answers when the kernel-memory provider is selected', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          question: 'What is retainage?',
+          noResult: false,
+          text: 'Retainage is 10%.',
+          relevantSources: [{ sourceName: 'contract.pdf' }]
+        })
+      });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'What is retainage?' }],
+          provider: 'kernel-memory',
+          index: 'contracts'
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message.content).toBe('Retainage is 10%.');
+      expect(response.body.context.supporting_content).toEqual([{ sourceName: 'contract.pdf' }]);
+
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toContain('/ask');
+      expect(JSON.parse(init.body)).toMatchObject({ question: 'What is retainage?', index: 'contracts' });
+    });
+
+    it('should route to the organization backend when a client configuration exists', async () => {
+      mockOrganizationContext = { activeOrganizationId: 'org-123' };
+      mockGetClientConfig.mockResolvedValue({
+        organization_id: 'org-123',
+        backend_config: {
+          api_url: 'https://tenant-backend.example.com/',
+          chat_endpoint: 'tenant/chat'
+        },
+        azure_config: { tenant_id: '', client_id: '' }
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ content: 'Tenant response' })
+      });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Hello tenant' }]
+        });
+
+      expect(response.status).toBe(200);
+      expect(mockGetClientConfig).toHaveBeenCalledWith('org-123');
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://tenant-backend.example.com/tenant/chat',
+        expect.any(Object)
+      );
+    });
+
+    it('should send contract analysis to the organization\'s analyze endpoint when one is configured', async () => {
+      mockOrganizationContext = { activeOrganizationId: 'org-123' };
+      mockGetClientConfig.mockResolvedValue({
+        organization_id: 'org-123',
+        backend_config: {
+          api_url: 'https://tenant-backend.example.com',
+          chat_endpoint: '/tenant/chat',
+          analyze_endpoint: 'tenant/analyze'
+        },
+        azure_config: { tenant_id: '', client_id: '' }
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ message: { content: '{"summary": "Lump sum contract"}' } })
+      });
+
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Analyze the master agreement' }],
+          contractAnalysis: true
+        });
+
+      expect(response.status).toBe(200);
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('https://tenant-backend.example.com/tenant/analyze');
+    });
+
+    it('should fall back to the default backend when the organization has no configuration', async () => {
+      mockOrganizationContext = { activeOrganizationId: 'org-without-config' };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ content: 'Default response' })
+      });
+
+      await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Hello test' }]
+        });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://test-backend.example.com/chat',
+        expect.any(Object)
+      );
+    });
+
+    it('should rebuild tenant Azure credentials when the client secret is rotated', async () => {
+      mockOrganizationContext = { activeOrganizationId: 'org-rotating' };
+      const config = (clientSecret: string) => ({
+        organization_id: 'org-rotating',
+        backend_config: { api_url: 'https://tenant-backend.example.com' },
+        azure_config: { tenant_id: 'tenant', client_id: 'client', client_secret: clientSecret }
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ content: 'Tenant response' })
+      });
+
+      for (const secret of ['secret-1', 'secret-1', 'secret-2']) {
+        mockGetClientConfig.mockResolvedValue(config(secret));
+        await request(app)
+          .post('/api/chat')
+          .send({ messages: [{ role: 'user', content: 'Hello tenant' }] });
+      }
+
+      expect(mockCreateAzureAuthServiceForClient).toHaveBeenCalledTimes(2);
+      expect(mockCreateAzureAuthServiceForClient).toHaveBeenLastCalledWith(
+        expect.objectContaining({ client_secret: 'secret-2' }),
+        'https://tenant-backend.example.com'
+      );
+    });
+
+    it('should reject invalid chat requests with field-level details', async () => {
+      const response = await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [
+            { role: 'user', content: 'Hello test' },
+            { role: 'robot', content: 42 }
+          ],
+          temperature: 3,
+          retrievalMode: 'fuzzy'
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid request body');
+      expect(response.body.details).toEqual(expect.arrayContaining([
+        { path: 'messages[1].role', message: 'must be one of: system, user, assistant' },
+        { path: 'messages[1].content', message: 'must be a string or an array of content parts' },
+        { path: 'temperature', message: 'must be at most 2' },
+        { path: 'retrievalMode', message: 'must be one of: hybrid, vectors, text' }
+      ]));
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should not forward unknown fields to the backend', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ content: 'Mock AI response' })
+      });
+
+      await request(app)
+        .post('/api/chat')
+        .send({
+          messages: [{ role: 'user', content: 'Hello test' }],
+          temperature: 0.5,
+          debugOverride: 'drop-me'
+        });
+
+      const forwardedBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(forwardedBody.temperature).toBe(0.5);
+      expect(forwardedBody).not.toHaveProperty('debugOverride');
+    });
   });
 
   describe('POST /api/chat-stream', () => {
@@ -155,6 +666,187 @@ describe('Chat Routes', () => {
       );
     });
 
+    it('should assign event ids and replay from Last-Event-ID without calling the backend again', async () => {
+      const mockReader = {
+        read: jest.fn()
+          .mockResolvedValueOnce({ done: false, value: new TextEncoder().encode('data: {"content": "Hel') })
+          .mockResolvedValueOnce({ done: false, value: new TextEncoder().encode('lo"}\n\ndata: {"content": " world"}\n\n') })
+          .mockResolvedValueOnce({ done: true }),
+        releaseLock: jest.fn()
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: { getReader: () => mockReader }
+      });
+
+      const response = await request(app)
+        .post('/api/chat-stream')
+        .send({
+          messages: [{ role: 'user', content: 'Hello streaming test' }]
+        });
+
+      const ids = [...response.text.matchAll(/^id: (.+)$/gm)].map(match => match[1]);
+      expect(ids).toHaveLength(2);
+      expect(response.text).toContain('data: {"content": "Hello"}');
+
+      const resumed = await request(app)
+        .post('/api/chat-stream')
+        .set('Last-Event-ID', ids[0])
+        .send({
+          messages: [{ role: 'user', content: 'Hello streaming test' }]
+        });
+
+      expect(resumed.status).toBe(200);
+      expect(resumed.text).toContain(`id: ${ids[1]}`);
+      expect(resumed.text).toContain('data: {"content": " world"}');
+      expect(resumed.text).not.toContain('"Hello"');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to resume from an event that was dropped from the buffer', async () => {
+      const streamBuffer = getChatStreamBuffer();
+      const streamId = streamBuffer.create(null);
+      // One more than the default CHAT_STREAM_BUFFER_MAX_EVENTS, dropping the first event
+      for (let i = 0; i <= 5000; i++) {
+        streamBuffer.append(streamId, JSON.stringify({ delta: { content: `${i} ` } }));
+      }
+      streamBuffer.complete(streamId);
+
+      const truncated = await request(app)
+        .post('/api/chat-stream')
+        .set('Last-Event-ID', `${streamId}:0`)
+        .send({});
+      const resumed = await request(app)
+        .post('/api/chat-stream')
+        .set('Last-Event-ID', `${streamId}:5000`)
+        .send({});
+
+      expect(truncated.status).toBe(409);
+      expect(truncated.body.error).toBe('Stream buffer truncated');
+      expect(resumed.status).toBe(200);
+      expect(resumed.text).toContain(`id: ${streamId}:5001`);
+    });
+
+    it('should generate follow-up questions as a final SSE event', async () => {
+      const mockReader = {
+        read: jest.fn()
+          .mockResolvedValueOnce({ done: false, value: new TextEncoder().encode('data: {"delta": {"content": "Retainage is 10%."}}\n\n') })
+          .mockResolvedValueOnce({ done: true }),
+        releaseLock: jest.fn()
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: { getReader: () => mockReader }
+      });
+      mockOpenAIClient.chat.completions.create.mockResolvedValueOnce({
+        choices: [{ message: { content: '1. When is retainage released?\n2. Can retainage be reduced?' } }]
+      });
+
+      const response = await request(app)
+        .post('/api/chat-stream')
+        .send({
+          messages: [{ role: 'user', content: 'What is retainage?' }],
+          suggestFollowUpQuestions: true
+        });
+
+      expect(response.text).toContain('event: followups');
+      expect(response.text).toContain('{"followup_questions":["When is retainage released?","Can retainage be reduced?"]}');
+    });
+
+    it('should keep streams of signed-in users without a session to their owner', async () => {
+      mockUser = { id: 'user-1' };
+      const mockReader = {
+        read: jest.fn()
+          .mockResolvedValueOnce({ done: false, value: new TextEncoder().encode('data: {"content": "Hello"}\n\n') })
+          .mockResolvedValueOnce({ done: true }),
+        releaseLock: jest.fn()
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: { getReader: () => mockReader }
+      });
+
+      const response = await request(app)
+        .post('/api/chat-stream')
+        .send({
+          messages: [{ role: 'user', content: 'Hello streaming test' }]
+        });
+      const [eventId] = [...response.text.matchAll(/^id: (.+)$/gm)].map(match => match[1]);
+
+      const resumed = await request(app)
+        .post('/api/chat-stream')
+        .set('Last-Event-ID', eventId)
+        .send({});
+
+      expect(resumed.status).toBe(403);
+    });
+
+    it('should return 404 when resuming an unknown stream', async () => {
+      const response = await request(app)
+        .post('/api/chat-stream')
+        .set('Last-Event-ID', 'unknown-stream:3')
+        .send({
+          messages: [{ role: 'user', content: 'Hello test' }]
+        });
+
+      expect(response.status).toBe(404);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort the backend request when the stream is cancelled', async () => {
+      let upstreamSignal: AbortSignal | undefined;
+      const mockReader = {
+        read: jest.fn()
+          .mockResolvedValueOnce({ done: false, value: new TextEncoder().encode('data: {"content": "Partial"}\n\n') })
+          .mockImplementationOnce(() => new Promise((resolve, reject) => {
+            upstreamSignal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+          })),
+        releaseLock: jest.fn()
+      };
+
+      (global.fetch as jest.Mock).mockImplementationOnce(async (url: string, init: any) => {
+        upstreamSignal = init.signal;
+        return { ok: true, body: { getReader: () => mockReader } };
+      });
+
+      const server = app.listen(0);
+      const port = (server.address() as any).port;
+
+      try {
+        const streamText = await new Promise<string>((resolve, reject) => {
+          let text = '';
+          const streamRequest = http.request({
+            port,
+            method: 'POST',
+            path: '/api/chat-stream',
+            headers: { 'Content-Type': 'application/json' }
+          }, (streamResponse) => {
+            streamResponse.setEncoding('utf8');
+            streamResponse.on('data', async (chunk: string) => {
+              const isFirstChunk = !text;
+              text += chunk;
+              const streamId = text.match(/^id: (.+):\d+$/m)?.[1];
+              if (isFirstChunk && streamId) {
+                await request(app).post(`/api/chat-stream/${streamId}/cancel`).send();
+              }
+            });
+            streamResponse.on('end', () => resolve(text));
+          });
+          streamRequest.on('error', reject);
+          streamRequest.end(JSON.stringify({ messages: [{ role: 'user', content: 'Hello test' }] }));
+        });
+
+        expect(upstreamSignal?.aborted).toBe(true);
+        expect(streamText).toContain('event: interrupted');
+        expect(streamText).not.toContain('Stream failed');
+      } finally {
+        server.close();
+      }
+    });
+
     it('should handle streaming errors', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
@@ -170,6 +862,7 @@ describe('Chat Routes', () => {
 
       expect(response.status).toBe(200); // SSE response starts with 200
       expect(response.text).toContain('Stream failed');
+      expect(response.text).toContain('"message":"Backend API error: 400","status":400');
     });
 
     it('should include thought process header when requested', async () => {
@@ -200,4 +893,16 @@ describe('Chat Routes', () => {
       );
     });
   });
-}); 
\ No newline at end of file
+
+  it('should only resolve Supabase auth on the chat routes', async () => {
+    mockOrganizationContext = { activeOrganizationId: 'org-123' };
+    app.get('/api/other', (req: any, res: any) => {
+      res.json({ organizationContext: req.organizationContext ?? null });
+    });
+
+    const response = await request(app).get('/api/other');
+
+    expect(response.status).toBe(200);
+    expect(response.body.organizationContext).toBeNull();
+  });
+});
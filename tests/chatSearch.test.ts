@@ -0,0 +1,158 @@
+import request from 'supertest';
+import express from 'express';
+import chatSessionsRoutes from '../src/routes/chat-sessions';
+import { buildSnippet, extractSearchTerms } from '../src/services/chatSearch';
+
+// Every builder call per table, so tests can check how the search was scoped
+const calls: Record<string, Array<[string, ...any[]]>> = {};
+const results: Record<string, any> = {};
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: jest.fn(async () => ({ data: { user: { id: 'user-1', email: 'user@example.com' } }, error: null }))
+    },
+    from: jest.fn((table: string) => {
+      calls[table] = calls[table] || [];
+      const builder: any = new Proxy({}, {
+        get: (_target, method: string) => {
+          if (method === 'then') {
+            return (resolve: any, reject: any) => Promise.resolve(results[table] ?? { data: [], error: null, count: 0 }).then(resolve, reject);
+          }
+          return (...args: any[]) => {
+            calls[table].push([method, ...args]);
+            return builder;
+          };
+        }
+      });
+      return builder;
+    })
+  })
+}));
+
+const mockOrganizationContext = {
+  isQIGAdmin: false,
+  activeOrganizationId: 'org-1'
+};
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  optionalSupabaseAuth: (_req: any, _res: any, next: any) => next(),
+  resolveOrganizationContext: jest.fn(async () => ({ organizationContext: mockOrganizationContext }))
+}));
+
+describe('Chat history search', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    for (const table of Object.keys(calls)) delete calls[table];
+    for (const table of Object.keys(results)) delete results[table];
+    mockOrganizationContext.isQIGAdmin = false;
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'anon-key';
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/chat-sessions', chatSessionsRoutes);
+  });
+
+  it('should search the user\'s messages and titles with filters and highlighted snippets', async () => {
+    results.chat_messages = {
+      data: [{
+        id: 'm1',
+        session_id: 's1',
+        role: 'assistant',
+        content: 'The subcontract holds 10% retainage until substantial completion.',
+        timestamp: '2024-05-02T10:00:00Z',
+        chat_sessions: { id: 's1', title: 'Subcontract review' }
+      }],
+      error: null,
+      count: 3
+    };
+    results.chat_sessions = { data: [{ id: 's2', title: 'Retainage questions', updated_at: '2024-05-03T10:00:00Z' }], error: null };
+
+    const response = await request(app)
+      .get('/api/chat-sessions/search?q=retainage&role=assistant&from=2024-05-01&limit=1')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(calls.chat_messages).toEqual(expect.arrayContaining([
+      ['eq', 'chat_sessions.user_id', 'user-1'],
+      ['textSearch', 'content', 'retainage', { type: 'websearch', config: 'english' }],
+      ['in', 'role', ['assistant']],
+      ['gte', 'timestamp', '2024-05-01'],
+      ['range', 0, 0]
+    ]));
+    expect(response.body.messages[0]).toEqual({
+      messageId: 'm1',
+      sessionId: 's1',
+      sessionTitle: 'Subcontract review',
+      role: 'assistant',
+      timestamp: '2024-05-02T10:00:00Z',
+      snippet: 'The subcontract holds 10% retainage until substantial completion.',
+      highlights: [{ start: 26, end: 35 }]
+    });
+    expect(response.body.sessions).toEqual([
+      { sessionId: 's2', title: 'Retainage questions', updatedAt: '2024-05-03T10:00:00Z', highlights: [{ start: 0, end: 9 }] }
+    ]);
+    expect(response.body.pagination).toEqual({ limit: 1, offset: 0, total: 3, hasMore: true });
+  });
+
+  it('should require a query', async () => {
+    const response = await request(app)
+      .get('/api/chat-sessions/search')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid query parameters');
+    expect(response.body.details).toEqual([{ path: 'q', message: 'is required' }]);
+  });
+
+  it('should reject repeated and malformed query parameters', async () => {
+    const response = await request(app)
+      .get('/api/chat-sessions/search?q=retainage&q=bond&limit=ten&role=user,robot')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual([
+      { path: 'q', message: 'must be a string' },
+      { path: 'limit', message: 'must be a number' },
+      { path: 'role', message: 'must be a list of: system, user, assistant' }
+    ]);
+    expect(calls.chat_messages).toBeUndefined();
+  });
+
+  it('should limit organization-wide search to QIG administrators', async () => {
+    const denied = await request(app)
+      .get('/api/chat-sessions/search?q=retainage&scope=organization')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(denied.status).toBe(403);
+    expect(calls.chat_messages).toBeUndefined();
+
+    mockOrganizationContext.isQIGAdmin = true;
+    const allowed = await request(app)
+      .get('/api/chat-sessions/search?q=retainage&scope=organization')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(allowed.status).toBe(200);
+    expect(calls.chat_messages).toContainEqual(['eq', 'chat_sessions.organization_id', 'org-1']);
+  });
+
+  describe('extractSearchTerms', () => {
+    it('should keep phrases and skip negated terms and OR', () => {
+      expect(extractSearchTerms('"change order" retainage or -lien')).toEqual(['change order', 'retainage']);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should center long content on the first match', () => {
+      const content = `${'intro '.repeat(40)}the retainage clause applies ${'detail '.repeat(40)}`;
+
+      const { snippet, highlights } = buildSnippet(content, ['retainage'], 20);
+
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet.slice(highlights[0].start, highlights[0].end)).toBe('retainage');
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { attachChatWebSocket, CHAT_WEBSOCKET_PATH } from '../src/services/chatWebSocket';
+
+// Mock the Azure auth service
+jest.mock('../src/services/azureAuth', () => ({
+  createAzureAuthService: () => ({
+    validateConfig: () => ({ valid: true }),
+    getAccessToken: jest.fn().mockResolvedValue('mock-token')
+  })
+}));
+
+jest.mock('../src/services/clientConfigService', () => ({
+  getClientConfigService: () => ({
+    getClientConfig: jest.fn().mockResolvedValue(null)
+  })
+}));
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  resolveOrganizationContext: jest.fn().mockResolvedValue({
+    organizationContext: { activeOrganizationId: 'org-1' }
+  })
+}));
+
+// Only the token check is mocked; the chat pipeline itself is the real one
+jest.mock('../src/services/chatTurn', () => ({
+  ...jest.requireActual('../src/services/chatTurn'),
+  verifyAccessToken: jest.fn(async (token: string) => {
+    if (token === 'expiring-token') {
+      return { user: { id: 'user-1' }, supabaseClient: {}, expiresAt: Date.now() + 100 };
+    }
+    return token === 'valid-token' ? { user: { id: 'user-1' }, supabaseClient: {} } : null;
+  })
+}));
+
+global.fetch = jest.fn();
+
+// Collects every message the server sends so tests can wait for a specific one
+function connect(url: string) {
+  const socket = new WebSocket(url);
+  const received: any[] = [];
+  const waiters: Array<{ predicate: (message: any) => boolean; resolve: (message: any) => void }> = [];
+
+  socket.on('message', (raw) => {
+    const message = JSON.parse(raw.toString());
+    received.push(message);
+    for (const waiter of [...waiters]) {
+      if (waiter.predicate(message)) {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        waiter.resolve(message);
+      }
+    }
+  });
+
+  const waitFor = (predicate: (message: any) => boolean) => new Promise<any>((resolve) => {
+    const existing = received.find(predicate);
+    if (existing) {
+      return resolve(existing);
+    }
+    waiters.push({ predicate, resolve });
+  });
+
+  const opened = new Promise<void>((resolve, reject) => {
+    socket.on('open', () => resolve());
+    socket.on('error', reject);
+  });
+
+  return { socket, received, waitFor, opened };
+}
+
+function streamBody(chunks: string[]) {
+  const read = jest.fn();
+  chunks.forEach(chunk => read.mockResolvedValueOnce({ done: false, value: new TextEncoder().encode(chunk) }));
+  read.mockResolvedValueOnce({ done: true });
+  return { getReader: () => ({ read, releaseLock: jest.fn() }) };
+}
+
+describe('Chat WebSocket', () => {
+  let server: http.Server;
+  let wss: WebSocketServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockReset();
+
+    server = http.createServer();
+    wss = attachChatWebSocket(server);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `ws://localhost:${(server.address() as AddressInfo).port}${CHAT_WEBSOCKET_PATH}`;
+  });
+
+  afterEach(async () => {
+    for (const client of wss.clients) {
+      client.terminate();
+    }
+    await new Promise(resolve => wss.close(resolve));
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should reject connections with an invalid token', async () => {
+    const client = connect(`${baseUrl}?token=bad-token`);
+    const closed = new Promise<number>(resolve => client.socket.on('close', (code) => resolve(code)));
+
+    const error = await client.waitFor(message => message.type === 'error');
+
+    expect(error).toEqual(expect.objectContaining({ status: 401, error: 'Invalid or expired token' }));
+    expect(await closed).toBe(4401);
+  });
+
+  it('should close the connection when the access token expires', async () => {
+    const client = connect(`${baseUrl}?token=expiring-token`);
+    const closed = new Promise<number>(resolve => client.socket.on('close', (code) => resolve(code)));
+
+    await client.waitFor(message => message.type === 'ready');
+    const error = await client.waitFor(message => message.type === 'error');
+
+    expect(error).toEqual(expect.objectContaining({ status: 401, error: 'Token expired' }));
+    expect(await closed).toBe(4401);
+  });
+
+  it('should require authentication before chat messages', async () => {
+    const client = connect(baseUrl);
+    await client.opened;
+
+    client.socket.send(JSON.stringify({ type: 'chat', requestId: 'r1', body: { messages: [] } }));
+
+    const error = await client.waitFor(message => message.type === 'error');
+    expect(error.status).toBe(401);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should stream multiplexed chat requests tagged with their requestId', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, status: 200, body: streamBody(['data: {"delta": {"content": "First"}}\n\n']) })
+      .mockResolvedValueOnce({ ok: true, status: 200, body: streamBody(['data: {"delta": {"content": "Second"}}\n\n']) });
+
+    const client = connect(baseUrl);
+    await client.opened;
+
+    client.socket.send(JSON.stringify({ type: 'auth', token: 'valid-token' }));
+    client.socket.send(JSON.stringify({ type: 'chat', requestId: 'a', body: { messages: [{ role: 'user', content: 'One' }] } }));
+    client.socket.send(JSON.stringify({ type: 'chat', requestId: 'b', body: { messages: [{ role: 'user', content: 'Two' }] } }));
+
+    const ready = await client.waitFor(message => message.type === 'ready');
+    const doneA = await client.waitFor(message => message.type === 'done' && message.requestId === 'a');
+    const doneB = await client.waitFor(message => message.type === 'done' && message.requestId === 'b');
+
+    expect(ready).toEqual({ type: 'ready', userId: 'user-1', organizationId: 'org-1' });
+    expect(doneA.interrupted).toBe(false);
+    expect(doneB.interrupted).toBe(false);
+
+    const deltas = client.received.filter(message => message.type === 'event' && message.event === 'message');
+    expect(deltas).toEqual(expect.arrayContaining([
+      { type: 'event', requestId: 'a', event: 'message', data: { delta: { content: 'First' } } },
+      { type: 'event', requestId: 'b', event: 'message', data: { delta: { content: 'Second' } } }
+    ]));
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse a second request with the same requestId sent alongside the first', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, body: streamBody(['data: {"delta": {"content": "Once"}}\n\n']) });
+
+    const client = connect(`${baseUrl}?token=valid-token`);
+    await client.waitFor(message => message.type === 'ready');
+
+    const frame = JSON.stringify({ type: 'chat', requestId: 'dup', body: { messages: [{ role: 'user', content: 'Hi' }] } });
+    client.socket.send(frame);
+    client.socket.send(frame);
+
+    const error = await client.waitFor(message => message.type === 'error' && message.requestId === 'dup');
+    await client.waitFor(message => message.type === 'done' && message.requestId === 'dup');
+
+    expect(error.status).toBe(409);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop generation when the client cancels a request', async () => {
+    let upstreamSignal: AbortSignal | undefined;
+    const read = jest.fn()
+      .mockResolvedValueOnce({ done: false, value: new TextEncoder().encode('data: {"delta": {"content": "Partial"}}\n\n') })
+      .mockImplementationOnce(() => new Promise((resolve, reject) => {
+        upstreamSignal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+      }));
+
+    (global.fetch as jest.Mock).mockImplementationOnce(async (url: string, init: any) => {
+      upstreamSignal = init.signal;
+      return { ok: true, status: 200, body: { getReader: () => ({ read, releaseLock: jest.fn() }) } };
+    });
+
+    const client = connect(`${baseUrl}?token=valid-token`);
+    await client.waitFor(message => message.type === 'ready');
+
+    client.socket.send(JSON.stringify({ type: 'chat', requestId: 'r1', body: { messages: [{ role: 'user', content: 'Hi' }] } }));
+    await client.waitFor(message => message.type === 'event' && message.requestId === 'r1');
+
+    client.socket.send(JSON.stringify({ type: 'cancel', requestId: 'r1' }));
+    const done = await client.waitFor(message => message.type === 'done' && message.requestId === 'r1');
+
+    expect(upstreamSignal?.aborted).toBe(true);
+    expect(done.interrupted).toBe(true);
+    expect(client.received).toContainEqual(
+      expect.objectContaining({ type: 'event', requestId: 'r1', event: 'interrupted' })
+    );
+  });
+
+  it('should report invalid chat requests for the request that sent them', async () => {
+    const client = connect(`${baseUrl}?token=valid-token`);
+    await client.waitFor(message => message.type === 'ready');
+
+    client.socket.send(JSON.stringify({ type: 'chat', requestId: 'bad', body: { messages: [{ role: 'robot', content: 'x' }] } }));
+
+    const error = await client.waitFor(message => message.type === 'error' && message.requestId === 'bad');
+    expect(error.status).toBe(400);
+    expect(error.details).toEqual([{ path: 'messages[0].role', message: 'must be one of: system, user, assistant' }]);
+  });
+});
@@ -0,0 +1,66 @@
+import { addCitations, extractCitations, normalizeCitationSources } from '../src/services/citations';
+
+describe('Citations', () => {
+  const groundxSources = normalizeCitationSources([
+    {
+      id: 'doc-1',
+      fileName: 'supply-agreement.pdf',
+      text: 'Payment is due within 30 days.',
+      boundingBoxes: [{ pageNumber: 4, topLeftX: 0, topLeftY: 0, bottomRightX: 10, bottomRightY: 10, corrected: false }]
+    },
+    { id: 'doc-2', fileName: 'amendment.pdf', text: 'Late fees are 2% per month.' }
+  ]);
+
+  it('should map numeric markers to sources with offsets', () => {
+    const answer = 'Payment is due in 30 days [1]. Late fees apply [1, 2].';
+    const { citations, uncitedSentences } = extractCitations(answer, groundxSources);
+
+    expect(citations).toHaveLength(3);
+    expect(citations[0]).toEqual(expect.objectContaining({
+      marker: '[1]',
+      start: answer.indexOf('[1]'),
+      end: answer.indexOf('[1]') + 3,
+      sourceIndex: 0,
+      id: 'doc-1',
+      fileName: 'supply-agreement.pdf',
+      page: 4
+    }));
+    expect(citations.slice(1).map(citation => citation.sourceIndex)).toEqual([0, 1]);
+    expect(uncitedSentences).toEqual([]);
+  });
+
+  it('should flag sentences that cite nothing and unknown source numbers', () => {
+    const answer = 'Payment is due in 30 days. [1] The vendor may terminate early. See [7].';
+    const { citations, uncitedSentences } = extractCitations(answer, groundxSources);
+
+    expect(citations.map(citation => citation.sourceIndex)).toEqual([0, null]);
+    expect(uncitedSentences).toEqual([
+      { text: 'The vendor may terminate early.', start: 31, end: 62 }
+    ]);
+  });
+
+  it('should resolve Azure-style file markers against data points', () => {
+    const sources = normalizeCitationSources({
+      text: ['benefits.pdf#page=2: Dental is covered.', 'benefits.pdf#page=5: Vision is covered.']
+    });
+    const { citations } = extractCitations('Vision is covered [benefits.pdf#page=5].', sources);
+
+    expect(citations).toEqual([expect.objectContaining({ sourceIndex: 1, fileName: 'benefits.pdf', page: 5 })]);
+  });
+
+  it('should ignore markdown links', () => {
+    const { citations } = extractCitations('See [the portal](https://example.com) for details [1].', groundxSources);
+
+    expect(citations.map(citation => citation.marker)).toEqual(['[1]']);
+  });
+
+  it('should add citations to a chat response context', () => {
+    const data = addCitations({
+      message: { content: 'Late fees are 2% per month [2].' },
+      context: { supporting_content: [{ id: 'doc-1', fileName: 'a.pdf' }, { id: 'doc-2', fileName: 'b.pdf' }] }
+    });
+
+    expect(data.context?.citations).toEqual([expect.objectContaining({ id: 'doc-2', fileName: 'b.pdf' })]);
+    expect(data.context?.uncited_sentences).toEqual([]);
+  });
+});
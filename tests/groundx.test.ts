@@ -1,6 +1,7 @@
 import request from 'supertest';
 import express from 'express';
 import groundxRoutes from '../src/routes/groundx';
+import { getCacheStore } from '../src/services/responseCache';
 
 // Mock GroundX client
 const mockGroundXClient = {
@@ -74,6 +75,10 @@ describe('GroundX Routes', () => {
     };
   });
 
+  afterEach(() => {
+    delete process.env.RESPONSE_CACHE_ENABLED;
+  });
+
   describe('GET /api/groundx/buckets', () => {
     it('should return filtered buckets for non-QIG user (Austin Industries)', async () => {
       const mockBuckets = [
@@ -314,6 +319,28 @@ describe('GroundX Routes', () => {
       expect(response.body.results).toHaveLength(0);
       expect(response.body.count).toBe(0);
     });
+
+    it('should serve repeated searches from the response cache when enabled', async () => {
+      process.env.RESPONSE_CACHE_ENABLED = 'true';
+      await getCacheStore().clear();
+      mockUser = { ...mockUser, organization: { ...mockUser.organization, override_id: 'org-1' } as any };
+
+      mockGroundXClient.search.content.mockResolvedValueOnce({
+        search: { results: [{ documentId: 'doc1', fileName: 'test.pdf', text: 'Cached text', score: 0.9 }] }
+      });
+
+      const first = await request(app)
+        .post('/api/groundx/search')
+        .send({ query: 'retainage terms', bucketId: '123' });
+      const second = await request(app)
+        .post('/api/groundx/search')
+        .send({ query: '  retainage terms ', bucketId: 123 });
+
+      expect(first.headers['x-cache']).toBe('MISS');
+      expect(second.headers['x-cache']).toBe('HIT');
+      expect(second.body.results).toEqual(first.body.results);
+      expect(mockGroundXClient.search.content).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('POST /api/groundx/rag', () => {
@@ -1,9 +1,12 @@
 import request from 'supertest';
 import express from 'express';
 import healthRoutes from '../src/routes/health';
+import { resilientFetch, resetCircuitBreakers } from '../src/services/resilientFetch';
+import { backendCircuitName } from '../src/services/chatBackend';
 
 describe('Health Routes', () => {
   let app: express.Application;
+  const originalFetch = global.fetch;
 
   beforeEach(() => {
     app = express();
@@ -11,6 +14,11 @@ describe('Health Routes', () => {
     app.use('/api', healthRoutes);
   });
 
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetCircuitBreakers();
+  });
+
   describe('GET /api/health', () => {
     it('should return health status successfully', async () => {
       const response = await request(app)
@@ -45,5 +53,25 @@ describe('Health Routes', () => {
       expect(typeof response.body.version).toBe('string');
       expect(typeof response.body.services).toBe('object');
     });
+
+    it('should report open chat backend circuits as degraded without exposing backend URLs', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' });
+
+      for (let i = 0; i < 5; i++) {
+        await resilientFetch('https://backend.example.com/chat', { method: 'POST' }, {
+          circuit: backendCircuitName('https://backend.example.com')
+        });
+      }
+
+      const response = await request(app)
+        .get('/api/health');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('degraded');
+      expect(response.body.circuitBreakers).toEqual([
+        expect.objectContaining({ name: expect.stringMatching(/^chat-backend:[0-9a-f]{12}$/), state: 'open', consecutiveFailures: 5 })
+      ]);
+      expect(JSON.stringify(response.body)).not.toContain('backend.example.com');
+    });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,299 @@
+import request from 'supertest';
+import express from 'express';
+import organizationRoutes from '../src/routes/organizations';
+import kernelMemoryRoutes from '../src/routes/kernelMemory';
+import { streamChatTurn } from '../src/services/chatTurn';
+import { SupabaseUsageStore, UsageRow, UsageStore, findModelPrice, getModelPrices, resolveUsagePeriod, setUsageStore, summarizeUsage } from '../src/services/llmUsage';
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  authenticateSupabaseUser: (req: any, _res: any, next: any) => {
+    req.user = { id: 'admin-1' };
+    req.organizationContext = { isQIGAdmin: req.headers['x-test-admin'] === 'true' };
+    next();
+  },
+  handleOrganizationOverride: (_req: any, _res: any, next: any) => next(),
+  setOrganizationSession: jest.fn(),
+  clearOrganizationSession: jest.fn()
+}));
+
+function usageRow(overrides: Partial<UsageRow>): UsageRow {
+  return {
+    organization_id: 'org-1',
+    user_id: 'user-1',
+    session_id: null,
+    message_id: null,
+    provider: 'openai',
+    operation: 'answer',
+    model: 'gpt-4o',
+    prompt_tokens: 1000,
+    completion_tokens: 100,
+    latency_ms: 200,
+    estimated: false,
+    created_at: '2024-06-01T10:00:00.000Z',
+    ...overrides
+  };
+}
+
+function createStore(rows: UsageRow[] = []): UsageStore & { recorded: UsageRow[] } {
+  const recorded: UsageRow[] = [];
+  return {
+    recorded,
+    record: jest.fn(async (newRows: UsageRow[]) => {
+      recorded.push(...newRows);
+    }),
+    list: jest.fn(async () => rows)
+  };
+}
+
+describe('LLM usage accounting', () => {
+  afterEach(() => {
+    setUsageStore(null);
+    delete process.env.LLM_PRICE_TABLE;
+  });
+
+  describe('summarizeUsage', () => {
+    it('should roll usage up by organization, user and day with estimated costs', () => {
+      const summary = summarizeUsage([
+        usageRow({}),
+        usageRow({ user_id: 'user-2', model: 'gpt-4o-mini-2024-07-18', prompt_tokens: 2000, completion_tokens: 500, latency_ms: 400 }),
+        usageRow({ organization_id: 'org-2', created_at: '2024-06-02T09:00:00.000Z' })
+      ]);
+
+      expect(summary.totals).toEqual({
+        calls: 3,
+        promptTokens: 4000,
+        completionTokens: 700,
+        totalTokens: 4700,
+        estimatedCost: 0.0076,
+        averageLatencyMs: 267
+      });
+      expect(summary.byOrganization.map(group => [group.organizationId, group.estimatedCost])).toEqual([
+        ['org-1', 0.0041],
+        ['org-2', 0.0035]
+      ]);
+      expect(summary.byUser.map(group => [group.userId, group.calls])).toEqual([['user-1', 2], ['user-2', 1]]);
+      expect(summary.byDay.map(group => [group.day, group.totalTokens])).toEqual([
+        ['2024-06-01', 3600],
+        ['2024-06-02', 1100]
+      ]);
+      expect(summary.unpricedModels).toEqual([]);
+    });
+
+    it('should leave models without a price out of the cost', () => {
+      const summary = summarizeUsage([usageRow({ model: 'azure' })]);
+
+      expect(summary.totals.estimatedCost).toBeNull();
+      expect(summary.totals.totalTokens).toBe(1100);
+      expect(summary.unpricedModels).toEqual(['azure']);
+    });
+  });
+
+  describe('price table', () => {
+    it('should merge LLM_PRICE_TABLE over the defaults', () => {
+      process.env.LLM_PRICE_TABLE = JSON.stringify({ azure: { prompt: 5, completion: 15 }, 'gpt-4o': { prompt: 2, completion: 8 } });
+      const prices = getModelPrices();
+
+      expect(findModelPrice('azure', prices)).toEqual({ prompt: 5, completion: 15 });
+      expect(findModelPrice('gpt-4o-2024-08-06', prices)).toEqual({ prompt: 2, completion: 8 });
+      // The longest matching base name wins
+      expect(findModelPrice('gpt-4o-mini-2024-07-18', prices)).toEqual({ prompt: 0.15, completion: 0.6 });
+      expect(findModelPrice('claude', prices)).toBeNull();
+    });
+  });
+
+  describe('streamChatTurn', () => {
+    const turn = (events: Array<{ event: string; data: string }>) => ({
+      provider: {
+        name: 'openai' as const,
+        chat: jest.fn(),
+        async *stream() {
+          yield* events;
+        }
+      },
+      organizationId: 'org-1',
+      conversation: [{ role: 'user', content: 'What are the payment terms?' }],
+      params: {},
+      auth: null,
+      userId: 'user-1'
+    });
+
+    it('should record the usage the provider reports without forwarding it', async () => {
+      const store = createStore();
+      setUsageStore(store);
+      const emit = jest.fn();
+
+      await streamChatTurn(turn([
+        { event: 'message', data: JSON.stringify({ delta: { content: 'Net 30.' } }) },
+        { event: 'usage', data: JSON.stringify([{ operation: 'answer', model: 'gpt-4o', promptTokens: 12, completionTokens: 3, latencyMs: 50 }]) }
+      ]), { signal: new AbortController().signal, emit });
+
+      expect(emit.mock.calls.some(([, event]) => event === 'usage')).toBe(false);
+      expect(store.recorded).toEqual([expect.objectContaining({
+        organization_id: 'org-1',
+        user_id: 'user-1',
+        provider: 'openai',
+        model: 'gpt-4o',
+        prompt_tokens: 12,
+        completion_tokens: 3,
+        estimated: false
+      })]);
+    });
+
+    it('should estimate usage for providers that report none', async () => {
+      const store = createStore();
+      setUsageStore(store);
+
+      await streamChatTurn(turn([
+        { event: 'message', data: JSON.stringify({ context: { model: 'gpt-4o' } }) },
+        { event: 'message', data: JSON.stringify({ delta: { content: 'Net 30.' } }) }
+      ]), { signal: new AbortController().signal, emit: jest.fn() });
+
+      expect(store.recorded).toEqual([expect.objectContaining({ model: 'gpt-4o', estimated: true })]);
+      expect(store.recorded[0].prompt_tokens).toBeGreaterThan(0);
+      expect(store.recorded[0].completion_tokens).toBeGreaterThan(0);
+    });
+  });
+
+  describe('POST /api/kernel-memory/ask', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should record estimated usage for answered questions only', async () => {
+      const store = createStore();
+      setUsageStore(store);
+      const app = express();
+      app.use(express.json());
+      app.use('/api/kernel-memory', kernelMemoryRoutes);
+      global.fetch = jest.fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'Payment is due within 30 days.' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ noResult: true, text: 'INFO NOT FOUND' }) }) as any;
+
+      const answered = await request(app).post('/api/kernel-memory/ask').send({ question: 'What are the payment terms?' });
+      const unanswered = await request(app).post('/api/kernel-memory/ask').send({ question: 'Who signed?' });
+
+      expect(answered.status).toBe(200);
+      expect(unanswered.status).toBe(200);
+      expect(store.recorded).toEqual([expect.objectContaining({
+        user_id: 'admin-1',
+        provider: 'kernel-memory',
+        model: 'kernel-memory',
+        estimated: true
+      })]);
+    });
+  });
+
+  describe('resolveUsagePeriod', () => {
+    it('should default to the 30 days before to, or before now without either end', () => {
+      const now = new Date('2024-06-30T00:00:00.000Z');
+
+      expect(resolveUsagePeriod({}, now)).toEqual({ from: '2024-05-31T00:00:00.000Z', to: '2024-06-30T00:00:00.000Z' });
+      expect(resolveUsagePeriod({ to: '2024-03-31T00:00:00.000Z' }, now)).toEqual({
+        from: '2024-03-01T00:00:00.000Z',
+        to: '2024-03-31T00:00:00.000Z'
+      });
+      expect(resolveUsagePeriod({ from: '2024-01-01', to: '2024-02-01' }, now)).toEqual({ from: '2024-01-01', to: '2024-02-01' });
+    });
+  });
+
+  describe('SupabaseUsageStore', () => {
+    it('should read every row past the PostgREST row cap', async () => {
+      const rows = Array.from({ length: 2300 }, () => usageRow({}));
+      const builder: any = {
+        select: jest.fn(() => builder),
+        eq: jest.fn(() => builder),
+        gte: jest.fn(() => builder),
+        lte: jest.fn(() => builder),
+        order: jest.fn(() => builder),
+        range: jest.fn(async (from: number, to: number) => ({ data: rows.slice(from, to + 1), error: null }))
+      };
+      const store = new SupabaseUsageStore({ from: jest.fn(() => builder) } as any);
+
+      const listed = await store.list({ organizationId: 'org-1' });
+
+      expect(listed).toHaveLength(2300);
+      expect(builder.range).toHaveBeenCalledWith(2000, 2999);
+    });
+  });
+
+  describe('GET /api/organizations/usage', () => {
+    let app: express.Application;
+
+    beforeEach(() => {
+      app = express();
+      app.use(express.json());
+      app.use('/api/organizations', organizationRoutes);
+    });
+
+    it('should return the summary to QIG administrators', async () => {
+      const store = createStore([usageRow({})]);
+      setUsageStore(store);
+
+      const response = await request(app)
+        .get('/api/organizations/usage?organizationId=org-1&from=2024-06-01')
+        .set('x-test-admin', 'true');
+
+      expect(response.status).toBe(200);
+      expect(store.list).toHaveBeenCalledWith({
+        organizationId: 'org-1',
+        userId: undefined,
+        from: '2024-06-01',
+        to: '2024-07-01T00:00:00.000Z'
+      });
+      expect(response.body.filters.to).toBe('2024-07-01T00:00:00.000Z');
+      expect(response.body.summary.totals.calls).toBe(1);
+    });
+
+    it('should reject periods longer than a year', async () => {
+      const store = createStore();
+      setUsageStore(store);
+
+      const response = await request(app)
+        .get('/api/organizations/usage?from=2023-01-01&to=2024-06-01')
+        .set('x-test-admin', 'true');
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([{ path: 'to', message: 'must be at most 366 days after from' }]);
+      expect(store.list).not.toHaveBeenCalled();
+    });
+
+    it('should refuse other users', async () => {
+      setUsageStore(createStore());
+
+      const response = await request(app).get('/api/organizations/usage');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject invalid dates and report missing configuration', async () => {
+      const invalid = await request(app)
+        .get('/api/organizations/usage?to=yesterday')
+        .set('x-test-admin', 'true');
+      const unconfigured = await request(app)
+        .get('/api/organizations/usage')
+        .set('x-test-admin', 'true');
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.details).toEqual([{ path: 'to', message: 'must be an ISO date' }]);
+      expect(unconfigured.status).toBe(503);
+    });
+
+    it('should reject repeated filters', async () => {
+      const store = createStore();
+      setUsageStore(store);
+
+      const response = await request(app)
+        .get('/api/organizations/usage?organizationId=org-1&organizationId=org-2&from=2024-06-01&from=2024-07-01')
+        .set('x-test-admin', 'true');
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([
+        { path: 'organizationId', message: 'must be a string' },
+        { path: 'from', message: 'must be an ISO date' }
+      ]);
+      expect(store.list).not.toHaveBeenCalled();
+    });
+  });
+});
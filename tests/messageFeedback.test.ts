@@ -0,0 +1,241 @@
+import request from 'supertest';
+import express from 'express';
+import chatSessionsRoutes from '../src/routes/chat-sessions';
+import { summarizeFeedback } from '../src/services/messageFeedback';
+
+// Per-table query results and a record of every call made against them
+const tables: Record<string, { single?: any; result?: any; upserts: any[]; eq: any[][] }> = {};
+
+function table(name: string) {
+  if (!tables[name]) {
+    tables[name] = { upserts: [], eq: [] };
+  }
+  return tables[name];
+}
+
+// Minimal chainable stand-in for the Supabase query builder
+function createBuilder(name: string) {
+  const state = table(name);
+  const builder: any = {
+    select: jest.fn(() => builder),
+    eq: jest.fn((column: string, value: any) => {
+      state.eq.push([column, value]);
+      return builder;
+    }),
+    gte: jest.fn(() => builder),
+    lte: jest.fn(() => builder),
+    delete: jest.fn(() => builder),
+    upsert: jest.fn((rows: any[]) => {
+      state.upserts.push(...rows);
+      return builder;
+    }),
+    order: jest.fn(() => builder),
+    // Pages through result.data the way PostgREST applies a Range
+    range: jest.fn((from: number, to: number) => {
+      const result = state.result ?? { data: [], error: null };
+      return Promise.resolve(result.error ? result : { data: result.data.slice(from, to + 1), error: null });
+    }),
+    single: jest.fn(async () => state.single ?? { data: state.upserts[0] ?? null, error: null }),
+    then: (resolve: any, reject: any) => Promise.resolve(state.result ?? { data: [], error: null }).then(resolve, reject)
+  };
+  return builder;
+}
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: jest.fn(async (token: string) => (
+        token === 'valid-token'
+          ? { data: { user: { id: 'user-1', email: 'user@example.com' } }, error: null }
+          : { data: { user: null }, error: { message: 'Invalid token' } }
+      ))
+    },
+    from: jest.fn((name: string) => createBuilder(name))
+  })
+}));
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  optionalSupabaseAuth: (_req: any, _res: any, next: any) => next(),
+  resolveOrganizationContext: jest.fn().mockResolvedValue({
+    organizationContext: {
+      activeOrganizationId: 'org-1',
+      canAccessOrganization: (orgId: string) => orgId === 'org-1'
+    }
+  })
+}));
+
+describe('Message feedback', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    for (const name of Object.keys(tables)) {
+      delete tables[name];
+    }
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'anon-key';
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/chat-sessions', chatSessionsRoutes);
+  });
+
+  describe('POST /api/chat-sessions/sessions/:sessionId/messages/:messageId/feedback', () => {
+    const url = '/api/chat-sessions/sessions/session-1/messages/message-1/feedback';
+
+    it('should store the rating with the message provider, bucket and organization', async () => {
+      table('chat_sessions').single = { data: { id: 'session-1', user_id: 'user-1' }, error: null };
+      table('chat_messages').single = {
+        data: { id: 'message-1', role: 'assistant', provider: 'groundx', bucket_id: '42' },
+        error: null
+      };
+
+      const response = await request(app)
+        .post(url)
+        .set('Authorization', 'Bearer valid-token')
+        .send({ rating: 'down', reason: 'inaccurate', comment: 'Wrong payment terms' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(tables.message_feedback.upserts[0]).toEqual(expect.objectContaining({
+        message_id: 'message-1',
+        session_id: 'session-1',
+        user_id: 'user-1',
+        organization_id: 'org-1',
+        rating: 'down',
+        reason: 'inaccurate',
+        comment: 'Wrong payment terms',
+        provider: 'groundx',
+        bucket_id: '42'
+      }));
+    });
+
+    it('should reject ratings on user messages', async () => {
+      table('chat_sessions').single = { data: { id: 'session-1', user_id: 'user-1' }, error: null };
+      table('chat_messages').single = { data: { id: 'message-1', role: 'user' }, error: null };
+
+      const response = await request(app)
+        .post(url)
+        .set('Authorization', 'Bearer valid-token')
+        .send({ rating: 'up' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Only assistant messages can be rated');
+      expect(tables.message_feedback).toBeUndefined();
+    });
+
+    it('should return 404 for sessions the user does not own', async () => {
+      table('chat_sessions').single = { data: null, error: { message: 'No rows' } };
+
+      const response = await request(app)
+        .post(url)
+        .set('Authorization', 'Bearer valid-token')
+        .send({ rating: 'up' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Chat session not found');
+    });
+
+    it('should validate the rating and reason', async () => {
+      const response = await request(app)
+        .post(url)
+        .set('Authorization', 'Bearer valid-token')
+        .send({ rating: 'meh', reason: 'boring' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([
+        { path: 'rating', message: 'must be one of: up, down' },
+        expect.objectContaining({ path: 'reason' })
+      ]);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .post(url)
+        .send({ rating: 'up' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/chat-sessions/feedback/summary', () => {
+    it('should aggregate the active organization\'s feedback', async () => {
+      table('message_feedback').result = {
+        data: [
+          { rating: 'down', reason: 'inaccurate', provider: 'groundx', bucket_id: '42' },
+          { rating: 'up', reason: null, provider: 'groundx', bucket_id: '7' },
+          { rating: 'up', reason: null, provider: 'azure', bucket_id: null }
+        ],
+        error: null
+      };
+
+      const response = await request(app)
+        .get('/api/chat-sessions/feedback/summary')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(tables.message_feedback.eq).toContainEqual(['organization_id', 'org-1']);
+      expect(response.body.summary.totals).toEqual({
+        total: 3, up: 2, down: 1, downRate: 1 / 3, reasons: { inaccurate: 1 }
+      });
+      expect(response.body.summary.byBucket[0]).toEqual(expect.objectContaining({ bucketId: '42', down: 1 }));
+    });
+
+    it('should count every row past the PostgREST row cap', async () => {
+      table('message_feedback').result = {
+        data: Array.from({ length: 2500 }, (_, i) => ({ rating: i % 5 === 0 ? 'down' : 'up', reason: null, provider: 'groundx', bucket_id: null })),
+        error: null
+      };
+
+      const response = await request(app)
+        .get('/api/chat-sessions/feedback/summary')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.summary.totals).toEqual(expect.objectContaining({ total: 2500, up: 2000, down: 500 }));
+    });
+
+    it('should not expose other organizations', async () => {
+      const response = await request(app)
+        .get('/api/chat-sessions/feedback/summary?organizationId=org-2')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(403);
+      expect(tables.message_feedback).toBeUndefined();
+    });
+
+    it('should reject invalid or repeated filters', async () => {
+      const response = await request(app)
+        .get('/api/chat-sessions/feedback/summary?from=yesterday&provider=azure&provider=openai')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Invalid query parameters',
+        details: [
+          { path: 'from', message: 'must be an ISO date' },
+          { path: 'provider', message: 'must be a string' }
+        ]
+      });
+      expect(tables.message_feedback).toBeUndefined();
+    });
+  });
+
+  describe('summarizeFeedback', () => {
+    it('should rank providers by their share of down ratings', () => {
+      const summary = summarizeFeedback('org-1', [
+        { rating: 'up', reason: null, provider: 'azure', bucket_id: null },
+        { rating: 'up', reason: null, provider: 'azure', bucket_id: null },
+        { rating: 'down', reason: 'incomplete', provider: 'openai', bucket_id: null },
+        { rating: 'up', reason: null, provider: 'openai', bucket_id: null },
+        { rating: 'down', reason: 'other', provider: null, bucket_id: null }
+      ]);
+
+      expect(summary.byProvider.map(group => group.provider)).toEqual(['unknown', 'openai', 'azure']);
+      expect(summary.byProvider[1]).toEqual({
+        provider: 'openai', total: 2, up: 1, down: 1, downRate: 0.5, reasons: { incomplete: 1 }
+      });
+      expect(summary.byBucket).toEqual([]);
+    });
+  });
+});
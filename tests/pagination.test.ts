@@ -0,0 +1,181 @@
+import request from 'supertest';
+import express from 'express';
+import chatSessionsRoutes from '../src/routes/chat-sessions';
+import { encodeCursor, decodeCursor, fetchAllRows, parsePageParams } from '../src/utils/pagination';
+
+// Every builder call per table, and the rows each table query resolves to
+const calls: Record<string, Array<[string, ...any[]]>> = {};
+const results: Record<string, any> = {};
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: jest.fn(async () => ({ data: { user: { id: 'user-1' } }, error: null }))
+    },
+    from: jest.fn((table: string) => {
+      calls[table] = calls[table] || [];
+      const builder: any = new Proxy({}, {
+        get: (_target, method: string) => {
+          if (method === 'then') {
+            return (resolve: any, reject: any) => Promise.resolve(results[table] ?? { data: [], error: null }).then(resolve, reject);
+          }
+          if (method === 'single') {
+            return async () => ({ data: { id: 'session-1', user_id: 'user-1' }, error: null });
+          }
+          return (...args: any[]) => {
+            calls[table].push([method, ...args]);
+            return builder;
+          };
+        }
+      });
+      return builder;
+    })
+  })
+}));
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  optionalSupabaseAuth: (_req: any, _res: any, next: any) => next(),
+  resolveOrganizationContext: jest.fn().mockResolvedValue({ organizationContext: { activeOrganizationId: 'org-1' } })
+}));
+
+const ids = {
+  s1: '00000000-0000-4000-8000-000000000001',
+  s2: '00000000-0000-4000-8000-000000000002',
+  s3: '00000000-0000-4000-8000-000000000003',
+  m1: '00000000-0000-4000-8000-0000000000a1',
+  m2: '00000000-0000-4000-8000-0000000000a2'
+};
+
+const sessions = [
+  { id: ids.s3, title: 'Third', updated_at: '2024-05-03T00:00:00Z' },
+  { id: ids.s2, title: 'Second', updated_at: '2024-05-02T00:00:00Z' },
+  { id: ids.s1, title: 'First', updated_at: '2024-05-01T00:00:00Z' }
+];
+
+describe('Session and message pagination', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    for (const table of Object.keys(calls)) delete calls[table];
+    for (const table of Object.keys(results)) delete results[table];
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'anon-key';
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/chat-sessions', chatSessionsRoutes);
+  });
+
+  it('should return the first page of the default size when no limit or cursor is given', async () => {
+    results.chat_sessions = { data: sessions, error: null };
+
+    const response = await request(app)
+      .get('/api/chat-sessions/sessions')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(response.body.sessions).toHaveLength(3);
+    expect(response.body.hasMore).toBe(false);
+    expect(response.body.nextCursor).toBeNull();
+    expect(calls.chat_sessions).toContainEqual(['limit', 51]);
+  });
+
+  it('should return a page of sessions with a cursor to the next one', async () => {
+    results.chat_sessions = { data: sessions, error: null };
+
+    const response = await request(app)
+      .get('/api/chat-sessions/sessions?limit=2')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(calls.chat_sessions).toContainEqual(['limit', 3]);
+    expect(response.body.sessions.map((session: any) => session.id)).toEqual([ids.s3, ids.s2]);
+    expect(response.body.hasMore).toBe(true);
+    expect(decodeCursor(response.body.nextCursor)).toEqual({ value: '2024-05-02T00:00:00Z', id: ids.s2 });
+  });
+
+  it('should continue after the cursor and only include changes since a timestamp', async () => {
+    const cursor = encodeCursor('2024-05-02T00:00:00Z', ids.s2);
+
+    const response = await request(app)
+      .get(`/api/chat-sessions/sessions?cursor=${cursor}&since=2024-04-01T00:00:00Z`)
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(calls.chat_sessions).toEqual(expect.arrayContaining([
+      ['gt', 'updated_at', '2024-04-01T00:00:00Z'],
+      ['or', `updated_at.lt."2024-05-02T00:00:00Z",and(updated_at.eq."2024-05-02T00:00:00Z",id.lt."${ids.s2}")`],
+      ['order', 'updated_at', { ascending: false }],
+      ['limit', 51]
+    ]));
+    expect(typeof response.body.syncedAt).toBe('string');
+  });
+
+  it('should page messages oldest first by default', async () => {
+    results.chat_messages = {
+      data: [
+        { id: ids.m1, timestamp: '2024-05-01T00:00:01Z' },
+        { id: ids.m2, timestamp: '2024-05-01T00:00:02Z' }
+      ],
+      error: null
+    };
+
+    const response = await request(app)
+      .get('/api/chat-sessions/sessions/session-1/messages?limit=1')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(calls.chat_messages).toContainEqual(['order', 'timestamp', { ascending: true }]);
+    expect(response.body.messages).toEqual([{ id: ids.m1, timestamp: '2024-05-01T00:00:01Z' }]);
+    expect(decodeCursor(response.body.nextCursor)).toEqual({ value: '2024-05-01T00:00:01Z', id: ids.m1 });
+  });
+
+  it('should reject malformed paging parameters', async () => {
+    const response = await request(app)
+      .get('/api/chat-sessions/sessions/session-1/messages?cursor=not-a-cursor')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('cursor is invalid');
+  });
+
+  it('should reject cursors that would add filter clauses', async () => {
+    const injected = encodeCursor('2024-05-02T00:00:00Z",user_id.neq."x', ids.s2);
+    const badId = encodeCursor('2024-05-02T00:00:00Z', 's2"),or(id.gt."0');
+
+    for (const cursor of [injected, badId]) {
+      const response = await request(app)
+        .get(`/api/chat-sessions/sessions?cursor=${cursor}`)
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('cursor is invalid');
+    }
+    expect(calls.chat_sessions).toBeUndefined();
+  });
+
+  describe('parsePageParams', () => {
+    it('should validate limit, since and order', () => {
+      expect(parsePageParams({ limit: '0' }, true).error).toBe('limit must be an integer between 1 and 500');
+      expect(parsePageParams({ since: 'yesterday' }, true).error).toBe('since must be an ISO timestamp');
+      expect(parsePageParams({ order: 'desc', limit: '10' }, true).params).toEqual({ ascending: false, limit: 10 });
+    });
+  });
+
+  describe('fetchAllRows', () => {
+    it('should keep paging when the server caps pages below the requested size', async () => {
+      const rows = Array.from({ length: 950 }, (_, i) => ({ id: i }));
+      const range = jest.fn((from: number, to: number) => Promise.resolve({
+        // A max-rows setting of 400
+        data: rows.slice(from, Math.min(to + 1, from + 400)),
+        error: null
+      }));
+
+      const { data, error } = await fetchAllRows(() => ({ range }), 1000);
+
+      expect(error).toBeNull();
+      expect(data).toHaveLength(950);
+      expect(range.mock.calls.map(([from]) => from)).toEqual([0, 400, 800, 950]);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import request from 'supertest';
+import express from 'express';
+import { enforceClientLimits } from '../src/middleware/rateLimit';
+import { CounterStore, MemoryCounterStore, checkClientLimits, setCounterStore } from '../src/services/rateLimit';
+import chatSessionsRoutes from '../src/routes/chat-sessions';
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: jest.fn(async () => ({ data: { user: { id: 'user-1' } }, error: null }))
+    }
+  })
+}));
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  optionalSupabaseAuth: (req: any, _res: any, next: any) => {
+    req.organizationContext = { activeOrganizationId: 'org-1' };
+    req.user = { id: 'user-1' };
+    next();
+  },
+  resolveOrganizationContext: jest.fn().mockResolvedValue({ organizationContext: { activeOrganizationId: 'org-1' } })
+}));
+
+jest.mock('../src/services/sessionBranching', () => ({
+  regenerateAssistantMessage: jest.fn(async () => ({ message: { id: 'message-2' }, data: { message: { content: 'Again' } } })),
+  forkSession: jest.fn()
+}));
+
+jest.mock('../src/services/clientConfigService', () => ({
+  ...jest.requireActual('../src/services/clientConfigService'),
+  getClientConfigService: () => ({
+    getClientConfig: jest.fn(async (organizationId: string) => ({
+      'org-1': { organization_id: 'org-1', limits: { requests_per_minute: 2, requests_per_day: 100, max_file_size_mb: 1, max_concurrent_requests: 1 } },
+      'org-3': { organization_id: 'org-3', limits: { requests_per_minute: 10, user_requests_per_minute: 2 } }
+    } as Record<string, any>)[organizationId] ?? null)
+  })
+}));
+
+describe('Client rate limits', () => {
+  let app: express.Application;
+  let releaseSlowRequest: () => void;
+
+  beforeEach(() => {
+    setCounterStore(new MemoryCounterStore());
+
+    app = express();
+    // Stand-in for the authentication middleware
+    app.use((req: any, _res, next) => {
+      const organizationId = req.headers['x-test-organization'];
+      req.organizationContext = { activeOrganizationId: organizationId };
+      req.user = { id: req.headers['x-test-user'] || 'user-1' };
+      next();
+    });
+    app.use(enforceClientLimits as any);
+    app.post('/chat', (_req: any, res: any) => {
+      res.json({ success: true });
+    });
+    app.post('/slow', (_req: any, res: any) => {
+      releaseSlowRequest = () => res.json({ success: true });
+    });
+    app.get('/health', (_req: any, res: any) => {
+      res.json({ success: true });
+    });
+  });
+
+  it('should answer 429 with Retry-After once the organization\'s per-minute limit is used up', async () => {
+    const first = await request(app).post('/chat').set('x-test-organization', 'org-1');
+    const second = await request(app).post('/chat').set('x-test-organization', 'org-1').set('x-test-user', 'user-2');
+    const third = await request(app).post('/chat').set('x-test-organization', 'org-1');
+
+    expect(first.status).toBe(200);
+    expect(first.headers['x-ratelimit-limit']).toBe('2');
+    expect(first.headers['x-ratelimit-remaining']).toBe('1');
+    expect(Number(first.headers['x-ratelimit-reset'])).toBeGreaterThan(Date.now() / 1000);
+    expect(second.headers['x-ratelimit-remaining']).toBe('0');
+
+    expect(third.status).toBe(429);
+    expect(Number(third.headers['retry-after'])).toBeGreaterThan(0);
+    expect(third.body).toEqual({
+      success: false,
+      error: 'Rate limit exceeded',
+      details: { limit: 'requests_per_minute', max: 2, retryAfterSeconds: expect.any(Number) }
+    });
+  });
+
+  it('should count organizations separately and fall back to the default limits', async () => {
+    await request(app).post('/chat').set('x-test-organization', 'org-1');
+    await request(app).post('/chat').set('x-test-organization', 'org-1');
+
+    const other = await request(app).post('/chat').set('x-test-organization', 'org-2');
+
+    expect(other.status).toBe(200);
+    // The tightest default window is the user's share of the per-minute limit
+    expect(other.headers['x-ratelimit-limit']).toBe('20');
+  });
+
+  it('should keep one user from using up the organization\'s allowance', async () => {
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await request(app).post('/chat').set('x-test-organization', 'org-3')).status);
+    }
+    const rejected = await request(app).post('/chat').set('x-test-organization', 'org-3');
+    const otherUser = await request(app).post('/chat').set('x-test-organization', 'org-3').set('x-test-user', 'user-2');
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(rejected.body.details).toEqual(expect.objectContaining({ limit: 'user_requests_per_minute', max: 2 }));
+    expect(otherUser.status).toBe(200);
+    expect(otherUser.headers['x-ratelimit-remaining']).toBe('1');
+  });
+
+  it('should not count health checks', async () => {
+    const responses = [];
+    for (let i = 0; i < 3; i++) {
+      responses.push(await request(app).get('/health').set('x-test-organization', 'org-1'));
+    }
+    const chat = await request(app).post('/chat').set('x-test-organization', 'org-1');
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(responses[0].headers['x-ratelimit-limit']).toBeUndefined();
+    expect(chat.headers['x-ratelimit-remaining']).toBe('1');
+  });
+
+  it('should not count rejected requests against the daily quota', async () => {
+    const store = new MemoryCounterStore();
+    setCounterStore(store);
+    const results = [];
+    for (let i = 0; i < 5; i++) {
+      const result = await checkClientLimits({ organizationId: 'org-1', userId: 'user-1' });
+      if (result.allowed) result.release();
+      results.push(result.allowed);
+    }
+
+    expect(results).toEqual([true, true, false, false, false]);
+    // Two requests were counted for the day, so the next increment is the third
+    expect((await store.increment('rate:requests_per_day:org:org-1', 60000)).count).toBe(3);
+  });
+
+  it('should limit concurrent requests per user', async () => {
+    const slow = request(app).post('/slow').set('x-test-organization', 'org-1').then(response => response);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const concurrent = await request(app).post('/chat').set('x-test-organization', 'org-1');
+    releaseSlowRequest();
+    await slow;
+    const after = await request(app).post('/chat').set('x-test-organization', 'org-1');
+
+    expect(concurrent.status).toBe(429);
+    expect(concurrent.body.error).toBe('Too many concurrent requests');
+    expect(after.status).toBe(200);
+  });
+
+  it('should reject bodies over max_file_size_mb', async () => {
+    const response = await request(app)
+      .post('/chat')
+      .set('x-test-organization', 'org-1')
+      .set('Content-Type', 'text/plain')
+      .send('x'.repeat(1024 * 1024 + 1));
+
+    expect(response.status).toBe(413);
+    expect(response.body.details).toEqual({ limit: 'max_file_size_mb', max: 1 });
+  });
+
+  it('should let requests through when the counter store fails', async () => {
+    const failingStore: CounterStore = {
+      increment: jest.fn().mockRejectedValue(new Error('connection refused')),
+      decrement: jest.fn(),
+      clear: jest.fn()
+    };
+    setCounterStore(failingStore);
+
+    const response = await request(app).post('/chat').set('x-test-organization', 'org-1');
+
+    expect(response.status).toBe(200);
+    expect(failingStore.increment).toHaveBeenCalled();
+  });
+
+  it('should give the concurrency slot back when the quota check fails', async () => {
+    const memoryStore = new MemoryCounterStore();
+    const quotaFailingStore: CounterStore = {
+      increment: (key, windowMs, options) => key.startsWith('rate:')
+        ? Promise.reject(new Error('connection refused'))
+        : memoryStore.increment(key, windowMs, options),
+      decrement: key => memoryStore.decrement(key),
+      clear: () => memoryStore.clear()
+    };
+    setCounterStore(quotaFailingStore);
+
+    const responses = [];
+    for (let i = 0; i < 3; i++) {
+      responses.push(await checkClientLimits({ organizationId: 'org-1', userId: 'user-1' }));
+    }
+
+    expect(responses.every(response => response.allowed)).toBe(true);
+    expect((await memoryStore.increment('concurrent:user:user-1', 60000)).count).toBe(1);
+  });
+
+  it('should count answer regeneration against the same limits as chat', async () => {
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'anon-key';
+    const sessionsApp = express();
+    sessionsApp.use(express.json());
+    sessionsApp.use('/api/chat-sessions', chatSessionsRoutes);
+
+    const regenerate = () => request(sessionsApp)
+      .post('/api/chat-sessions/sessions/session-1/messages/message-1/regenerate')
+      .set('Authorization', 'Bearer token')
+      .send({});
+
+    const first = await regenerate();
+    const second = await regenerate();
+    const third = await regenerate();
+
+    expect(first.status).toBe(200);
+    expect(first.headers['x-ratelimit-limit']).toBe('2');
+    expect(second.status).toBe(200);
+    expect(third.status).toBe(429);
+    expect(third.body.error).toBe('Rate limit exceeded');
+  });
+
+  describe('MemoryCounterStore', () => {
+    it('should start a new window once the current one ends', async () => {
+      const store = new MemoryCounterStore();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      await store.increment('key', 60000);
+      expect((await store.increment('key', 60000)).count).toBe(2);
+
+      now.mockReturnValue(61000);
+      expect(await store.increment('key', 60000)).toEqual({ count: 1, resetAt: 121000 });
+      now.mockRestore();
+    });
+
+    it('should extend a sliding window on every increment', async () => {
+      const store = new MemoryCounterStore();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      await store.increment('slots', 60000, { sliding: true });
+      now.mockReturnValue(50000);
+      await store.increment('slots', 60000, { sliding: true });
+
+      // Past the first window's end, the count carries on
+      now.mockReturnValue(70000);
+      expect(await store.increment('slots', 60000, { sliding: true })).toEqual({ count: 3, resetAt: 130000 });
+      now.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  getSessionAccess,
+  requireSessionAccess,
+  listSharedSessionRoles,
+  shareSession
+} from '../src/services/sessionAccess';
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  resolveOrganizationContext: jest.fn(async (user: { id: string }) => ({
+    organizationContext: { activeOrganizationId: user.id === 'outsider' ? 'org-2' : 'org-1' }
+  }))
+}));
+
+const session = { id: 'session-1', user_id: 'owner', title: 'Retainage' };
+
+// Minimal Supabase stand-in over fixed session and share rows
+function createSupabaseMock(shares: any[]) {
+  const writes: Array<{ table: string; method: string; value: any }> = [];
+  const from = jest.fn((table: string) => {
+    const filters: Record<string, any> = {};
+    let orFilter = '';
+    const rows = () => table === 'chat_sessions'
+      ? [session].filter(row => !filters.id || row.id === filters.id)
+      : shares.filter(share => Object.entries(filters).every(([column, value]) => share[column] === value))
+        .filter(share => !orFilter || orFilter.split(',').some(condition => {
+          const [column, , value] = condition.split('.');
+          return share[column] === value;
+        }));
+
+    const builder: any = {
+      select: jest.fn(() => builder),
+      eq: jest.fn((column: string, value: any) => {
+        filters[column] = value;
+        return builder;
+      }),
+      or: jest.fn((value: string) => {
+        orFilter = value;
+        return builder;
+      }),
+      insert: jest.fn((value: any) => {
+        writes.push({ table, method: 'insert', value });
+        return builder;
+      }),
+      update: jest.fn((value: any) => {
+        writes.push({ table, method: 'update', value });
+        return builder;
+      }),
+      single: jest.fn(async () => {
+        const last = writes[writes.length - 1];
+        if (last?.method === 'insert') return { data: { id: 'share-new', ...last.value[0] }, error: null };
+        if (last?.method === 'update') return { data: { id: filters.id, ...last.value }, error: null };
+        const [row] = rows();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'No rows' } };
+      }),
+      maybeSingle: jest.fn(async () => ({ data: rows()[0] ?? null, error: null })),
+      then: (resolve: any, reject: any) => Promise.resolve({ data: rows(), error: null }).then(resolve, reject)
+    };
+    return builder;
+  });
+
+  return { client: { from } as any, writes };
+}
+
+const shares = [
+  { id: 'share-1', session_id: 'session-1', shared_with_user_id: 'viewer', organization_id: null, role: 'viewer' },
+  { id: 'share-2', session_id: 'session-1', shared_with_user_id: null, organization_id: 'org-1', role: 'contributor' }
+];
+
+describe('Session access', () => {
+  it('should give the creator the owner role', async () => {
+    const supabase = createSupabaseMock(shares);
+
+    const access = await getSessionAccess(supabase.client, 'session-1', { id: 'owner' });
+
+    expect(access?.role).toBe('owner');
+  });
+
+  it('should use the strongest share that matches the user', async () => {
+    const supabase = createSupabaseMock(shares);
+
+    // Shared directly as a viewer, but the organization share grants contributor
+    const access = await getSessionAccess(supabase.client, 'session-1', { id: 'viewer' });
+
+    expect(access?.role).toBe('contributor');
+  });
+
+  it('should hide sessions from users outside the shares', async () => {
+    const supabase = createSupabaseMock(shares);
+
+    expect(await getSessionAccess(supabase.client, 'session-1', { id: 'outsider' })).toBeNull();
+    await expect(requireSessionAccess(supabase.client, 'session-1', { id: 'outsider' }, 'viewer'))
+      .rejects.toMatchObject({ status: 404, message: 'Chat session not found' });
+  });
+
+  it('should reject roles below the required one', async () => {
+    const supabase = createSupabaseMock([shares[0]]);
+
+    await expect(requireSessionAccess(supabase.client, 'session-1', { id: 'viewer' }, 'contributor'))
+      .rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should list sessions shared directly or through the organization', async () => {
+    const supabase = createSupabaseMock(shares);
+
+    const roles = await listSharedSessionRoles(supabase.client, { id: 'viewer' });
+
+    expect([...roles]).toEqual([['session-1', 'contributor']]);
+  });
+
+  it('should update the role when sharing with the same user again', async () => {
+    const supabase = createSupabaseMock(shares);
+
+    const share = await shareSession(supabase.client, {
+      sessionId: 'session-1',
+      sharedBy: { id: 'owner' },
+      role: 'contributor',
+      userId: 'viewer'
+    });
+
+    expect(supabase.writes).toEqual([
+      { table: 'chat_session_shares', method: 'update', value: { role: 'contributor' } },
+      // The session is bumped so the recipient's next sync picks the share up
+      { table: 'chat_sessions', method: 'update', value: { updated_at: expect.any(String) } }
+    ]);
+    expect(share).toEqual(expect.objectContaining({ id: 'share-1', role: 'contributor' }));
+  });
+
+  it('should only share with members of the owner\'s organization', async () => {
+    const supabase = createSupabaseMock([]);
+
+    await expect(shareSession(supabase.client, {
+      sessionId: 'session-1',
+      sharedBy: { id: 'owner' },
+      role: 'viewer',
+      userId: 'outsider'
+    })).rejects.toMatchObject({ status: 404, message: 'User not found in your organization' });
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it('should share with the owner\'s active organization', async () => {
+    const supabase = createSupabaseMock([]);
+
+    const share = await shareSession(supabase.client, {
+      sessionId: 'session-1',
+      sharedBy: { id: 'owner' },
+      role: 'viewer',
+      organization: true
+    });
+
+    expect(share).toEqual(expect.objectContaining({
+      session_id: 'session-1',
+      shared_with_user_id: null,
+      organization_id: 'org-1',
+      role: 'viewer',
+      created_by: 'owner'
+    }));
+  });
+});
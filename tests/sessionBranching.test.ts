@@ -0,0 +1,125 @@
+import { collapseAlternatives } from '../src/services/conversationHistory';
+import { regenerateAssistantMessage, forkSession } from '../src/services/sessionBranching';
+
+const mockProvider = {
+  name: 'groundx',
+  chat: jest.fn(),
+  stream: jest.fn()
+};
+
+jest.mock('../src/services/chatProviders', () => ({
+  ...jest.requireActual('../src/services/chatProviders'),
+  resolveChatProvider: jest.fn(async () => mockProvider)
+}));
+
+const { resolveChatProvider } = jest.requireMock('../src/services/chatProviders');
+
+const storedMessages = [
+  { id: 'm1', role: 'user', content: 'What are the payment terms?', timestamp: '2024-01-01T00:00:01Z', alternative_of: null },
+  { id: 'm2', role: 'assistant', content: 'Net 60.', provider: 'groundx', bucket_id: '42', timestamp: '2024-01-01T00:00:02Z', alternative_of: null },
+  { id: 'm3', role: 'user', content: 'And late fees?', timestamp: '2024-01-01T00:00:03Z', alternative_of: null },
+  { id: 'm4', role: 'assistant', content: 'Two percent.', provider: 'groundx', bucket_id: '42', timestamp: '2024-01-01T00:00:04Z', alternative_of: null },
+  { id: 'm5', role: 'assistant', content: 'Net 30.', provider: 'groundx', bucket_id: '42', timestamp: '2024-01-01T00:00:05Z', alternative_of: 'm2' }
+];
+
+// Minimal Supabase stand-in: sessions are owned by user-1, inserts are recorded per table
+function createSupabaseMock() {
+  const inserts: Record<string, any[]> = {};
+  const from = jest.fn((table: string) => {
+    let inserted: any[] | null = null;
+    const builder: any = {
+      select: jest.fn(() => builder),
+      eq: jest.fn(() => builder),
+      order: jest.fn(() => builder),
+      update: jest.fn(() => builder),
+      delete: jest.fn(() => builder),
+      insert: jest.fn((rows: any[]) => {
+        inserted = rows.map((row, index) => ({ id: `${table}-new-${index}`, ...row }));
+        inserts[table] = [...(inserts[table] || []), ...inserted];
+        return builder;
+      }),
+      single: jest.fn(async () => {
+        if (inserted) return { data: inserted[0], error: null };
+        if (table === 'chat_sessions') return { data: { id: 'session-1', user_id: 'user-1', title: 'Payment terms' }, error: null };
+        return { data: null, error: null };
+      }),
+      then: (resolve: any, reject: any) => Promise.resolve(
+        inserted ? { data: inserted, error: null } : { data: storedMessages, error: null }
+      ).then(resolve, reject)
+    };
+    return builder;
+  });
+
+  return { client: { from } as any, inserts };
+}
+
+describe('Session branching', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('collapseAlternatives', () => {
+    it('should put the newest alternative in place of the answer it replaced', () => {
+      const mainLine = collapseAlternatives(storedMessages);
+
+      expect(mainLine.map(message => message.id)).toEqual(['m1', 'm5', 'm3', 'm4']);
+    });
+  });
+
+  describe('regenerateAssistantMessage', () => {
+    it('should re-run the original provider and bucket on the preceding question', async () => {
+      mockProvider.chat.mockResolvedValueOnce({ message: { content: 'Net 45.', role: 'assistant' }, context: {} });
+      const supabase = createSupabaseMock();
+
+      const { message } = await regenerateAssistantMessage(
+        { user: { id: 'user-1' }, supabaseClient: supabase.client },
+        { sessionId: 'session-1', messageId: 'm5', organizationId: 'org-1', params: {} }
+      );
+
+      expect(resolveChatProvider).toHaveBeenCalledWith('groundx', 'org-1');
+      expect(mockProvider.chat).toHaveBeenCalledWith(
+        { messages: [{ role: 'user', content: 'What are the payment terms?' }], params: { bucketId: '42' } },
+        { organizationId: 'org-1', sessionId: 'session-1' }
+      );
+      expect(message).toEqual(expect.objectContaining({
+        role: 'assistant',
+        content: 'Net 45.',
+        alternative_of: 'm2',
+        bucket_id: '42'
+      }));
+    });
+
+    it('should reject user messages', async () => {
+      const supabase = createSupabaseMock();
+
+      await expect(regenerateAssistantMessage(
+        { user: { id: 'user-1' }, supabaseClient: supabase.client },
+        { sessionId: 'session-1', messageId: 'm3', organizationId: null, params: {} }
+      )).rejects.toMatchObject({ status: 400, message: 'Only assistant messages can be regenerated' });
+      expect(mockProvider.chat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forkSession', () => {
+    it('should copy the main line up to the fork point into a new session', async () => {
+      const supabase = createSupabaseMock();
+
+      const { session, messages } = await forkSession(
+        { user: { id: 'user-1' }, supabaseClient: supabase.client },
+        { sessionId: 'session-1', messageId: 'm3' }
+      );
+
+      expect(session).toEqual(expect.objectContaining({
+        title: 'Payment terms (fork)',
+        forked_from_session_id: 'session-1',
+        forked_from_message_id: 'm3'
+      }));
+      expect(messages.map(message => [message.content, message.timestamp, message.session_id])).toEqual([
+        ['What are the payment terms?', '2024-01-01T00:00:01Z', session.id],
+        ['Net 30.', '2024-01-01T00:00:02Z', session.id],
+        ['And late fees?', '2024-01-01T00:00:03Z', session.id]
+      ]);
+      expect(messages.every(message => message.alternative_of === undefined)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import request from 'supertest';
+import express from 'express';
+import chatSessionsRoutes from '../src/routes/chat-sessions';
+
+const session = {
+  id: 'session-1',
+  user_id: 'user-1',
+  title: 'Acme Supply Agreement',
+  created_at: '2024-03-01T09:00:00.000Z',
+  updated_at: '2024-03-01T09:05:00.000Z'
+};
+
+const messages = [
+  { id: 'm1', role: 'user', content: 'What are the payment terms?', timestamp: '2024-03-01T09:00:10.000Z' },
+  {
+    id: 'm2',
+    role: 'assistant',
+    content: 'Payment is due within 30 days [1].',
+    timestamp: '2024-03-01T09:00:20.000Z',
+    provider: 'groundx',
+    supporting_content: [{ fileName: 'acme.pdf', page: 4, text: 'Invoices are payable net 30.' }],
+    document_excerpts: [{ fileName: 'acme.pdf', page: 5, text: 'Late payments accrue 2% interest.' }],
+    thoughts: 'Searched the payment clause',
+    raw_response: { id: 'resp-1' }
+  }
+];
+
+let sessionFound = true;
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: jest.fn(async (token: string) => (
+        token === 'valid-token'
+          ? { data: { user: { id: 'user-1' } }, error: null }
+          : { data: { user: null }, error: { message: 'Invalid token' } }
+      ))
+    },
+    from: jest.fn((table: string) => {
+      const builder: any = {
+        select: jest.fn(() => builder),
+        eq: jest.fn(() => builder),
+        order: jest.fn(async () => ({ data: messages, error: null })),
+        single: jest.fn(async () => (
+          table === 'chat_sessions' && sessionFound
+            ? { data: session, error: null }
+            : { data: null, error: { message: 'No rows' } }
+        ))
+      };
+      return builder;
+    })
+  })
+}));
+
+describe('Chat session export', () => {
+  let app: express.Application;
+  const url = '/api/chat-sessions/sessions/session-1/export';
+
+  beforeEach(() => {
+    sessionFound = true;
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'anon-key';
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/chat-sessions', chatSessionsRoutes);
+  });
+
+  it('should render a Markdown transcript with sources and excerpts', async () => {
+    const response = await request(app)
+      .get(`${url}?format=md`)
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/markdown');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="acme-supply-agreement.md"');
+    expect(response.text).toContain('# Acme Supply Agreement');
+    expect(response.text).toContain('## Assistant');
+    expect(response.text).toContain('Payment is due within 30 days [1].');
+    expect(response.text).toContain('1. **acme.pdf, page 4** — Invoices are payable net 30.');
+    expect(response.text).toContain('> Late payments accrue 2% interest.');
+    expect(response.text).toContain('Searched the payment clause');
+  });
+
+  it('should omit thoughts and raw responses on request', async () => {
+    const response = await request(app)
+      .get(`${url}?format=json&omit=thoughts,raw_response`)
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    const assistant = response.body.messages[1];
+    expect(assistant.thoughts).toBeUndefined();
+    expect(assistant.raw_response).toBeUndefined();
+    expect(assistant.sources).toEqual([expect.objectContaining({ fileName: 'acme.pdf', page: 4 })]);
+    expect(response.body.title).toBe('Acme Supply Agreement');
+  });
+
+  it('should render a PDF', async () => {
+    const response = await request(app)
+      .get(`${url}?format=pdf`)
+      .set('Authorization', 'Bearer valid-token')
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/pdf');
+    expect((response.body as Buffer).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should reject unknown formats', async () => {
+    const response = await request(app)
+      .get(`${url}?format=docx`)
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('format must be one of: md, json, pdf');
+  });
+
+  it('should return 404 for sessions the user does not own', async () => {
+    sessionFound = false;
+
+    const response = await request(app)
+      .get(`${url}?format=md`)
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,227 @@
+import request from 'supertest';
+import express from 'express';
+import chatSessionsRoutes from '../src/routes/chat-sessions';
+
+// Every builder chain started per table, and what single() and awaiting resolve to, in call order
+const chains: Record<string, Array<Array<[string, ...any[]]>>> = {};
+const results: Record<string, { single?: any[]; list?: any[] }> = {};
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: jest.fn(async () => ({ data: { user: { id: 'user-1' } }, error: null }))
+    },
+    from: jest.fn((table: string) => {
+      const calls: Array<[string, ...any[]]> = [];
+      chains[table] = [...(chains[table] || []), calls];
+      const builder: any = new Proxy({}, {
+        get: (_target, method: string) => {
+          if (method === 'then') {
+            const result = results[table]?.list?.shift() ?? { data: [], error: null };
+            return (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+          }
+          if (method === 'single') {
+            return async () => results[table]?.single?.shift() ?? { data: null, error: { code: 'PGRST116', message: 'No rows' } };
+          }
+          return (...args: any[]) => {
+            calls.push([method, ...args]);
+            return builder;
+          };
+        }
+      });
+      return builder;
+    })
+  })
+}));
+
+jest.mock('../src/middleware/supabaseAuth', () => ({
+  optionalSupabaseAuth: (_req: any, _res: any, next: any) => next(),
+  resolveOrganizationContext: jest.fn().mockResolvedValue({ organizationContext: { activeOrganizationId: 'org-1' } })
+}));
+
+describe('Session folders and tags', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    for (const table of Object.keys(chains)) delete chains[table];
+    for (const table of Object.keys(results)) delete results[table];
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'anon-key';
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/chat-sessions', chatSessionsRoutes);
+  });
+
+  describe('folders', () => {
+    it('should create a folder for the user', async () => {
+      results.chat_folders = { single: [{ data: { id: 'folder-1', user_id: 'user-1', name: 'Acme dispute' }, error: null }] };
+
+      const response = await request(app)
+        .post('/api/chat-sessions/folders')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Acme dispute' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.folder.name).toBe('Acme dispute');
+      expect(chains.chat_folders[0][0]).toEqual(['insert', [expect.objectContaining({ name: 'Acme dispute', user_id: 'user-1' })]]);
+    });
+
+    it('should reject duplicate folder names', async () => {
+      results.chat_folders = { single: [{ data: null, error: { code: '23505', message: 'duplicate key' } }] };
+
+      const response = await request(app)
+        .post('/api/chat-sessions/folders')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Acme dispute' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('A folder named "Acme dispute" already exists');
+    });
+
+    it('should return 404 when renaming another user\'s folder', async () => {
+      const response = await request(app)
+        .put('/api/chat-sessions/folders/folder-2')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Mine now' });
+
+      expect(response.status).toBe(404);
+      expect(chains.chat_folders[0]).toContainEqual(['eq', 'user_id', 'user-1']);
+    });
+  });
+
+  describe('POST /api/chat-sessions/sessions/bulk/move', () => {
+    it('should move the user\'s sessions into one of their folders', async () => {
+      results.chat_folders = { list: [{ data: [{ id: 'folder-1' }], error: null }] };
+      results.chat_sessions = { list: [{ data: [{ id: 's1' }, { id: 's2' }], error: null }] };
+
+      const response = await request(app)
+        .post('/api/chat-sessions/sessions/bulk/move')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ sessionIds: ['s1', 's2', 'someone-elses'], folderId: 'folder-1' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.updatedSessionIds).toEqual(['s1', 's2']);
+      expect(chains.chat_sessions[0]).toEqual(expect.arrayContaining([
+        ['update', expect.objectContaining({ folder_id: 'folder-1' })],
+        ['eq', 'user_id', 'user-1'],
+        ['in', 'id', ['s1', 's2', 'someone-elses']]
+      ]));
+    });
+
+    it('should refuse folders the user doesn\'t own', async () => {
+      const response = await request(app)
+        .post('/api/chat-sessions/sessions/bulk/move')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ sessionIds: ['s1'], folderId: 'folder-2' });
+
+      expect(response.status).toBe(404);
+      expect(chains.chat_sessions).toBeUndefined();
+    });
+
+    it('should require folderId, allowing null', async () => {
+      const missing = await request(app)
+        .post('/api/chat-sessions/sessions/bulk/move')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ sessionIds: ['s1'] });
+      const cleared = await request(app)
+        .post('/api/chat-sessions/sessions/bulk/move')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ sessionIds: ['s1'], folderId: null });
+
+      expect(missing.status).toBe(400);
+      expect(cleared.status).toBe(200);
+      expect(chains.chat_sessions[0][0]).toEqual(['update', expect.objectContaining({ folder_id: null })]);
+    });
+  });
+
+  describe('POST /api/chat-sessions/sessions/bulk/tags', () => {
+    it('should add and remove tags on the user\'s sessions only', async () => {
+      results.chat_tags = { list: [{ data: [{ id: 'tag-1' }, { id: 'tag-2' }], error: null }] };
+      results.chat_sessions = { list: [{ data: [{ id: 's1' }], error: null }] };
+
+      const response = await request(app)
+        .post('/api/chat-sessions/sessions/bulk/tags')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ sessionIds: ['s1', 'someone-elses'], add: ['tag-1'], remove: ['tag-2'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.updatedSessionIds).toEqual(['s1']);
+      const [upsert, removal] = chains.chat_session_tags;
+      expect(upsert[0]).toEqual([
+        'upsert',
+        [{ session_id: 's1', tag_id: 'tag-1' }],
+        { onConflict: 'session_id,tag_id', ignoreDuplicates: true }
+      ]);
+      expect(removal).toEqual([['delete'], ['in', 'session_id', ['s1']], ['in', 'tag_id', ['tag-2']]]);
+      // Tag changes bump the sessions so ?since syncs pick them up
+      expect(chains.chat_sessions[1]).toEqual([['update', { updated_at: expect.any(String) }], ['in', 'id', ['s1']]]);
+    });
+
+    it('should require a tag to add or remove', async () => {
+      const response = await request(app)
+        .post('/api/chat-sessions/sessions/bulk/tags')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ sessionIds: ['s1'], add: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([{ path: 'add', message: 'add or remove must list at least one tag' }]);
+    });
+  });
+
+  describe('GET /api/chat-sessions/sessions', () => {
+    const tagIds = ['00000000-0000-4000-8000-0000000000a1', '00000000-0000-4000-8000-0000000000a2'];
+
+    it('should filter by folder and by sessions carrying every tag', async () => {
+      results.chat_session_tags = {
+        list: [{
+          data: [
+            { session_id: 's1', tag_id: tagIds[0] },
+            { session_id: 's1', tag_id: tagIds[1] },
+            { session_id: 's2', tag_id: tagIds[0] }
+          ],
+          error: null
+        }]
+      };
+      results.chat_sessions = {
+        list: [{
+          data: [{ id: 's1', user_id: 'user-1', chat_session_tags: [{ chat_tags: { id: tagIds[0], name: 'Acme', color: null } }] }],
+          error: null
+        }]
+      };
+
+      const response = await request(app)
+        .get(`/api/chat-sessions/sessions?shared=false&folderId=none&tagId=${tagIds[0]},${tagIds[1]}`)
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(chains.chat_sessions[0]).toEqual(expect.arrayContaining([
+        ['is', 'folder_id', null],
+        ['in', 'id', ['s1']]
+      ]));
+      expect(response.body.sessions).toEqual([{
+        id: 's1',
+        user_id: 'user-1',
+        tags: [{ id: tagIds[0], name: 'Acme', color: null }],
+        access_role: 'owner'
+      }]);
+    });
+
+    it('should reject folder and tag filters that aren\'t ids', async () => {
+      const response = await request(app)
+        .get('/api/chat-sessions/sessions?folderId=abc&tagId=x,y')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Invalid query parameters',
+        details: [
+          { path: 'tagId', message: 'must be a list of UUIDs' },
+          { path: 'folderId', message: 'must be a folder id or none' }
+        ]
+      });
+      expect(chains.chat_sessions).toBeUndefined();
+    });
+  });
+});
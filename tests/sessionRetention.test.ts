@@ -0,0 +1,245 @@
+import request from 'supertest';
+import express from 'express';
+import chatSessionsRoutes from '../src/routes/chat-sessions';
+import { applySessionRetention, resolveRetentionPolicy } from '../src/services/sessionRetention';
+
+// Every builder chain started per table, and what single() (in call order) and awaiting resolve to
+const chains: Record<string, Array<Array<[string, ...any[]]>>> = {};
+const results: Record<string, { single?: any[]; list?: any }> = {};
+
+function createBuilder(table: string) {
+  const calls: Array<[string, ...any[]]> = [];
+  chains[table] = [...(chains[table] || []), calls];
+  const builder: any = new Proxy({}, {
+    get: (_target, method: string) => {
+      if (method === 'then') {
+        return (resolve: any, reject: any) => Promise.resolve(results[table]?.list ?? { data: [], error: null }).then(resolve, reject);
+      }
+      if (method === 'single') {
+        return async () => results[table]?.single?.shift() ?? { data: null, error: { message: 'No rows' } };
+      }
+      return (...args: any[]) => {
+        calls.push([method, ...args]);
+        return builder;
+      };
+    }
+  });
+  return builder;
+}
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: jest.fn(async () => ({ data: { user: { id: 'user-1' } }, error: null }))
+    },
+    from: jest.fn((table: string) => createBuilder(table))
+  })
+}));
+
+jest.mock('../src/services/clientConfigService', () => ({
+  getClientConfigService: () => ({
+    getClientConfig: jest.fn(async (organizationId: string) => (
+      organizationId === 'org-1' ? { organization_id: 'org-1', retention: { deleted_session_days: 7 } } : null
+    ))
+  })
+}));
+
+describe('Session retention', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    for (const table of Object.keys(chains)) delete chains[table];
+    for (const table of Object.keys(results)) delete results[table];
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'anon-key';
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/chat-sessions', chatSessionsRoutes);
+  });
+
+  describe('DELETE /api/chat-sessions/sessions/:sessionId', () => {
+    it('should move the session to the trash instead of deleting it', async () => {
+      results.chat_sessions = {
+        single: [
+          { data: { id: 'session-1', user_id: 'user-1', organization_id: 'org-1', deleted_at: null }, error: null },
+          { data: { id: 'session-1', user_id: 'user-1', organization_id: 'org-1', deleted_at: '2024-06-01T00:00:00.000Z' }, error: null }
+        ]
+      };
+
+      const response = await request(app)
+        .delete('/api/chat-sessions/sessions/session-1')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      const [, update] = chains.chat_sessions;
+      expect(update.some(([method]) => method === 'delete')).toBe(false);
+      expect(update[0]).toEqual(['update', expect.objectContaining({ deleted_by: 'user-1', deleted_at: expect.any(String) })]);
+      expect(response.body.session.purge_at).toBe('2024-06-08T00:00:00.000Z');
+    });
+
+    it('should only delete permanently from the trash', async () => {
+      results.chat_sessions = { single: [{ data: { id: 'session-1', user_id: 'user-1', deleted_at: null }, error: null }] };
+
+      const response = await request(app)
+        .delete('/api/chat-sessions/sessions/session-1?permanent=true')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(409);
+      expect(chains.chat_sessions).toHaveLength(1);
+    });
+
+    it('should record a permanent delete as removed for the owner and everyone it was shared with', async () => {
+      results.chat_sessions = { single: [{ data: { id: 'session-1', user_id: 'user-1', deleted_at: '2024-06-01T00:00:00.000Z' }, error: null }] };
+      results.chat_session_shares = {
+        list: { data: [{ shared_with_user_id: 'user-2', organization_id: null }, { shared_with_user_id: null, organization_id: 'org-1' }], error: null }
+      };
+
+      const response = await request(app)
+        .delete('/api/chat-sessions/sessions/session-1?permanent=true')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(chains.chat_session_removals[0][0]).toEqual(['insert', [
+        { session_id: 'session-1', user_id: 'user-1', organization_id: null, removed_at: expect.any(String) },
+        { session_id: 'session-1', user_id: 'user-2', organization_id: null, removed_at: expect.any(String) },
+        { session_id: 'session-1', user_id: null, organization_id: 'org-1', removed_at: expect.any(String) }
+      ]]);
+    });
+
+    it('should hide trashed sessions from the other session routes', async () => {
+      results.chat_sessions = { single: [{ data: { id: 'session-1', user_id: 'user-1', deleted_at: '2024-06-01T00:00:00.000Z' }, error: null }] };
+
+      const response = await request(app)
+        .get('/api/chat-sessions/sessions/session-1/messages')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/chat-sessions/sessions/:sessionId/restore', () => {
+    it('should clear the deletion', async () => {
+      results.chat_sessions = {
+        single: [
+          { data: { id: 'session-1', user_id: 'user-1', deleted_at: '2024-06-01T00:00:00.000Z' }, error: null },
+          { data: { id: 'session-1', user_id: 'user-1', deleted_at: null }, error: null }
+        ]
+      };
+
+      const response = await request(app)
+        .post('/api/chat-sessions/sessions/session-1/restore')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(chains.chat_sessions[1][0]).toEqual(['update', expect.objectContaining({ deleted_at: null, deleted_by: null })]);
+      expect(response.body.session.deleted_at).toBeNull();
+    });
+  });
+
+  describe('GET /api/chat-sessions/trash', () => {
+    it('should list deleted sessions with their purge date', async () => {
+      results.chat_sessions = {
+        list: {
+          data: [
+            { id: 'session-1', organization_id: 'org-1', deleted_at: '2024-06-01T00:00:00.000Z' },
+            { id: 'session-2', organization_id: null, deleted_at: '2024-06-01T00:00:00.000Z' }
+          ],
+          error: null
+        }
+      };
+
+      const response = await request(app)
+        .get('/api/chat-sessions/trash')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(chains.chat_sessions[0]).toContainEqual(['not', 'deleted_at', 'is', null]);
+      expect(response.body.sessions.map((session: any) => session.purge_at)).toEqual([
+        '2024-06-08T00:00:00.000Z',
+        '2024-07-01T00:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('GET /api/chat-sessions/sessions', () => {
+    it('should leave out trashed and archived sessions unless asked for', async () => {
+      await request(app)
+        .get('/api/chat-sessions/sessions?shared=false')
+        .set('Authorization', 'Bearer valid-token');
+      await request(app)
+        .get('/api/chat-sessions/sessions?shared=false&archived=true')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(chains.chat_sessions[0]).toEqual(expect.arrayContaining([['is', 'deleted_at', null], ['eq', 'archived', false]]));
+      expect(chains.chat_sessions[1]).toContainEqual(['eq', 'archived', true]);
+    });
+
+    it('should list sessions removed since the last sync', async () => {
+      results.chat_session_removals = { list: { data: [{ session_id: 'session-2' }, { session_id: 'session-2' }], error: null } };
+
+      const response = await request(app)
+        .get('/api/chat-sessions/sessions?shared=false&since=2024-06-01T00:00:00.000Z')
+        .set('Authorization', 'Bearer valid-token');
+      const plainListing = await request(app)
+        .get('/api/chat-sessions/sessions?shared=false')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.removedSessionIds).toEqual(['session-2']);
+      expect(chains.chat_session_removals[0]).toContainEqual(['gt', 'removed_at', '2024-06-01T00:00:00.000Z']);
+      expect(plainListing.body.removedSessionIds).toBeUndefined();
+    });
+  });
+
+  describe('applySessionRetention', () => {
+    it('should purge each organization\'s trash after its own period and trash stale sessions', async () => {
+      const supabase = { from: jest.fn((table: string) => createBuilder(table)) } as any;
+
+      await applySessionRetention(supabase, [
+        { organization_id: 'org-1', retention: { deleted_session_days: 7, stale_session_days: 90 } },
+        { organization_id: 'org-2', retention: {} }
+      ], new Date('2024-06-30T00:00:00.000Z'));
+
+      const [orgPurge, orgStale, defaultPurge] = chains.chat_sessions;
+      expect(orgPurge).toEqual([
+        ['delete'],
+        ['eq', 'organization_id', 'org-1'],
+        ['lt', 'deleted_at', '2024-06-23T00:00:00.000Z'],
+        ['select', 'id, user_id']
+      ]);
+      expect(orgStale).toEqual(expect.arrayContaining([
+        ['update', { deleted_at: '2024-06-30T00:00:00.000Z', deleted_by: null, updated_at: '2024-06-30T00:00:00.000Z' }],
+        ['is', 'deleted_at', null],
+        ['eq', 'pinned', false],
+        ['lt', 'updated_at', '2024-04-01T00:00:00.000Z']
+      ]));
+      // Organizations without retention settings fall back to the defaults
+      expect(defaultPurge).toEqual([
+        ['delete'],
+        ['or', 'organization_id.is.null,organization_id.not.in.(org-1)'],
+        ['lt', 'deleted_at', '2024-05-31T00:00:00.000Z'],
+        ['select', 'id, user_id']
+      ]);
+      expect(chains.chat_sessions).toHaveLength(3);
+    });
+
+    it('should record purged sessions as removed for their owners', async () => {
+      const supabase = { from: jest.fn((table: string) => createBuilder(table)) } as any;
+      results.chat_sessions = { list: { data: [{ id: 'session-1', user_id: 'user-1' }], error: null } };
+
+      await applySessionRetention(supabase, [], new Date('2024-06-30T00:00:00.000Z'));
+
+      expect(chains.chat_session_removals[0]).toEqual([
+        ['insert', [{ session_id: 'session-1', user_id: 'user-1', organization_id: null, removed_at: expect.any(String) }]]
+      ]);
+    });
+
+    it('should ignore invalid retention periods', () => {
+      expect(resolveRetentionPolicy({ retention: { deleted_session_days: -1, stale_session_days: 30 } })).toEqual({
+        deletedSessionDays: 30,
+        staleSessionDays: 30
+      });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { prepareChatTurn } from '../src/services/chatTurn';
+import { validateUpdateSessionRequest } from '../src/utils/requestValidation';
+
+const mockProvider = { name: 'groundx', chat: jest.fn(), stream: jest.fn() };
+
+jest.mock('../src/services/chatProviders', () => ({
+  ...jest.requireActual('../src/services/chatProviders'),
+  resolveChatProvider: jest.fn(async () => mockProvider)
+}));
+
+jest.mock('../src/services/conversationHistory', () => ({
+  assembleConversation: jest.fn(async (_client: any, _sessionId: string, _user: any, messages: any[]) => [
+    { role: 'user', content: 'Earlier question' },
+    ...messages
+  ])
+}));
+
+const { resolveChatProvider } = jest.requireMock('../src/services/chatProviders');
+const { assembleConversation } = jest.requireMock('../src/services/conversationHistory');
+
+// Owned session with stored defaults; inserts (the saved user message) resolve to the inserted row
+function createAuth(defaultSettings: Record<string, any> | null) {
+  const from = jest.fn((table: string) => {
+    let inserted: any = null;
+    const builder: any = {
+      select: jest.fn(() => builder),
+      eq: jest.fn(() => builder),
+      update: jest.fn(() => builder),
+      insert: jest.fn((rows: any[]) => {
+        inserted = rows[0];
+        return builder;
+      }),
+      single: jest.fn(async () => (
+        inserted
+          ? { data: inserted, error: null }
+          : table === 'chat_sessions'
+            ? { data: { id: 'session-1', user_id: 'user-1', default_settings: defaultSettings }, error: null }
+            : { data: null, error: null }
+      )),
+      then: (resolve: any, reject: any) => Promise.resolve({ data: null, error: null }).then(resolve, reject)
+    };
+    return builder;
+  });
+  return { user: { id: 'user-1' }, supabaseClient: { from } as any };
+}
+
+describe('Session default settings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fill in options the request leaves out', async () => {
+    const auth = createAuth({ provider: 'groundx', bucketId: 42, temperature: 0.2, retrievalMode: 'text', useSessionHistory: true });
+
+    const turn = await prepareChatTurn(
+      { sessionId: 'session-1', messages: [{ role: 'user', content: 'Payment terms?' }], temperature: 0.7 },
+      { organizationId: 'org-1', auth }
+    );
+
+    expect(resolveChatProvider).toHaveBeenCalledWith('groundx', 'org-1');
+    expect(turn.params).toEqual({ bucketId: 42, temperature: 0.7, retrievalMode: 'text' });
+    expect(assembleConversation).toHaveBeenCalled();
+    expect(turn.conversation).toHaveLength(2);
+  });
+
+  it('should leave requests without stored defaults unchanged', async () => {
+    const auth = createAuth(null);
+
+    const turn = await prepareChatTurn(
+      { sessionId: 'session-1', messages: [{ role: 'user', content: 'Payment terms?' }], includeCategory: 'contracts' },
+      { organizationId: null, auth }
+    );
+
+    expect(resolveChatProvider).toHaveBeenCalledWith(undefined, null);
+    expect(turn.params).toEqual({ includeCategory: 'contracts' });
+    expect(assembleConversation).not.toHaveBeenCalled();
+  });
+
+  describe('validateUpdateSessionRequest', () => {
+    it('should keep known chat options and allow clearing the defaults', () => {
+      expect(validateUpdateSessionRequest({ settings: { index: 'contracts', minRerankerScore: 1.5, unknown: true } })).toEqual({
+        issues: [],
+        value: { settings: { index: 'contracts', minRerankerScore: 1.5 } }
+      });
+      expect(validateUpdateSessionRequest({ settings: null })).toEqual({ issues: [], value: { settings: null } });
+    });
+
+    it('should report invalid settings under the settings path', () => {
+      const { issues } = validateUpdateSessionRequest({ settings: { temperature: 5, context: {} } });
+
+      expect(issues).toEqual([
+        { path: 'settings.temperature', message: 'must be at most 2' },
+        { path: 'settings.context', message: 'cannot be stored as a session default' }
+      ]);
+    });
+  });
+});
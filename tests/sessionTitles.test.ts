@@ -0,0 +1,106 @@
+import { fallbackSessionTitle, updateSessionTitleIfDefault } from '../src/services/sessionTitles';
+
+const mockOpenAIClient = {
+  chat: {
+    completions: {
+      create: jest.fn()
+    }
+  }
+};
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => mockOpenAIClient)
+}));
+
+// Minimal chainable stand-in for the Supabase query builder; assistantReplies is the
+// session's assistant message count
+function createSupabaseMock(currentTitle: string | null, assistantReplies: number = 1) {
+  const updates: any[] = [];
+  const builder: any = {
+    select: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    update: jest.fn((values: any) => {
+      updates.push(values);
+      return builder;
+    }),
+    single: jest.fn(async () => (
+      currentTitle === null
+        ? { data: null, error: { message: 'Not found' } }
+        : { data: { title: currentTitle }, error: null }
+    )),
+    maybeSingle: jest.fn(async () => ({ data: { title: updates[updates.length - 1]?.title }, error: null }))
+  };
+
+  const messageCount: any = {
+    select: jest.fn(() => messageCount),
+    eq: jest.fn(() => messageCount),
+    then: (resolve: any) => resolve({ count: assistantReplies, error: null })
+  };
+
+  return {
+    client: { from: jest.fn((table: string) => table === 'chat_messages' ? messageCount : builder) } as any,
+    builder,
+    updates
+  };
+}
+
+const messages = [{ role: 'user', content: 'What are the payment terms in the Acme supply agreement?' }];
+
+describe('Session titles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should title a default-named session from the first exchange', async () => {
+    mockOpenAIClient.chat.completions.create.mockResolvedValueOnce({
+      choices: [{ message: { content: '"Acme Payment Terms."' } }]
+    });
+    const supabase = createSupabaseMock('New Chat');
+
+    const title = await updateSessionTitleIfDefault(supabase.client, 'session-1', messages, 'Net 30.');
+
+    expect(title).toBe('Acme Payment Terms');
+    expect(supabase.updates[0]).toEqual(expect.objectContaining({ title: 'Acme Payment Terms' }));
+    expect(supabase.builder.eq).toHaveBeenCalledWith('title', 'New Chat');
+    // Scoped by session only, so contributors' first replies title shared sessions
+    expect(supabase.builder.eq).not.toHaveBeenCalledWith('user_id', expect.anything());
+  });
+
+  it('should only title a session on its first assistant reply', async () => {
+    const supabase = createSupabaseMock('New Chat', 2);
+
+    const title = await updateSessionTitleIfDefault(supabase.client, 'session-1', messages, 'Net 30.');
+
+    expect(title).toBeNull();
+    expect(supabase.builder.update).not.toHaveBeenCalled();
+    expect(mockOpenAIClient.chat.completions.create).not.toHaveBeenCalled();
+  });
+
+  it('should leave sessions that already have a title untouched', async () => {
+    const supabase = createSupabaseMock('Renamed by user');
+
+    const title = await updateSessionTitleIfDefault(supabase.client, 'session-1', messages, 'Net 30.');
+
+    expect(title).toBeNull();
+    expect(supabase.builder.update).not.toHaveBeenCalled();
+    expect(mockOpenAIClient.chat.completions.create).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the truncated question when generation fails', async () => {
+    mockOpenAIClient.chat.completions.create.mockRejectedValueOnce(new Error('OpenAI unavailable'));
+    const supabase = createSupabaseMock('New Chat');
+
+    const title = await updateSessionTitleIfDefault(supabase.client, 'session-1', messages, 'Net 30.');
+
+    expect(title).toBe('What are the payment terms in the Acme supply agreement?');
+  });
+
+  it('should truncate long questions at a word boundary', () => {
+    const title = fallbackSessionTitle('Summarize every indemnification clause across all of the subcontractor agreements we signed last year');
+
+    expect(title.length).toBeLessThanOrEqual(61);
+    expect(title.endsWith('…')).toBe(true);
+    expect(title).not.toContain('  ');
+  });
+});
@@ -15,6 +15,7 @@ process.env.OPENAI_API_KEY = 'test-openai-key';
 process.env.GROUNDX_API_KEY = 'test-groundx-key';
 process.env.SUPABASE_URL = 'https://test-project.supabase.co';
 process.env.SUPABASE_ANON_KEY = 'test-supabase-anon-key';
+process.env.CHAT_BACKEND_RETRY_BASE_MS = '1';
 
 // Set longer timeout for integration tests
 jest.setTimeout(30000);
@@ -0,0 +1,68 @@
+import { SSEParser, parseEventData, extractDeltaContent } from '../src/utils/sseParser';
+
+describe('SSE Parser', () => {
+  describe('SSEParser', () => {
+    it('should reassemble events split across chunks', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push('data: {"choices": [{"delta": {"con')).toEqual([]);
+      expect(parser.push('tent": "Hel"}}]}\n')).toEqual([]);
+
+      const events = parser.push('\ndata: {"choices": [{"delta": {"content": "lo"}}]}\n\n');
+
+      expect(events).toHaveLength(2);
+      expect(events.map(event => extractDeltaContent(parseEventData(event.data))).join('')).toBe('Hello');
+    });
+
+    it('should join multi-line data fields and honor event types and ids', () => {
+      const parser = new SSEParser();
+
+      const events = parser.push('event: thoughts\nid: 7\ndata: first line\ndata: second line\n\n');
+
+      expect(events).toEqual([
+        { event: 'thoughts', id: '7', data: 'first line\nsecond line' }
+      ]);
+    });
+
+    it('should handle CRLF line endings split between chunks', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push('data: one\r')).toEqual([]);
+      const events = parser.push('\n\r\n');
+
+      expect(events).toEqual([{ event: 'message', data: 'one' }]);
+    });
+
+    it('should ignore comments and emit NDJSON lines as events', () => {
+      const parser = new SSEParser();
+
+      const events = parser.push(': keep-alive\n{"delta": {"content": "Hi"}}\n{"delta": {"content": "!"}, "context": {}}\n');
+
+      expect(events).toHaveLength(2);
+      expect(events.map(event => extractDeltaContent(parseEventData(event.data))).join('')).toBe('Hi!');
+    });
+
+    it('should emit a trailing event without a terminating blank line on flush', () => {
+      const parser = new SSEParser();
+
+      expect(parser.push('data: {"content": "end"}')).toEqual([]);
+      expect(parser.flush()).toEqual([{ event: 'message', data: '{"content": "end"}' }]);
+    });
+  });
+
+  describe('parseEventData', () => {
+    it('should return null for the DONE sentinel and invalid JSON', () => {
+      expect(parseEventData('[DONE]')).toBeNull();
+      expect(parseEventData('not json')).toBeNull();
+      expect(parseEventData('{"ok": true}')).toEqual({ ok: true });
+    });
+  });
+
+  describe('extractDeltaContent', () => {
+    it('should support OpenAI and Azure sample delta shapes', () => {
+      expect(extractDeltaContent({ choices: [{ delta: { content: 'openai' } }] })).toBe('openai');
+      expect(extractDeltaContent({ delta: { content: 'azure', role: 'assistant' } })).toBe('azure');
+      expect(extractDeltaContent({ context: { thoughts: [] } })).toBe('');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateSupabaseUser, optionalSupabaseAuth } from '../src/middleware/supabaseAuth';
+
+// Users without a client configuration have no organization
+jest.mock('@supabase/supabase-js', () => {
+  const builder: any = {
+    select: () => builder,
+    eq: () => builder,
+    limit: async () => ({ data: [], error: null })
+  };
+  return { createClient: () => ({ from: () => builder }) };
+});
+
+function token(payload: Record<string, any>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64');
+  return `${encode({ alg: 'HS256' })}.${encode(payload)}.signature`;
+}
+
+describe('Supabase auth middleware', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    const caller = (req: any, res: any) => res.json({ userId: req.user?.id ?? null });
+    app.get('/optional', optionalSupabaseAuth as any, caller);
+    app.get('/required', authenticateSupabaseUser as any, caller);
+  });
+
+  it('should attach the user of a decodable token', async () => {
+    const response = await request(app)
+      .get('/optional')
+      .set('Authorization', `Bearer ${token({ sub: 'user-1', email: 'user@example.com' })}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.userId).toBe('user-1');
+  });
+
+  it('should treat callers with a bad token as anonymous when auth is optional', async () => {
+    const malformed = await request(app).get('/optional').set('Authorization', 'Bearer not-a-jwt');
+    const undecodable = await request(app).get('/optional').set('Authorization', 'Bearer a.%%%.c');
+
+    expect(malformed.status).toBe(200);
+    expect(malformed.body.userId).toBeNull();
+    expect(undecodable.status).toBe(200);
+    expect(undecodable.body.userId).toBeNull();
+  });
+
+  it('should still reject bad tokens when auth is required', async () => {
+    const response = await request(app).get('/required').set('Authorization', 'Bearer not-a-jwt');
+
+    expect(response.status).toBe(401);
+    expect(response.body).toEqual({ success: false, error: 'Invalid JWT format' });
+  });
+});